@@ -1,10 +1,18 @@
 import { analyzeResponse } from '@/utils/groq';
 import { NextResponse } from 'next/server';
+import { llmErrorResponse } from '@/utils/apiErrors';
+import { CacheStatus } from '@/utils/cache';
+import { analyzeCode } from '@/utils/codeAnalysis';
+import { questionLanguages } from '@/utils/codeStarters';
+import { checkExecutionRequest, combineScores, runTests, toExecutionLanguage } from '@/utils/execution';
+import { getAskedQuestion } from '@/utils/interviewStore';
+import { DEFAULT_RUBRIC } from '@/utils/rubric';
+import { getTemplate } from '@/utils/templates';
 
 export async function POST(request: Request) {
   try {
     const body = await request.json();
-    const { question, response, expectedTopics, questionType, correctOption, explanation } = body;
+    const { question, response, expectedTopics, questionType, correctOption, explanation, interviewId, organizationId, questionNumber, templateId, bypassCache, parent, language } = body;
 
     console.log('Analyze API received:', {
       questionType,
@@ -21,6 +29,14 @@ export async function POST(request: Request) {
       );
     }
 
+    // Follow-ups are graded in the context of the question they drill into
+    if (parent !== undefined && (typeof parent?.question !== 'string' || typeof parent?.response !== 'string')) {
+      return NextResponse.json(
+        { error: 'parent must have a question and a response' },
+        { status: 400 }
+      );
+    }
+
     // For MCQ questions, directly compare with correct answer
     if (questionType.toLowerCase() === 'mcq') {
       if (!correctOption) {
@@ -45,12 +61,66 @@ export async function POST(request: Request) {
       return NextResponse.json(mcqAnalysis);
     }
 
-    // For other question types, use GROQ API
+    // Coding answers are also run against the tests the server generated for
+    // this interview's question, in the language the candidate chose if the
+    // question allows it and the sandbox runs it. Follow-ups have no tests.
+    const asked = questionType.toLowerCase() === 'coding' && parent === undefined
+      && typeof interviewId === 'string' && typeof questionNumber === 'number'
+      ? getAskedQuestion(interviewId, questionNumber)
+      : undefined;
+    const tested = asked?.tests && asked.functionName && asked.question === question ? asked : undefined;
+    const executionLanguage = tested && typeof language === 'string' && questionLanguages(tested).includes(language)
+      ? toExecutionLanguage(language)
+      : null;
+    const functionName = tested?.functionName;
+    const tests = tested?.tests ?? [];
+    if (executionLanguage) {
+      const violations = checkExecutionRequest({ code: response, language: executionLanguage, functionName, tests });
+      if (violations.length > 0) {
+        return NextResponse.json(
+          { error: 'Invalid tests', violations },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Named in the grading prompt, so only an editor language id
+    const answerLanguage = questionType.toLowerCase() === 'coding' && typeof language === 'string' && /^[\w#+-]{1,30}$/.test(language)
+      ? language
+      : undefined;
+
+    // Grade against the template's rubric and prompts when the interview uses one
+    const template = templateId ? await getTemplate(templateId) : null;
+    if (templateId && !template) {
+      return NextResponse.json(
+        { error: 'Interview template not found' },
+        { status: 404 }
+      );
+    }
+
+    // For other question types, use the configured LLM provider
     try {
-      console.log('Analyzing response with GROQ...');
-      const analysis = await analyzeResponse(question, response, expectedTopics);
-      console.log('GROQ Analysis result:', analysis);
-      return NextResponse.json(analysis);
+      console.log('Analyzing response with LLM...');
+      let cacheStatus: CacheStatus | undefined;
+      // Static analysis findings go to the grader as evidence
+      const staticAnalysis = answerLanguage && typeof response === 'string' ? await analyzeCode(response, answerLanguage) : null;
+      const [llmAnalysis, execution] = await Promise.all([analyzeResponse(question, response, expectedTopics, {
+        interviewId,
+        organizationId,
+        questionNumber,
+        parent: parent && { question: parent.question, response: parent.response },
+        language: answerLanguage,
+        staticAnalysis: staticAnalysis ?? undefined,
+        promptOverrides: template?.prompts,
+        cache: { bypass: bypassCache === true, onStatus: status => { cacheStatus = status; } },
+        signal: request.signal
+      }, template?.rubric ?? DEFAULT_RUBRIC), executionLanguage
+        ? runTests({ code: response, language: executionLanguage, functionName: functionName!, tests })
+        : null]);
+      console.log('LLM Analysis result:', llmAnalysis);
+      const graded = execution ? combineScores(llmAnalysis, execution) : llmAnalysis;
+      const analysis = staticAnalysis ? { ...graded, staticAnalysis } : graded;
+      return NextResponse.json(analysis, cacheStatus ? { headers: { 'X-Cache': cacheStatus } } : undefined);
     } catch (error) {
       console.error('Error analyzing response:', error);
       console.error('Error details:', {
@@ -58,6 +128,12 @@ export async function POST(request: Request) {
         message: error instanceof Error ? error.message : 'Unknown error',
         stack: error instanceof Error ? error.stack : undefined
       });
+
+      const errorResponse = llmErrorResponse(error, 'Failed to analyze response');
+      if (errorResponse) {
+        return errorResponse;
+      }
+
       return NextResponse.json(
         { 
           error: 'Failed to analyze response', 
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { questionLanguages } from '@/utils/codeStarters';
+import { consumeEditorRun, runTests } from '@/utils/execution';
+import { getAskedQuestion } from '@/utils/interviewStore';
+import { SchemaValidationError } from '@/utils/schema';
+
+// Runs the candidate's code against the visible tests of a question asked
+// in their interview. Body: { code, language, interviewId, questionNumber }.
+// The function name and tests come from the question as the server
+// generated it, and runs are limited per interview.
+export async function POST(request: Request) {
+  let body;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  const { code, language, interviewId, questionNumber } = body;
+  const asked = typeof interviewId === 'string' && typeof questionNumber === 'number'
+    ? getAskedQuestion(interviewId, questionNumber)
+    : undefined;
+  if (!asked?.tests || !asked.functionName) {
+    return NextResponse.json(
+      { error: 'No question with tests was asked at this point of the interview' },
+      { status: 404 }
+    );
+  }
+
+  const languages = questionLanguages(asked);
+  if (typeof language !== 'string' || !languages.includes(language)) {
+    return NextResponse.json(
+      { error: 'Invalid execution request', violations: [{ path: '$.language', message: `must be one of ${languages.join(', ')}` }] },
+      { status: 400 }
+    );
+  }
+
+  const retryAfterMs = consumeEditorRun(interviewId);
+  if (retryAfterMs !== null) {
+    const retryAfterSeconds = Math.ceil(retryAfterMs / 1000);
+    return NextResponse.json(
+      { error: 'Too many test runs. Please wait a moment before running the tests again.', code: 'RATE_LIMITED', retryAfterSeconds },
+      { status: 429, headers: { 'Retry-After': String(retryAfterSeconds) } }
+    );
+  }
+
+  try {
+    const tests = asked.tests.filter(test => !test.hidden);
+    const result = await runTests({ code, language, functionName: asked.functionName, tests });
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: 'Invalid execution request', violations: error.violations },
+        { status: 400 }
+      );
+    }
+    console.error('Error executing code:', error);
+    return NextResponse.json(
+      { error: 'Failed to run the code' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import { llmErrorResponse } from '@/utils/apiErrors';
+import { proposeInterviewPlan } from '@/utils/groq';
+import { MAX_PLAN_INPUT_LENGTH } from '@/utils/interviewPlan';
+import { getTemplate } from '@/utils/templates';
+
+// Proposes an interview from a job description and, optionally, a resume
+// (as text; PDFs are converted in the browser). Body: jobDescription,
+// resume?, numQuestions?, organizationId?, templateId?
+export async function POST(request: Request) {
+  try {
+    const { jobDescription, resume, numQuestions, organizationId, templateId } = await request.json();
+
+    if (typeof jobDescription !== 'string' || !jobDescription.trim()) {
+      return NextResponse.json(
+        { error: 'A job description is required' },
+        { status: 400 }
+      );
+    }
+
+    if (resume !== undefined && typeof resume !== 'string') {
+      return NextResponse.json(
+        { error: 'resume must be text' },
+        { status: 400 }
+      );
+    }
+
+    if (jobDescription.length > MAX_PLAN_INPUT_LENGTH || (resume?.length ?? 0) > MAX_PLAN_INPUT_LENGTH) {
+      return NextResponse.json(
+        { error: `The job description and resume must each be at most ${MAX_PLAN_INPUT_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (numQuestions !== undefined && !(Number.isInteger(numQuestions) && numQuestions >= 1 && numQuestions <= 20)) {
+      return NextResponse.json(
+        { error: 'numQuestions must be a whole number from 1 to 20' },
+        { status: 400 }
+      );
+    }
+
+    const template = templateId ? await getTemplate(templateId) : null;
+    if (templateId && !template) {
+      return NextResponse.json(
+        { error: 'Interview template not found' },
+        { status: 404 }
+      );
+    }
+
+    try {
+      const plan = await proposeInterviewPlan(
+        { jobDescription, resume, numQuestions },
+        { organizationId, promptOverrides: template?.prompts, signal: request.signal }
+      );
+      return NextResponse.json(plan);
+    } catch (error) {
+      console.error('Error proposing interview plan:', error);
+
+      const errorResponse = llmErrorResponse(error, 'The proposed interview was malformed. Please try again.');
+      if (errorResponse) {
+        return errorResponse;
+      }
+
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error in interview plan route handler:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to propose an interview' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import { invalidatePrefetched, prefetchQuestions, QuestionSlot } from '@/utils/interviewStore';
+import { getTemplate } from '@/utils/templates';
+
+function parseSlots(slots: unknown): QuestionSlot[] | null {
+  if (!Array.isArray(slots)) {
+    return null;
+  }
+
+  const parsed: QuestionSlot[] = [];
+  for (const slot of slots) {
+    if (
+      !slot ||
+      typeof slot.questionNumber !== 'number' ||
+      typeof slot.technology !== 'string' || !slot.technology.trim() ||
+      typeof slot.difficulty !== 'string' || !slot.difficulty.trim() ||
+      typeof slot.questionType !== 'string' || !slot.questionType.trim() ||
+      (slot.topic !== undefined && typeof slot.topic !== 'string')
+    ) {
+      return null;
+    }
+
+    parsed.push({
+      questionNumber: slot.questionNumber,
+      technology: decodeURIComponent(slot.technology.trim()),
+      difficulty: slot.difficulty.trim().toLowerCase(),
+      questionType: slot.questionType.trim(),
+      topic: slot.topic?.trim() || undefined,
+    });
+  }
+
+  return parsed;
+}
+
+// Generates upcoming questions in the background while the candidate is
+// answering. Body: { slots: [{ questionNumber, technology, difficulty, questionType, topic? }], organizationId?, candidateId?, templateId? }
+export async function POST(request: Request, { params }: { params: { interviewId: string } }) {
+  try {
+    const { slots, organizationId, candidateId, templateId } = await request.json();
+    const parsedSlots = parseSlots(slots);
+
+    if (!parsedSlots) {
+      return NextResponse.json(
+        { error: 'slots must be an array of { questionNumber, technology, difficulty, questionType }' },
+        { status: 400 }
+      );
+    }
+
+    const template = templateId ? await getTemplate(templateId) : null;
+    if (templateId && !template) {
+      return NextResponse.json(
+        { error: 'Interview template not found' },
+        { status: 404 }
+      );
+    }
+
+    const scheduled = prefetchQuestions(params.interviewId, parsedSlots, organizationId, candidateId, template?.prompts);
+    console.log('Prefetch scheduled:', { interviewId: params.interviewId, scheduled });
+
+    return NextResponse.json({ scheduled }, { status: 202 });
+  } catch (error) {
+    console.error('Error in prefetch route:', error);
+    return NextResponse.json(
+      { error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+}
+
+// Drops prefetched questions that are no longer part of the plan.
+// Body (optional): { slots: [...] } listing the slots still planned.
+export async function DELETE(request: Request, { params }: { params: { interviewId: string } }) {
+  const body = await request.json().catch(() => ({}));
+  const parsedSlots = body.slots === undefined ? [] : parseSlots(body.slots);
+
+  if (!parsedSlots) {
+    return NextResponse.json(
+      { error: 'slots must be an array of { questionNumber, technology, difficulty, questionType }' },
+      { status: 400 }
+    );
+  }
+
+  invalidatePrefetched(params.interviewId, parsedSlots);
+  return NextResponse.json({ success: true });
+}
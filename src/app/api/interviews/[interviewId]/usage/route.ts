@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { getInterviewUsage } from '@/utils/llm';
+
+// Tokens, cost and latency of the LLM calls made for an interview, in total
+// and per question, task and model
+export async function GET(request: Request, { params }: { params: { interviewId: string } }) {
+  const usage = getInterviewUsage(params.interviewId);
+  if (!usage) {
+    return NextResponse.json({ error: 'No usage recorded for this interview' }, { status: 404 });
+  }
+  return NextResponse.json(usage);
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/utils/adminAuth';
+import { deleteBankQuestion, getBankQuestion, updateBankQuestion } from '@/utils/questionBank';
+import { SchemaValidationError } from '@/utils/schema';
+
+type Params = { params: { id: string } };
+
+export async function GET(request: Request, { params }: Params) {
+  const denied = requireAdmin(request);
+  if (denied) {
+    return denied;
+  }
+
+  const question = await getBankQuestion(params.id);
+  if (!question) {
+    return NextResponse.json({ error: 'Question not found' }, { status: 404 });
+  }
+  return NextResponse.json(question);
+}
+
+// Edits or reviews a question, e.g. { "status": "approved" } for a generated one
+export async function PATCH(request: Request, { params }: Params) {
+  const denied = requireAdmin(request);
+  if (denied) {
+    return denied;
+  }
+
+  let patch;
+  try {
+    patch = await request.json();
+  } catch (error) {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  try {
+    const question = await updateBankQuestion(params.id, patch);
+    if (!question) {
+      return NextResponse.json({ error: 'Question not found' }, { status: 404 });
+    }
+    return NextResponse.json(question);
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: 'Invalid question', violations: error.violations },
+        { status: 400 }
+      );
+    }
+    console.error('Error updating bank question:', error);
+    return NextResponse.json(
+      { error: 'Failed to update question' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: Request, { params }: Params) {
+  const denied = requireAdmin(request);
+  if (denied) {
+    return denied;
+  }
+
+  const deleted = await deleteBankQuestion(params.id);
+  if (!deleted) {
+    return NextResponse.json({ error: 'Question not found' }, { status: 404 });
+  }
+  return NextResponse.json({ success: true });
+}
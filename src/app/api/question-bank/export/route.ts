@@ -0,0 +1,41 @@
+import { requireAdmin } from '@/utils/adminAuth';
+import { listBankQuestions, parseBankFilter } from '@/utils/questionBank';
+import {
+  BANK_FORMAT_CONTENT_TYPES,
+  BANK_FORMAT_EXTENSIONS,
+  parseBankFormat,
+  serializeBankQuestions,
+} from '@/utils/questionBankFormats';
+
+// Downloads bank questions. Query: format=json|yaml|markdown plus the list filters
+export async function GET(request: Request) {
+  const denied = requireAdmin(request);
+  if (denied) {
+    return denied;
+  }
+
+  const searchParams = new URL(request.url).searchParams;
+  const format = parseBankFormat(searchParams.get('format') ?? 'json');
+  if (!format) {
+    return Response.json(
+      { error: 'format must be json, yaml or markdown' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const questions = await listBankQuestions(parseBankFilter(searchParams));
+    return new Response(serializeBankQuestions(questions, format), {
+      headers: {
+        'Content-Type': `${BANK_FORMAT_CONTENT_TYPES[format]}; charset=utf-8`,
+        'Content-Disposition': `attachment; filename="question-bank.${BANK_FORMAT_EXTENSIONS[format]}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting question bank:', error);
+    return Response.json(
+      { error: 'Failed to export the question bank' },
+      { status: 500 }
+    );
+  }
+}
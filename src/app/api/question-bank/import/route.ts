@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/utils/adminAuth';
+import { BankQuestionStatus, saveBankQuestions } from '@/utils/questionBank';
+import { BankFormatError, parseBankFormat, parseBankQuestions } from '@/utils/questionBankFormats';
+
+// Imports an exported file sent as the raw request body. The format comes
+// from ?format=json|yaml|markdown or the Content-Type header. Imported
+// questions are approved unless ?status=pending is given.
+export async function POST(request: Request) {
+  const denied = requireAdmin(request);
+  if (denied) {
+    return denied;
+  }
+
+  const searchParams = new URL(request.url).searchParams;
+  const format = parseBankFormat(searchParams.get('format'), request.headers.get('Content-Type'));
+  if (!format) {
+    return NextResponse.json(
+      { error: 'Specify format=json, yaml or markdown, or a matching Content-Type' },
+      { status: 400 }
+    );
+  }
+
+  const status: BankQuestionStatus = searchParams.get('status') === 'pending' ? 'pending' : 'approved';
+
+  try {
+    const entries = parseBankQuestions(await request.text(), format);
+    const { saved, skipped, errors } = await saveBankQuestions(entries, { status });
+    console.log('Question bank import:', { format, imported: saved.length, skipped, rejected: errors.length });
+
+    return NextResponse.json({ imported: saved.length, skipped, errors });
+  } catch (error) {
+    if (error instanceof BankFormatError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error importing into question bank:', error);
+    return NextResponse.json(
+      { error: 'Failed to import questions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/utils/adminAuth';
+import { listBankQuestions, parseBankFilter, saveBankQuestions } from '@/utils/questionBank';
+
+// Lists bank questions. Query: technology, difficulty, type, topic, status
+export async function GET(request: Request) {
+  const denied = requireAdmin(request);
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const filter = parseBankFilter(new URL(request.url).searchParams);
+    const questions = await listBankQuestions(filter);
+    return NextResponse.json({ questions });
+  } catch (error) {
+    console.error('Error listing question bank:', error);
+    return NextResponse.json(
+      { error: 'Failed to read the question bank' },
+      { status: 500 }
+    );
+  }
+}
+
+// Adds curated questions. Body: a single entry, a list, or { questions: [...] }
+export async function POST(request: Request) {
+  const denied = requireAdmin(request);
+  if (denied) {
+    return denied;
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  const entries = Array.isArray(body) ? body : Array.isArray(body?.questions) ? body.questions : [body];
+
+  try {
+    const result = await saveBankQuestions(entries);
+    return NextResponse.json(result, { status: result.errors.length > 0 && result.saved.length === 0 ? 400 : 201 });
+  } catch (error) {
+    console.error('Error saving to question bank:', error);
+    return NextResponse.json(
+      { error: 'Failed to save questions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server';
+import { llmErrorResponse } from '@/utils/apiErrors';
+import { CacheStatus } from '@/utils/cache';
+import { generateFollowUp } from '@/utils/groq';
+import { getTemplate } from '@/utils/templates';
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// Generates a follow-up to an answered question, probing what its grading
+// found missing. Call once per follow-up, passing the ones already asked.
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const {
+      technology,
+      difficulty,
+      questionNumber,
+      question,
+      response,
+      analysis,
+      previousFollowUps = [],
+      interviewId,
+      organizationId,
+      templateId,
+      bypassCache,
+    } = body;
+
+    if (!technology || !difficulty || !question || !response) {
+      return NextResponse.json(
+        { error: 'Technology, difficulty, question and response are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isStringArray(analysis?.coveredTopics) || !isStringArray(analysis?.missingTopics)) {
+      return NextResponse.json(
+        { error: 'analysis must have coveredTopics and missingTopics' },
+        { status: 400 }
+      );
+    }
+
+    if (!isStringArray(previousFollowUps)) {
+      return NextResponse.json(
+        { error: 'previousFollowUps must be a list of questions' },
+        { status: 400 }
+      );
+    }
+
+    const template = templateId ? await getTemplate(templateId) : null;
+    if (templateId && !template) {
+      return NextResponse.json(
+        { error: 'Interview template not found' },
+        { status: 404 }
+      );
+    }
+
+    try {
+      let cacheStatus: CacheStatus | undefined;
+      const followUp = await generateFollowUp({
+        technology: decodeURIComponent(technology.trim()),
+        difficulty: difficulty.trim().toLowerCase(),
+        questionNumber,
+        parent: { question, response },
+        analysis: { coveredTopics: analysis.coveredTopics, missingTopics: analysis.missingTopics },
+        previousFollowUps,
+      }, {
+        interviewId,
+        organizationId,
+        promptOverrides: template?.prompts,
+        cache: { bypass: bypassCache === true, onStatus: status => { cacheStatus = status; } },
+        signal: request.signal
+      });
+
+      return NextResponse.json(followUp, cacheStatus ? { headers: { 'X-Cache': cacheStatus } } : undefined);
+    } catch (error) {
+      console.error('Error generating follow-up question:', error);
+
+      const errorResponse = llmErrorResponse(error, 'The generated follow-up was malformed. Please try again.');
+      if (errorResponse) {
+        return errorResponse;
+      }
+
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error in follow-up route handler:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to generate follow-up question' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,14 @@
 import { NextResponse } from 'next/server';
-import { generateQuestion } from '@/utils/groq';
+import { llmErrorResponse } from '@/utils/apiErrors';
+import { CacheStatus } from '@/utils/cache';
+import { withoutHiddenTests } from '@/utils/execution';
+import { generateInterviewQuestion, takePrefetchedQuestion } from '@/utils/interviewStore';
+import { getTemplate } from '@/utils/templates';
 
 export async function POST(request: Request) {
   try {
     const body = await request.json();
-    const { technology, difficulty, questionNumber, questionType } = body;
+    const { technology, difficulty, questionNumber, questionType, topic, interviewId, organizationId, candidateId, templateId, bypassCache } = body;
 
     // Debug log the raw values
     console.log('Raw request values:', {
@@ -24,6 +28,15 @@ export async function POST(request: Request) {
       );
     }
 
+    // Use the template's prompts when the interview customizes them
+    const template = templateId ? await getTemplate(templateId) : null;
+    if (templateId && !template) {
+      return NextResponse.json(
+        { error: 'Interview template not found' },
+        { status: 404 }
+      );
+    }
+
     // Validate and clean inputs
     const cleanTechnology = decodeURIComponent(technology.trim());
     const cleanDifficulty = difficulty.trim().toLowerCase();
@@ -41,7 +54,29 @@ export async function POST(request: Request) {
     });
     
     try {
-      const question = await generateQuestion(cleanTechnology, cleanDifficulty, questionNumber, questionType);
+      const slot = {
+        questionNumber,
+        technology: cleanTechnology,
+        difficulty: cleanDifficulty,
+        questionType,
+        topic: typeof topic === 'string' && topic.trim() ? topic.trim() : undefined
+      };
+      const prefetched = interviewId ? await takePrefetchedQuestion(interviewId, slot) : null;
+
+      if (prefetched) {
+        console.log('Serving prefetched question:', { interviewId, questionNumber });
+        return NextResponse.json(withoutHiddenTests(prefetched), { headers: { 'X-Question-Source': 'prefetch' } });
+      }
+
+      let cacheStatus: CacheStatus | undefined;
+      const question = await generateInterviewQuestion(slot, {
+        interviewId,
+        organizationId,
+        candidateId,
+        promptOverrides: template?.prompts,
+        cache: { bypass: bypassCache === true, onStatus: status => { cacheStatus = status; } },
+        signal: request.signal
+      });
       
       console.log('Successfully generated question:', {
         hasQuestion: !!question?.question,
@@ -54,16 +89,13 @@ export async function POST(request: Request) {
         throw new Error('Invalid question format received');
       }
 
-      return NextResponse.json(question);
+      return NextResponse.json(withoutHiddenTests(question), cacheStatus ? { headers: { 'X-Cache': cacheStatus } } : undefined);
     } catch (error) {
       console.error('Error in question generation:', error);
-      
-      // Check if it's a rate limit error
-      if (error instanceof Error && error.message.includes('rate limit')) {
-        return NextResponse.json(
-          { error: 'Rate limit exceeded. Please wait a moment before trying again.' },
-          { status: 429 }
-        );
+
+      const errorResponse = llmErrorResponse(error, 'The generated question was malformed. Please try again.');
+      if (errorResponse) {
+        return errorResponse;
       }
       
       throw error; // Re-throw other errors
@@ -0,0 +1,111 @@
+import { describeLLMError } from '@/utils/apiErrors';
+import { withoutHiddenTests } from '@/utils/execution';
+import { generateInterviewQuestion, takePrefetchedQuestion } from '@/utils/interviewStore';
+import { getTemplate } from '@/utils/templates';
+
+// Streaming variant of /api/questions. Responds with server-sent events:
+//   event: token     data: {"text": "..."}           raw model output as it arrives (not for
+//                                                    coding questions with tests, whose
+//                                                    output holds the hidden tests)
+//   event: repair    data: {"attempt": 1, ...}       output was invalid, asking for a fix
+//   event: duplicate data: {"attempt": 1, ...}       too close to an earlier question, regenerating
+//   event: discard   data: {"attempt": 1, ...}       the model answer failed its own tests, regenerating
+//   event: cache     data: {"status": "hit"}         whether the result cache was used
+//                                                    (hit, miss or bypass)
+//   event: question  data: {...}                     the validated question, without hidden
+//                                                    tests (sent straight away when it was
+//                                                    prefetched)
+//   event: error     data: {"error": "...", ...}     same body as /api/questions errors
+export async function POST(request: Request) {
+  let body;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return Response.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  const { technology, difficulty, questionNumber, questionType, topic, interviewId, organizationId, candidateId, templateId, bypassCache } = body;
+
+  if (!technology || !difficulty || !questionType) {
+    return Response.json(
+      { error: 'Technology, difficulty, and question type are required' },
+      { status: 400 }
+    );
+  }
+
+  const template = templateId ? await getTemplate(templateId) : null;
+  if (templateId && !template) {
+    return Response.json({ error: 'Interview template not found' }, { status: 404 });
+  }
+
+  const cleanTechnology = decodeURIComponent(technology.trim());
+  const cleanDifficulty = difficulty.trim().toLowerCase();
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        } catch (error) {
+          // The client disconnected; generation is cancelled via request.signal
+        }
+      };
+
+      try {
+        const slot = {
+          questionNumber,
+          technology: cleanTechnology,
+          difficulty: cleanDifficulty,
+          questionType,
+          topic: typeof topic === 'string' && topic.trim() ? topic.trim() : undefined,
+        };
+        const prefetched = interviewId ? await takePrefetchedQuestion(interviewId, slot) : null;
+
+        if (prefetched) {
+          send('question', withoutHiddenTests(prefetched));
+          return;
+        }
+
+        const question = await generateInterviewQuestion(
+          slot,
+          {
+            interviewId,
+            organizationId,
+            candidateId,
+            promptOverrides: template?.prompts,
+            cache: { bypass: bypassCache === true, onStatus: status => send('cache', { status }) },
+            signal: request.signal,
+          },
+          {
+            onToken: text => send('token', { text }),
+            onRepair: (attempt, violations) => send('repair', { attempt, violations }),
+            onDuplicate: (attempt, similarity) => send('duplicate', { attempt, similarity }),
+            onDiscard: (attempt, violations) => send('discard', { attempt, violations }),
+          }
+        );
+        send('question', withoutHiddenTests(question));
+      } catch (error) {
+        console.error('Error in streamed question generation:', error);
+        const description = describeLLMError(error, 'The generated question was malformed. Please try again.');
+        send('error', description
+          ? { ...description.body, status: description.status }
+          : { error: error instanceof Error ? error.message : 'Failed to generate question', status: 500 });
+      } finally {
+        try {
+          controller.close();
+        } catch (error) {
+          // Already closed by a disconnecting client
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/utils/adminAuth';
+import { SchemaValidationError } from '@/utils/schema';
+import { deleteCustomTechnology, getTechnologyCatalog, replaceCustomTechnology } from '@/utils/technologies';
+
+type Params = { params: { id: string } };
+
+export async function GET(request: Request, { params }: Params) {
+  const technology = (await getTechnologyCatalog()).find(entry => entry.id === params.id);
+  if (!technology) {
+    return NextResponse.json({ error: 'Technology not found' }, { status: 404 });
+  }
+  return NextResponse.json(technology);
+}
+
+// Only internal technologies can be changed; built-in ones are part of the app
+export async function PUT(request: Request, { params }: Params) {
+  const denied = requireAdmin(request);
+  if (denied) {
+    return denied;
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  try {
+    const technology = await replaceCustomTechnology(params.id, body);
+    if (!technology) {
+      return NextResponse.json({ error: 'Internal technology not found' }, { status: 404 });
+    }
+    return NextResponse.json(technology);
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: 'Invalid technology', violations: error.violations },
+        { status: 400 }
+      );
+    }
+    console.error('Error updating technology:', error);
+    return NextResponse.json(
+      { error: 'Failed to update technology' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: Request, { params }: Params) {
+  const denied = requireAdmin(request);
+  if (denied) {
+    return denied;
+  }
+
+  const deleted = await deleteCustomTechnology(params.id);
+  if (!deleted) {
+    return NextResponse.json({ error: 'Internal technology not found' }, { status: 404 });
+  }
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/utils/adminAuth';
+import { SchemaValidationError } from '@/utils/schema';
+import { TECHNOLOGY_CATEGORIES } from '@/utils/technologyCatalog';
+import { createCustomTechnology, getTechnologyCatalog } from '@/utils/technologies';
+
+// The technology catalog: built-in entries and internal ones added here
+export async function GET() {
+  try {
+    const technologies = await getTechnologyCatalog();
+    return NextResponse.json({ technologies, categories: TECHNOLOGY_CATEGORIES });
+  } catch (error) {
+    console.error('Error listing technologies:', error);
+    return NextResponse.json(
+      { error: 'Failed to read the technology catalog' },
+      { status: 500 }
+    );
+  }
+}
+
+// Adds an internal technology. Body: { name, description, id?, category?,
+// aliases?, versions?, monacoLanguage? }
+export async function POST(request: Request) {
+  const denied = requireAdmin(request);
+  if (denied) {
+    return denied;
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  try {
+    const technology = await createCustomTechnology(body);
+    return NextResponse.json(technology, { status: 201 });
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: 'Invalid technology', violations: error.violations },
+        { status: 400 }
+      );
+    }
+    console.error('Error creating technology:', error);
+    return NextResponse.json(
+      { error: 'Failed to create technology' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { SchemaValidationError } from '@/utils/schema';
+import { deleteTemplate, getTemplate, replaceTemplate } from '@/utils/templates';
+
+type Params = { params: { id: string } };
+
+export async function GET(request: Request, { params }: Params) {
+  const template = await getTemplate(params.id);
+  if (!template) {
+    return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+  }
+  return NextResponse.json(template);
+}
+
+export async function PUT(request: Request, { params }: Params) {
+  let body;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  try {
+    const template = await replaceTemplate(params.id, body);
+    if (!template) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+    }
+    return NextResponse.json(template);
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: 'Invalid template', violations: error.violations },
+        { status: 400 }
+      );
+    }
+    console.error('Error updating template:', error);
+    return NextResponse.json(
+      { error: 'Failed to update template' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: Request, { params }: Params) {
+  const deleted = await deleteTemplate(params.id);
+  if (!deleted) {
+    return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+  }
+  return NextResponse.json({ success: true });
+}
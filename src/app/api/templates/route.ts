@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { SchemaValidationError } from '@/utils/schema';
+import { createTemplate, listTemplates } from '@/utils/templates';
+
+export async function GET() {
+  try {
+    const templates = await listTemplates();
+    return NextResponse.json({ templates });
+  } catch (error) {
+    console.error('Error listing templates:', error);
+    return NextResponse.json(
+      { error: 'Failed to read interview templates' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  let body;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  try {
+    const template = await createTemplate(body);
+    return NextResponse.json(template, { status: 201 });
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: 'Invalid template', violations: error.violations },
+        { status: 400 }
+      );
+    }
+    console.error('Error creating template:', error);
+    return NextResponse.json(
+      { error: 'Failed to create template' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { getUsageReport } from '@/utils/llm';
+
+// Aggregate LLM usage across interviews. Query: organizationId, since (ISO
+// date or epoch milliseconds)
+export async function GET(request: Request) {
+  const searchParams = new URL(request.url).searchParams;
+  const sinceParam = searchParams.get('since');
+
+  let since: number | undefined;
+  if (sinceParam) {
+    since = /^\d+$/.test(sinceParam) ? Number(sinceParam) : Date.parse(sinceParam);
+    if (Number.isNaN(since)) {
+      return NextResponse.json(
+        { error: 'since must be an ISO date or epoch milliseconds' },
+        { status: 400 }
+      );
+    }
+  }
+
+  return NextResponse.json(getUsageReport({
+    organizationId: searchParams.get('organizationId') || undefined,
+    since,
+  }));
+}
@@ -5,6 +5,17 @@ import { useRouter, useSearchParams } from 'next/navigation'
 import dynamic from 'next/dynamic'
 import { motion, AnimatePresence } from 'framer-motion'
 import { type EditorProps } from '@monaco-editor/react'
+import {
+  AdaptiveSlot,
+  abilityTrajectory,
+  estimateAbility,
+  selectNextSlot,
+  toDifficultyLabel,
+} from '@/utils/adaptive'
+import { describeBlueprint, expandBlueprint, parseBlueprint } from '@/utils/blueprint'
+import { EditLog, EditRecording, finishEditLog, recordChanges, recordLanguageSwitch, startEditLog } from '@/utils/editLog'
+import { distributeTechnologies, parseTechnologyMix } from '@/utils/technologyMix'
+import { BUILTIN_TECHNOLOGIES, getMonacoLanguage, TechnologyEntry } from '@/utils/technologyCatalog'
 
 // Dynamically import Monaco editor with no SSR
 const MonacoEditor = dynamic(
@@ -35,6 +46,14 @@ interface Question {
     options?: { [key: string]: string };
     explanation?: string;
   };
+  // Coding questions with tests are also graded by running the answer. Only
+  // the example tests are sent; hidden ones stay on the server
+  functionName?: string;
+  tests?: { name?: string; args: unknown[]; expected: unknown }[];
+  hiddenTests?: number;
+  // The languages a coding question may be answered in, its own first
+  starters?: { language: string; signature?: string; template: string }[];
+  promptVersion?: string;
 }
 
 interface Analysis {
@@ -42,12 +61,136 @@ interface Analysis {
   feedback: string;
   coveredTopics: string[];
   missingTopics: string[];
+  criteria?: { id: string; name: string; weight: number; score: number; feedback?: string }[];
+  rubricItems?: { topic: string; points: number; maxPoints: number; verdict: 'pass' | 'partial' | 'fail'; comment?: string }[];
+  consensus?: {
+    method: 'median' | 'trimmed-mean';
+    samples: number;
+    scores: number[];
+    models: string[];
+    standardDeviation: number;
+    confidence: number;
+  };
+  needsReview?: boolean;
+  integrityFlags?: { kind: 'injection-pattern' | 'score-mismatch'; message: string; excerpt?: string }[];
+  promptVersion?: string;
+}
+
+interface QueueStatus {
+  message: string;
+  position?: number;
+  retryAfterSeconds: number;
+}
+
+// The server gives up on an LLM call well before this; it only guards
+// against requests that never settle
+const REQUEST_TIMEOUT_MS = 120000
+
+// Friendly messages for the error codes returned by the API routes
+const ERROR_MESSAGES: { [code: string]: string } = {
+  LLM_TIMEOUT: 'The interviewer took too long to respond.',
+  LLM_CIRCUIT_OPEN: 'The interviewer is temporarily unavailable after repeated failures.',
+  LLM_UPSTREAM_ERROR: 'The interviewer service returned an error.',
+  LLM_FALLBACKS_EXHAUSTED: 'All interviewer models are currently unavailable.',
+  INVALID_STRUCTURED_OUTPUT: 'The interviewer returned a malformed response.',
+  INTERVIEW_QUOTA_EXCEEDED: 'This interview has reached its question limit for now.',
+  ORGANIZATION_QUOTA_EXCEEDED: 'Your organisation has reached its interview limit for now.',
+  LLM_BUDGET_EXCEEDED: 'This interview has used up its budget, so no more questions can be generated.',
+}
+
+const describeApiError = (data: { error?: string; code?: string } | null, fallback: string) =>
+  (data?.code && ERROR_MESSAGES[data.code]) || data?.error || fallback
+
+// Pulls the (possibly still incomplete) question text out of streamed JSON
+const extractPartialQuestion = (raw: string): string | null => {
+  const match = raw.match(/"question"\s*:\s*"((?:[^"\\]|\\.)*)/)
+  if (!match) return null
+  // Drop a trailing escape sequence that hasn't fully arrived yet
+  const text = match[1].replace(/\\(u[0-9a-fA-F]{0,3})?$/, '')
+  try {
+    return JSON.parse(`"${text}"`)
+  } catch (error) {
+    return text
+  }
+}
+
+// The candidate's code run against a question's visible tests
+interface TestRun {
+  status: 'passed' | 'failed' | 'error' | 'timeout' | 'memory-limit';
+  passed: number;
+  total: number;
+  tests: { name: string; passed: boolean; actual?: unknown; error?: string; durationMs: number }[];
+  stdout: string;
+  stderr: string;
+  runtimeMs: number;
+  error?: string;
+}
+
+const LANGUAGE_NAMES: { [language: string]: string } = {
+  javascript: 'JavaScript',
+  typescript: 'TypeScript',
+  python: 'Python',
+}
+
+const starterTemplate = (question: Question, language: string) =>
+  question.starters?.find(starter => starter.language === language)?.template ?? ''
+
+// e.g. twoSum([2, 7], 9)
+const describeCall = (functionName: string | undefined, args: unknown[]) =>
+  `${functionName || 'solution'}(${args.map(arg => JSON.stringify(arg)).join(', ')})`
+
+// The error body of the question routes; a 429 adds where the request is queued
+interface QuestionError {
+  error: string;
+  code?: string;
+  queuePosition?: number;
+  retryAfterSeconds?: number;
+}
+
+interface StreamOutcome {
+  status: number;
+  data: Question | QuestionError;
+}
+
+const isQuestionError = (data: Question | QuestionError): data is QuestionError =>
+  typeof (data as QuestionError | null)?.error === 'string'
+
+// Interview ids are used for fair queueing and quotas on the server
+const createId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+
+// Persists across interviews so questions the candidate has seen recently aren't repeated
+const getCandidateId = () => {
+  let candidateId = localStorage.getItem('candidateId')
+  if (!candidateId) {
+    candidateId = createId()
+    localStorage.setItem('candidateId', candidateId)
+  }
+  return candidateId
+}
+
+// Follow-ups drill into an answer and are graded with it as context
+const MAX_FOLLOW_UPS = 3
+
+interface FollowUpAnswer {
+  question: Question;
+  answer: string;
+  analysis?: Analysis;
 }
 
 interface AnswerWithAnalysis {
   answer: string;
   analysis?: Analysis;
   question: Question;
+  // Which of a role's technologies the question was about
+  technology?: string;
+  // The editor language a coding answer was written in
+  language?: string;
+  // How a coding answer was typed, for replay on the results page
+  editLog?: EditLog;
+  followUps?: FollowUpAnswer[];
 }
 
 export default function Interview() {
@@ -59,11 +202,33 @@ export default function Interview() {
   const technology = searchParams.get('technology')?.trim()
   const difficulty = searchParams.get('difficulty')?.trim()
   const numQuestions = searchParams.get('numQuestions')?.trim()
-  const types = searchParams.get('types')?.split(',').map(t => t.trim()).filter(Boolean) || []
+  const blueprintParam = searchParams.get('blueprint')
+  const organizationId = searchParams.get('org')?.trim() || undefined
+  const prefetchAll = searchParams.get('prefetch') === 'all'
+  const templateId = searchParams.get('template')?.trim() || undefined
+  // ?mode=adaptive picks each question's type and difficulty from the scores so far
+  const adaptive = searchParams.get('mode') === 'adaptive'
+  // ?followUps=N asks up to N follow-ups on each written or coding answer
+  const followUpsPerQuestion = Math.min(Math.max(Math.floor(Number(searchParams.get('followUps'))) || 0, 0), MAX_FOLLOW_UPS)
+  const [interviewId] = useState(createId)
+  // ?blueprint=<JSON> plans every question's type, difficulty and topic;
+  // without one the ?types list is asked in rotation
+  const [blueprint] = useState(() => parseBlueprint(blueprintParam, Number(numQuestions) || undefined))
+  const [plan] = useState(() => blueprint && expandBlueprint(blueprint, Number(numQuestions) || undefined, interviewId))
+  const types = plan
+    ? Array.from(new Set(plan.map(planned => planned.questionType)))
+    : searchParams.get('types')?.split(',').map(t => t.trim()).filter(Boolean) || []
+  const blueprintSummary = blueprint ? describeBlueprint(blueprint, Number(numQuestions) || undefined) : undefined
+  // ?technologies=<JSON> shares the questions out between a role's technologies
+  const [technologyMix] = useState(() => parseTechnologyMix(searchParams.get('technologies')))
+  const [questionTechnologies] = useState(() =>
+    technologyMix && distributeTechnologies(technologyMix, plan ? plan.length : Number(numQuestions) || 5)
+  )
+  const getQuestionTechnology = (questionNumber: number) => questionTechnologies?.[questionNumber - 1] ?? technology
 
   // Validate required parameters
   useEffect(() => {
-    if (!name || !technology || !difficulty || !numQuestions || !types.length) {
+    if (!name || !technology || !difficulty || (!numQuestions && !plan) || !types.length) {
       console.error('Missing or invalid parameters:', {
         name,
         technology,
@@ -77,61 +242,155 @@ export default function Interview() {
 
     // Store interview details
     const interviewDetails = {
+      interviewId,
+      templateId,
       name,
       technology,
       difficulty,
       questionTypes: types,
+      blueprint: blueprintSummary,
+      technologies: technologyMix ?? undefined,
+      mode: adaptive ? 'adaptive' : 'fixed',
       timestamp: new Date().toISOString()
     }
     localStorage.setItem('interviewDetails', JSON.stringify(interviewDetails))
-  }, [name, technology, difficulty, numQuestions, types, router]);
+  }, [name, technology, difficulty, numQuestions, types, router, interviewId, templateId, adaptive, plan, blueprintSummary, technologyMix]);
 
   const initialLoadRef = useRef(false)
   const [currentQuestionNumber, setCurrentQuestionNumber] = useState(1)
   const [currentQuestion, setCurrentQuestion] = useState<Question | null>(null)
   const [answers, setAnswers] = useState<AnswerWithAnalysis[]>([])
+  // Analyses finish in the background, so updates go through a ref
+  const answersRef = useRef<AnswerWithAnalysis[]>([])
+  const analysisPromisesRef = useRef<Map<number, Promise<boolean>>>(new Map())
+  // Adaptive mode: the type and difficulty chosen for each question number
+  const adaptiveSlotsRef = useRef<Map<number, AdaptiveSlot>>(new Map())
+  // Adaptive slots prefetched before the answer ahead of them was graded
+  const predictedSlotsRef = useRef<Map<number, AdaptiveSlot>>(new Map())
+  // Keyed by "answerIndex.followUpIndex"
+  const followUpPromisesRef = useRef<Map<string, Promise<boolean>>>(new Map())
+  // The follow-up being asked, if any: which answer it is on and its number (from 1)
+  const [activeFollowUp, setActiveFollowUp] = useState<{ index: number; number: number } | null>(null)
   const [timeLeft, setTimeLeft] = useState(600) // 10 minutes in seconds
   const [answer, setAnswer] = useState('')
   const [loading, setLoading] = useState(false)
   const [analyzing, setAnalyzing] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [isGeneratingQuestion, setIsGeneratingQuestion] = useState(false)
-  const [editorLanguage, setEditorLanguage] = useState('javascript')
+  const [queueStatus, setQueueStatus] = useState<QueueStatus | null>(null)
+  const retryTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const pendingRequestsRef = useRef<Set<AbortController>>(new Set())
+  const [analysisError, setAnalysisError] = useState<string | null>(null)
+  const [streamingQuestion, setStreamingQuestion] = useState<string | null>(null)
+  // The language picked from the question's starters, if the candidate switched
+  const [chosenLanguage, setChosenLanguage] = useState<string | null>(null)
+  // What was written in each language the candidate switched away from
+  const [codeBuffers, setCodeBuffers] = useState<{ [language: string]: string }>({})
+  // Every edit to the current question's code, from when it was shown
+  const editRecordingRef = useRef<EditRecording | null>(null)
+  // Visible tests run from the editor before submitting
+  const [testRun, setTestRun] = useState<TestRun | null>(null)
+  const [runningTests, setRunningTests] = useState(false)
+  const [testRunError, setTestRunError] = useState<string | null>(null)
 
   useEffect(() => {
-    // Set editor language based on the technology
-    if (technology) {
-      const lang = technology.toLowerCase()
-      if (lang.includes('python')) {
-        setEditorLanguage('python')
-      } else if (lang.includes('java')) {
-        setEditorLanguage('java')
-      } else if (lang.includes('c#')) {
-        setEditorLanguage('csharp')
-      } else if (lang.includes('c++')) {
-        setEditorLanguage('cpp')
-      } else if (lang.includes('typescript')) {
-        setEditorLanguage('typescript')
-      } else if (lang.includes('php')) {
-        setEditorLanguage('php')
-      } else if (lang.includes('ruby')) {
-        setEditorLanguage('ruby')
-      } else if (lang.includes('swift')) {
-        setEditorLanguage('swift')
-      } else if (lang.includes('go')) {
-        setEditorLanguage('go')
-      } else if (lang.includes('rust')) {
-        setEditorLanguage('rust')
-      }
-      // Default is 'javascript'
+    setTestRun(null)
+    setTestRunError(null)
+    setChosenLanguage(null)
+    setCodeBuffers({})
+    // Coding questions open with the starter code in their own language
+    const starter = currentQuestion?.starters?.[0]
+    if (starter) {
+      setAnswer(starter.template)
     }
-  }, [technology])
+    editRecordingRef.current = currentQuestion ? startEditLog(starter?.template ?? '', starter?.language) : null
+  }, [currentQuestion])
+
+  // Role interviews change technology from question to question
+  const questionTechnology = getQuestionTechnology(currentQuestionNumber)
+
+  // Built-in entries until the full catalog, with internal technologies, loads
+  const [catalog, setCatalog] = useState<TechnologyEntry[]>(BUILTIN_TECHNOLOGIES)
+
+  useEffect(() => {
+    fetch('/api/technologies')
+      .then(response => (response.ok ? response.json() : Promise.reject(new Error(`Status ${response.status}`))))
+      .then(data => setCatalog(data.technologies ?? BUILTIN_TECHNOLOGIES))
+      .catch(error => console.warn('Loading the technology catalog failed:', error))
+  }, [])
+
+  // The question's own language, or for questions without starters the
+  // technology's catalog entry
+  const editorLanguage = chosenLanguage
+    ?? currentQuestion?.starters?.[0]?.language
+    ?? getMonacoLanguage(catalog, questionTechnology)
 
-  const TOTAL_QUESTIONS = Number(numQuestions) || 5;
+  // Keeps what was written in the current language and opens the other
+  // language's buffer, or its starter code the first time
+  const switchLanguage = (language: string) => {
+    if (!currentQuestion || language === editorLanguage) return
+    const buffers = { ...codeBuffers, [editorLanguage]: answer }
+    const code = buffers[language] ?? starterTemplate(currentQuestion, language)
+    setCodeBuffers(buffers)
+    setChosenLanguage(language)
+    setAnswer(code)
+    if (editRecordingRef.current) {
+      recordLanguageSwitch(editRecordingRef.current, language, code)
+    }
+    setTestRun(null)
+    setTestRunError(null)
+  }
+
+  // The coding answer's edit log, if anything was typed
+  const currentEditLog = () => {
+    const recording = editRecordingRef.current
+    if (!recording || recording.log.edits.length === 0) return undefined
+    const log = finishEditLog(recording)
+    return { ...log, language: log.language ?? editorLanguage }
+  }
+
+  const TOTAL_QUESTIONS = plan ? plan.length : Number(numQuestions) || 5;
   const MINUTES_PER_QUESTION = 2;
   const TOTAL_TIME_MINUTES = TOTAL_QUESTIONS * MINUTES_PER_QUESTION;
   const TOTAL_TIME_SECONDS = TOTAL_TIME_MINUTES * 60;
 
+  // Graded answers so far, with the type and difficulty they were asked at
+  const getAdaptiveResponses = () => answersRef.current.flatMap((item, index) => {
+    const slot = adaptiveSlotsRef.current.get(index + 1);
+    return item.analysis && slot ? [{ ...slot, score: item.analysis.score, questionNumber: index + 1 }] : [];
+  });
+
+  // Follow the blueprint, or rotate through question types at the chosen
+  // difficulty. In adaptive mode the difficulty (and, without a blueprint, the
+  // type) is chosen from the answers graded before the question is first asked.
+  const getQuestionSlot = (questionNumber: number) => {
+    const planned = plan?.[questionNumber - 1];
+    if (!adaptive) {
+      return {
+        questionNumber,
+        technology: getQuestionTechnology(questionNumber),
+        difficulty: planned?.difficulty ?? difficulty,
+        questionType: planned?.questionType ?? types[(questionNumber - 1) % types.length],
+        topic: planned?.topic,
+      };
+    }
+
+    let slot = adaptiveSlotsRef.current.get(questionNumber);
+    if (!slot) {
+      slot = chooseAdaptiveSlot(questionNumber);
+      adaptiveSlotsRef.current.set(questionNumber, slot);
+      console.log('Adaptive slot:', { questionNumber, ...slot, ability: estimateAbility(getAdaptiveResponses(), toDifficultyLabel(difficulty)) });
+    }
+    return { questionNumber, technology: getQuestionTechnology(questionNumber), ...slot, topic: planned?.topic };
+  };
+
+  const chooseAdaptiveSlot = (questionNumber: number): AdaptiveSlot => {
+    const planned = plan?.[questionNumber - 1];
+    const slot = selectNextSlot(getAdaptiveResponses(), planned ? [planned.questionType] : types, toDifficultyLabel(difficulty), questionNumber);
+    // A section with its own difficulty keeps it
+    return planned?.difficulty ? { ...slot, difficulty: toDifficultyLabel(planned.difficulty) } : slot;
+  };
+
   // Question generation effect
   useEffect(() => {
     // Skip if parameters are invalid
@@ -143,11 +402,106 @@ export default function Interview() {
 
     // Generate first question
     if (!currentQuestion && !isGeneratingQuestion) {
-      generateNextQuestion();
+      generateNextQuestion(currentQuestionNumber);
     }
   }, [name, technology, difficulty, types]);
 
-  const generateNextQuestion = async () => {
+  useEffect(() => {
+    const pendingRequests = pendingRequestsRef.current;
+    return () => {
+      if (retryTimeoutRef.current) {
+        clearTimeout(retryTimeoutRef.current);
+      }
+      // Cancel in-flight LLM calls when the candidate leaves the page
+      pendingRequests.forEach(controller => controller.abort());
+    };
+  }, []);
+
+  const fetchWithTimeout = async (url: string, init: RequestInit) => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    pendingRequestsRef.current.add(controller);
+
+    try {
+      return await fetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new Error(ERROR_MESSAGES.LLM_TIMEOUT);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      pendingRequestsRef.current.delete(controller);
+    }
+  };
+
+  // Generates a question over server-sent events, rendering the question text
+  // as it arrives. Resolves to null when streaming is unavailable so the
+  // caller can fall back to the regular endpoint.
+  const streamQuestion = async (requestBody: object): Promise<StreamOutcome | null> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    pendingRequestsRef.current.add(controller);
+
+    try {
+      const response = await fetch('/api/questions/stream', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(requestBody),
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body || !response.headers.get('Content-Type')?.includes('text/event-stream')) {
+        return null;
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let raw = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          return null;
+        }
+
+        buffer += decoder.decode(value, { stream: true });
+        const events = buffer.split('\n\n');
+        buffer = events.pop() ?? '';
+
+        for (const block of events) {
+          const event = block.match(/^event: (.*)$/m)?.[1];
+          const data = JSON.parse(block.match(/^data: (.*)$/m)?.[1] ?? 'null');
+
+          if (event === 'token') {
+            raw += data.text;
+            setStreamingQuestion(extractPartialQuestion(raw));
+          } else if (event === 'repair' || event === 'duplicate' || event === 'discard') {
+            raw = '';
+          } else if (event === 'question') {
+            return { status: 200, data };
+          } else if (event === 'error') {
+            return { status: data.status ?? 500, data };
+          }
+        }
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new Error(ERROR_MESSAGES.LLM_TIMEOUT);
+      }
+      console.warn('Streaming unavailable, falling back:', error);
+      return null;
+    } finally {
+      clearTimeout(timer);
+      pendingRequestsRef.current.delete(controller);
+      setStreamingQuestion(null);
+    }
+  };
+
+  const generateNextQuestion = async (questionNumber: number) => {
     if (!technology || !difficulty) {
       console.error('Missing required parameters for question generation');
       return;
@@ -163,34 +517,79 @@ export default function Interview() {
       setLoading(true);
       setError(null);
 
-      // Rotate through question types
-      const typeIndex = (currentQuestionNumber - 1) % types.length;
-      const questionType = types[typeIndex];
+      const slot = getQuestionSlot(questionNumber);
+      const { questionType } = slot;
+
+      // Grading the last answer moved this adaptive slot away from the one
+      // prefetched for it, so that question is discarded
+      const predicted = predictedSlotsRef.current.get(questionNumber);
+      predictedSlotsRef.current.delete(questionNumber);
+      if (predicted && (predicted.difficulty !== slot.difficulty || predicted.questionType !== slot.questionType)) {
+        await discardPrefetched([slot]);
+      }
       
       console.log('Generating question:', {
-        technology,
-        difficulty,
-        questionNumber: currentQuestionNumber,
+        technology: slot.technology,
+        difficulty: slot.difficulty,
+        questionNumber,
         questionType,
       });
 
-      const response = await fetch('/api/questions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          technology,
-          difficulty,
-          questionNumber: currentQuestionNumber,
-          questionType,
-        }),
-      });
+      const requestBody = {
+        technology: slot.technology,
+        difficulty: slot.difficulty,
+        questionNumber,
+        questionType,
+        topic: slot.topic,
+        interviewId,
+        organizationId,
+        candidateId: getCandidateId(),
+        templateId,
+      };
 
-      const data = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to fetch question');
+      let outcome = await streamQuestion(requestBody);
+      if (!outcome) {
+        const response = await fetchWithTimeout('/api/questions', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(requestBody),
+        });
+        outcome = { status: response.status, data: await response.json() };
+      }
+
+      const { status, data } = outcome;
+
+      if (isQuestionError(data)) {
+        // The server is queueing upstream calls: wait our turn and retry.
+        // Quota errors are not retried, they are shown like any other error.
+        if (status === 429 && (data.code === 'RATE_LIMITED' || data.code === 'UPSTREAM_RATE_LIMITED')) {
+          const retryAfterSeconds = data.retryAfterSeconds ?? 5;
+          setQueueStatus({
+            message: data.error,
+            position: data.queuePosition,
+            retryAfterSeconds,
+          });
+          retryTimeoutRef.current = setTimeout(() => {
+            retryTimeoutRef.current = null;
+            generateNextQuestion(questionNumber);
+          }, retryAfterSeconds * 1000);
+          return;
+        }
+
+        // Out of budget: end the interview with the answers given so far
+        if (data.code === 'LLM_BUDGET_EXCEEDED' && answersRef.current.length > 0) {
+          setLoading(false);
+          await finishInterview();
+          return;
+        }
+
+        throw new Error(describeApiError(data, 'Failed to fetch question'));
+      }
+
+      if (status >= 400) {
+        throw new Error('Failed to fetch question');
       }
 
       if (!data || !data.question) {
@@ -198,17 +597,60 @@ export default function Interview() {
       }
 
       setCurrentQuestion(data);
+      setQueueStatus(null);
       setError(null);
+      setLoading(false);
+      prefetchUpcoming(questionNumber);
     } catch (error) {
       console.error('Error generating question:', error);
       setError(error instanceof Error ? error.message : 'Failed to generate question');
+      setQueueStatus(null);
       setCurrentQuestion(null);
-    } finally {
       setLoading(false);
+    } finally {
       setIsGeneratingQuestion(false);
     }
   };
 
+  // Has the server generate upcoming questions while this one is answered.
+  // With ?prefetch=all the rest of the interview is prefetched, not just the next question.
+  // Adaptive interviews prefetch the next question as the answers graded so
+  // far would pick it; generateNextQuestion discards it if this answer's score
+  // changes that.
+  const prefetchUpcoming = (questionNumber: number) => {
+    const lastQuestion = prefetchAll && !adaptive ? TOTAL_QUESTIONS : Math.min(questionNumber + 1, TOTAL_QUESTIONS);
+    const slots = [];
+    for (let n = questionNumber + 1; n <= lastQuestion; n++) {
+      if (adaptive) {
+        const predicted = chooseAdaptiveSlot(n);
+        predictedSlotsRef.current.set(n, predicted);
+        slots.push({ questionNumber: n, technology: getQuestionTechnology(n), ...predicted, topic: plan?.[n - 1]?.topic });
+      } else {
+        slots.push(getQuestionSlot(n));
+      }
+    }
+    if (slots.length === 0) return;
+
+    fetch(`/api/interviews/${interviewId}/prefetch`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ slots, organizationId, candidateId: getCandidateId(), templateId }),
+    }).catch(error => console.warn('Prefetching questions failed:', error));
+  };
+
+  // Drops prefetched questions other than the given slots, so they aren't
+  // counted as asked
+  const discardPrefetched = (plannedSlots: ReturnType<typeof getQuestionSlot>[]) =>
+    fetch(`/api/interviews/${interviewId}/prefetch`, {
+      method: 'DELETE',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ slots: plannedSlots }),
+    }).catch(error => console.warn('Discarding prefetched questions failed:', error));
+
   useEffect(() => {
     const timer = setInterval(() => {
       setTimeLeft((prev) => {
@@ -216,7 +658,7 @@ export default function Interview() {
           clearInterval(timer)
           // Store the current answer before redirecting
           if (answer && currentQuestion) {
-            const newAnswers = [...answers, { answer, question: currentQuestion }];
+            const newAnswers = [...answers, { answer, question: currentQuestion, language: editorLanguage, editLog: currentEditLog() }];
             localStorage.setItem('interviewAnswers', JSON.stringify(newAnswers));
           }
           router.push('/results')
@@ -227,11 +669,17 @@ export default function Interview() {
     }, 1000)
 
     return () => clearInterval(timer)
-  }, [router, answers, answer, currentQuestion])
+  }, [router, answers, answer, currentQuestion, editorLanguage])
 
-  const analyzeAnswer = async (question: Question, answerText: string) => {
+  const analyzeAnswer = async (
+    question: Question,
+    answerText: string,
+    questionType: string,
+    questionNumber: number,
+    parent?: { question: string; response: string },
+    language?: string
+  ) => {
     try {
-      const questionType = types[(currentQuestionNumber - 1) % types.length];
       console.log('Analyzing answer:', {
         questionType,
         answerLength: answerText.length,
@@ -239,7 +687,7 @@ export default function Interview() {
         hasCorrectOption: questionType === 'mcq' ? question.modelAnswer.correctOption : undefined
       });
 
-      const response = await fetch('/api/analyze', {
+      const response = await fetchWithTimeout('/api/analyze', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -249,8 +697,14 @@ export default function Interview() {
           response: answerText,
           expectedTopics: question.expectedTopics,
           questionType,
+          questionNumber,
+          parent,
+          interviewId,
+          organizationId,
+          templateId,
           correctOption: questionType === 'mcq' ? question.modelAnswer.correctOption : undefined,
-          explanation: questionType === 'mcq' ? question.modelAnswer.explanation : undefined
+          explanation: questionType === 'mcq' ? question.modelAnswer.explanation : undefined,
+          language: questionType === 'coding' ? language : undefined
         }),
       });
 
@@ -261,7 +715,7 @@ export default function Interview() {
           statusText: response.statusText,
           errorData
         });
-        throw new Error(`Failed to analyze answer: ${response.status} ${response.statusText}`);
+        throw new Error(describeApiError(errorData, `Failed to analyze answer: ${response.status} ${response.statusText}`));
       }
 
       const analysis = await response.json();
@@ -286,55 +740,328 @@ export default function Interview() {
     }
   };
 
-  const handleNext = async () => {
-    if (!currentQuestion || analyzing || isGeneratingQuestion) return;
-    
+  const updateAnswers = (update: (current: AnswerWithAnalysis[]) => AnswerWithAnalysis[]) => {
+    answersRef.current = update(answersRef.current);
+    setAnswers(answersRef.current);
+  };
+
+  // Analyses a recorded answer without blocking the interview. Resolves to
+  // false on failure so the answer can be retried when the interview ends.
+  const startAnalysis = (index: number) => {
+    const recorded = answersRef.current[index];
+    const promise = analyzeAnswer(recorded.question, recorded.answer, getQuestionSlot(index + 1).questionType, index + 1, undefined, recorded.language)
+      .then(analysis => {
+        updateAnswers(current => current.map((item, i) => (
+          i === index && item.answer === recorded.answer ? { ...item, analysis } : item
+        )));
+        return true;
+      }, error => {
+        console.error(`Analysis of answer ${index + 1} failed:`, error);
+        return false;
+      });
+
+    analysisPromisesRef.current.set(index, promise);
+    return promise;
+  };
+
+  const startFollowUpAnalysis = (index: number, followUpIndex: number) => {
+    const parent = answersRef.current[index];
+    const recorded = parent.followUps![followUpIndex];
+    const promise = analyzeAnswer(recorded.question, recorded.answer, 'subjective', index + 1, {
+      question: parent.question.question,
+      response: parent.answer,
+    })
+      .then(analysis => {
+        updateAnswers(current => current.map((item, i) => (
+          i === index
+            ? { ...item, followUps: item.followUps?.map((followUp, j) => (
+                j === followUpIndex && followUp.answer === recorded.answer ? { ...followUp, analysis } : followUp
+              )) }
+            : item
+        )));
+        return true;
+      }, error => {
+        console.error(`Analysis of follow-up ${followUpIndex + 1} to answer ${index + 1} failed:`, error);
+        return false;
+      });
+
+    followUpPromisesRef.current.set(`${index}.${followUpIndex}`, promise);
+    return promise;
+  };
+
+  const finishInterview = async () => {
     setAnalyzing(true);
-    
+    setAnalysisError(null);
+    // An interview that ends early leaves questions it never asked
+    discardPrefetched([]);
+
     try {
-      const analysis = await analyzeAnswer(currentQuestion, answer);
-      const newAnswer: AnswerWithAnalysis = {
-        answer,
-        analysis,
-        question: currentQuestion,
-      };
-      
-      const newAnswers = [...answers, newAnswer];
-      setAnswers(newAnswers);
-      setAnswer('');
+      // Wait for the remaining analyses, retrying failed ones once
+      const settle = (pending: Promise<boolean> | undefined, start: () => Promise<boolean>) =>
+        (pending ?? start()).then(succeeded => succeeded || start());
+      const results = await Promise.all(answersRef.current.flatMap((item, index) => [
+        item.analysis ? true : settle(analysisPromisesRef.current.get(index), () => startAnalysis(index)),
+        ...(item.followUps ?? []).map((followUp, followUpIndex) => (
+          followUp.analysis
+            ? true
+            : settle(followUpPromisesRef.current.get(`${index}.${followUpIndex}`), () => startFollowUpAnalysis(index, followUpIndex))
+        )),
+      ]));
 
-      if (currentQuestionNumber === TOTAL_QUESTIONS) {
-        // Store answers and interview details
-        localStorage.setItem('interviewAnswers', JSON.stringify(newAnswers));
-        localStorage.setItem('interviewDetails', JSON.stringify({
-          name,
-          technology,
-          difficulty,
-          timestamp: new Date().toISOString()
-        }));
-        router.push('/results');
-      } else {
-        setCurrentQuestionNumber(prev => prev + 1);
-        setCurrentQuestion(null);
-        generateNextQuestion();
+      if (results.some(succeeded => !succeeded)) {
+        setAnalysisError('Some answers could not be analyzed.');
+        return;
       }
+
+      // Store answers and interview details
+      localStorage.setItem('interviewAnswers', JSON.stringify(answersRef.current));
+      localStorage.setItem('interviewDetails', JSON.stringify({
+        interviewId,
+        templateId,
+        name,
+        technology,
+        difficulty,
+        blueprint: blueprintSummary,
+        technologies: technologyMix ?? undefined,
+        mode: adaptive ? 'adaptive' : 'fixed',
+        adaptive: adaptive ? {
+          ability: estimateAbility(getAdaptiveResponses(), toDifficultyLabel(difficulty)),
+          trajectory: abilityTrajectory(getAdaptiveResponses(), toDifficultyLabel(difficulty)),
+        } : undefined,
+        timestamp: new Date().toISOString()
+      }));
+      router.push('/results');
     } catch (error) {
-      console.error('Error in handleNext:', error);
+      console.error('Error finishing interview:', error);
+      setAnalysisError(error instanceof Error ? error.message : 'Failed to analyze answers');
     } finally {
       setAnalyzing(false);
     }
   };
 
+  // Moves on once answer `index` and its follow-ups are done
+  const advance = async (index: number) => {
+    if (index + 1 === TOTAL_QUESTIONS) {
+      await finishInterview();
+      return;
+    }
+
+    setAnswer('');
+    setActiveFollowUp(null);
+    setCurrentQuestionNumber(index + 2);
+    setCurrentQuestion(null);
+
+    // The next adaptive question depends on this answer's score. A failed
+    // analysis leaves it out of the estimate; it is retried when the interview ends.
+    if (adaptive) {
+      setLoading(true);
+      await analysisPromisesRef.current.get(index);
+    }
+    generateNextQuestion(index + 2);
+  };
+
+  // Asks the next follow-up on answer `index` once it has been graded.
+  // Resolves to false when there is none to ask, so the interview moves on;
+  // a follow-up that can't be generated is skipped rather than shown as an error.
+  const askFollowUp = async (index: number): Promise<boolean> => {
+    const asked = answersRef.current[index].followUps ?? [];
+    if (asked.length >= followUpsPerQuestion) return false;
+
+    setAnalyzing(true);
+    try {
+      await analysisPromisesRef.current.get(index);
+      const recorded = answersRef.current[index];
+      if (!recorded.analysis) return false;
+
+      const response = await fetchWithTimeout('/api/questions/followup', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          technology: recorded.technology ?? technology,
+          difficulty: getQuestionSlot(index + 1).difficulty,
+          questionNumber: index + 1,
+          question: recorded.question.question,
+          response: recorded.answer,
+          analysis: { coveredTopics: recorded.analysis.coveredTopics, missingTopics: recorded.analysis.missingTopics },
+          previousFollowUps: asked.map(followUp => followUp.question.question),
+          interviewId,
+          organizationId,
+          templateId,
+        }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok || !data?.question) {
+        throw new Error(describeApiError(data, `Failed to fetch follow-up question: ${response.status}`));
+      }
+
+      setAnswer('');
+      setActiveFollowUp({ index, number: asked.length + 1 });
+      setCurrentQuestion(data);
+      return true;
+    } catch (error) {
+      console.warn('Skipping follow-up questions:', error);
+      return false;
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
+  const handleNext = async () => {
+    if (!currentQuestion || analyzing || isGeneratingQuestion) return;
+
+    if (activeFollowUp) {
+      // Record the follow-up's answer and grade it in the context of the original
+      const { index, number } = activeFollowUp;
+      const recordedFollowUp = answersRef.current[index].followUps?.[number - 1];
+      if (!recordedFollowUp || recordedFollowUp.answer !== answer) {
+        updateAnswers(current => current.map((item, i) => (
+          i === index
+            ? { ...item, followUps: [...(item.followUps ?? []).slice(0, number - 1), { question: currentQuestion, answer }] }
+            : item
+        )));
+        startFollowUpAnalysis(index, number - 1);
+      }
+
+      if (!(await askFollowUp(index))) {
+        await advance(index);
+      }
+      return;
+    }
+
+    // Record the answer (or replace it if finishing failed and it was edited)
+    // and analyse it while the candidate moves on
+    const index = currentQuestionNumber - 1;
+    const recorded = answersRef.current[index];
+    if (!recorded || recorded.answer !== answer) {
+      updateAnswers(current => [
+        ...current.slice(0, index),
+        {
+          answer,
+          question: currentQuestion,
+          technology: getQuestionTechnology(currentQuestionNumber),
+          language: editorLanguage,
+          editLog: currentEditLog(),
+        },
+      ]);
+      startAnalysis(index);
+    }
+
+    // Written and coding answers may be probed before moving on
+    if (getQuestionSlot(currentQuestionNumber).questionType !== 'mcq' && await askFollowUp(index)) {
+      return;
+    }
+    await advance(index);
+  };
+
   const formatTime = (timeInSeconds: number) => {
     const minutes = Math.floor(timeInSeconds / 60);
     const seconds = timeInSeconds % 60;
     return `${minutes}:${seconds.toString().padStart(2, '0')}`;
   };
 
+  const runVisibleTests = async () => {
+    setRunningTests(true)
+    setTestRunError(null)
+    try {
+      const response = await fetchWithTimeout('/api/execute', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          code: answer,
+          language: editorLanguage,
+          interviewId,
+          questionNumber: currentQuestionNumber,
+        }),
+      })
+      const data = await response.json().catch(() => null)
+      if (!response.ok) {
+        throw new Error(describeApiError(data, `Could not run the tests: ${response.status} ${response.statusText}`))
+      }
+      setTestRun(data)
+    } catch (error) {
+      console.error('Running tests failed:', error)
+      setTestRunError(error instanceof Error ? error.message : 'Could not run the tests')
+    } finally {
+      setRunningTests(false)
+    }
+  }
+
+  const renderTestPanel = (question: Question) => {
+    const tests = question.tests ?? []
+    const hiddenCount = question.hiddenTests ?? 0
+    if (tests.length === 0 || !question.functionName) {
+      return null
+    }
+
+    return (
+      <div className="mt-4 border border-gray-200 rounded-lg">
+        <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 bg-gray-50">
+          <span className="text-sm font-medium text-gray-700">
+            Example tests{testRun && ` \u00b7 ${testRun.passed} / ${testRun.total} passed`}
+          </span>
+          <button
+            type="button"
+            onClick={runVisibleTests}
+            disabled={runningTests || !answer.trim()}
+            className="px-3 py-1 text-sm bg-gray-800 text-white rounded-md hover:bg-gray-900 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {runningTests ? 'Running...' : 'Run tests'}
+          </button>
+        </div>
+        <ul className="divide-y divide-gray-100">
+          {tests.map((test, index) => {
+            const result = testRun?.tests[index]
+            return (
+              <li key={index} className="px-4 py-2 text-sm">
+                <div className="flex items-start justify-between gap-3">
+                  <code className="text-xs text-gray-700 break-all">
+                    {describeCall(question.functionName, test.args)} &rarr; {JSON.stringify(test.expected)}
+                  </code>
+                  {result && (
+                    <span className={`shrink-0 px-2 py-0.5 rounded-full text-xs font-medium ${
+                      result.passed ? 'bg-green-50 text-green-700 border border-green-200' : 'bg-red-50 text-red-700 border border-red-200'
+                    }`}>
+                      {result.passed ? 'pass' : 'fail'}
+                    </span>
+                  )}
+                </div>
+                {result && !result.passed && (
+                  <p className="mt-1 text-xs text-red-600 font-mono break-all">
+                    {result.error ?? `Got ${JSON.stringify(result.actual)}`}
+                  </p>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+        {testRun?.error && (
+          <p className="px-4 py-2 border-t border-gray-200 text-xs text-red-600 font-mono whitespace-pre-wrap">{testRun.error}</p>
+        )}
+        {testRun && (testRun.stdout || testRun.stderr) && (
+          <pre className="px-4 py-2 border-t border-gray-200 bg-gray-900 text-gray-100 text-xs overflow-auto max-h-40 rounded-b-lg">
+            {testRun.stdout}
+            {testRun.stderr && <span className="text-red-300">{testRun.stderr}</span>}
+          </pre>
+        )}
+        {testRunError && (
+          <p className="px-4 py-2 border-t border-gray-200 text-sm text-red-600">{testRunError}</p>
+        )}
+        {hiddenCount > 0 && (
+          <p className="px-4 py-2 border-t border-gray-200 text-xs text-gray-500">
+            Your answer will also be checked against {hiddenCount} hidden test{hiddenCount !== 1 ? 's' : ''} when you submit.
+          </p>
+        )}
+      </div>
+    )
+  }
+
   const renderAnswerInput = () => {
     if (!currentQuestion) return null;
 
-    const questionType = types[(currentQuestionNumber - 1) % types.length];
+    // Follow-ups are always answered in writing
+    const questionType = activeFollowUp ? 'subjective' : getQuestionSlot(currentQuestionNumber).questionType;
 
     if (questionType === 'mcq') {
       const options = currentQuestion.modelAnswer.options || {};
@@ -361,28 +1088,59 @@ export default function Interview() {
     }
 
     if (questionType === 'coding') {
+      const starters = currentQuestion.starters ?? []
+      const signature = starters.find(starter => starter.language === editorLanguage)?.signature
       return (
-        <div className="w-full h-[400px] border border-gray-300 rounded-lg">
-          <MonacoEditor
-            height="400px"
-            defaultLanguage={editorLanguage}
-            language={editorLanguage}
-            value={answer}
-            onChange={(value) => setAnswer(value || '')}
-            theme="vs-dark"
-            loading={<EditorLoading />}
-            options={{
-              minimap: { enabled: false },
-              fontSize: 14,
-              lineNumbers: 'on',
-              roundedSelection: true,
-              scrollBeyondLastLine: false,
-              automaticLayout: true,
-              wordWrap: 'on'
-            }}
-            className="border-none"
-          />
-        </div>
+        <>
+          {(starters.length > 1 || signature) && (
+            <div className="flex items-center justify-between gap-3 mb-2">
+              {signature ? (
+                <code className="text-xs text-gray-600 break-all">{signature}</code>
+              ) : <span />}
+              {starters.length > 1 && (
+                <select
+                  value={editorLanguage}
+                  onChange={(e) => switchLanguage(e.target.value)}
+                  aria-label="Answer language"
+                  className="shrink-0 px-2 py-1 text-sm border border-gray-300 rounded-md bg-white focus:ring-2 focus:ring-indigo-500"
+                >
+                  {starters.map(starter => (
+                    <option key={starter.language} value={starter.language}>
+                      {LANGUAGE_NAMES[starter.language] ?? starter.language}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+          )}
+          <div className="w-full h-[400px] border border-gray-300 rounded-lg">
+            <MonacoEditor
+              height="400px"
+              defaultLanguage={editorLanguage}
+              language={editorLanguage}
+              value={answer}
+              onChange={(value, event) => {
+                setAnswer(value || '')
+                if (editRecordingRef.current) {
+                  recordChanges(editRecordingRef.current, event.changes)
+                }
+              }}
+              theme="vs-dark"
+              loading={<EditorLoading />}
+              options={{
+                minimap: { enabled: false },
+                fontSize: 14,
+                lineNumbers: 'on',
+                roundedSelection: true,
+                scrollBeyondLastLine: false,
+                automaticLayout: true,
+                wordWrap: 'on'
+              }}
+              className="border-none"
+            />
+          </div>
+          {renderTestPanel(currentQuestion)}
+        </>
       );
     }
 
@@ -399,11 +1157,24 @@ export default function Interview() {
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-indigo-100 via-purple-50 to-pink-100 flex items-center justify-center">
-        <div className="bg-white p-8 rounded-lg shadow-xl">
+        <div className="bg-white p-8 rounded-lg shadow-xl max-w-2xl">
+          {streamingQuestion && (
+            <h3 className="text-xl font-semibold mb-6 whitespace-pre-wrap">
+              {streamingQuestion}
+            </h3>
+          )}
           <div className="flex items-center space-x-4">
             <div className="w-6 h-6 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin"></div>
             <p className="text-lg font-medium text-gray-700">Loading your next question...</p>
           </div>
+          {queueStatus && (
+            <p className="mt-4 text-sm text-gray-600">
+              {queueStatus.position
+                ? `High demand right now: you are number ${queueStatus.position} in the queue.`
+                : queueStatus.message}
+              {' '}Retrying in {queueStatus.retryAfterSeconds}s...
+            </p>
+          )}
         </div>
       </div>
     )
@@ -415,12 +1186,20 @@ export default function Interview() {
         <div className="bg-white p-8 rounded-lg shadow-xl">
           <h2 className="text-xl font-bold text-red-600 mb-4">Error</h2>
           <p className="text-gray-700 mb-4">{error}</p>
-          <button
-            onClick={() => router.push('/')}
-            className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-          >
-            Return Home
-          </button>
+          <div className="flex gap-3">
+            <button
+              onClick={() => generateNextQuestion(currentQuestionNumber)}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              Try Again
+            </button>
+            <button
+              onClick={() => router.push('/')}
+              className="px-4 py-2 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              Return Home
+            </button>
+          </div>
         </div>
       </div>
     )
@@ -463,18 +1242,25 @@ export default function Interview() {
               </div>
               <p className="text-sm text-gray-600 mt-2">
                 Question {currentQuestionNumber} of {TOTAL_QUESTIONS}
+                {plan?.[currentQuestionNumber - 1] && ` \u00b7 ${plan[currentQuestionNumber - 1].section}`}
+                {technologyMix && ` \u00b7 ${questionTechnology}`}
               </p>
             </div>
 
             <AnimatePresence mode="wait">
               <motion.div
-                key={currentQuestionNumber}
+                key={`${currentQuestionNumber}.${activeFollowUp?.number ?? 0}`}
                 initial={{ opacity: 0, x: 20 }}
                 animate={{ opacity: 1, x: 0 }}
                 exit={{ opacity: 0, x: -20 }}
                 className="mb-6"
               >
                 <div className="mb-6">
+                  {activeFollowUp && (
+                    <p className="text-sm font-medium text-indigo-600 mb-2">
+                      Follow-up {activeFollowUp.number} on question {activeFollowUp.index + 1}
+                    </p>
+                  )}
                   <h3 className="text-xl font-semibold mb-4">
                     {currentQuestion.question}
                   </h3>
@@ -499,12 +1285,18 @@ export default function Interview() {
               </motion.div>
             </AnimatePresence>
 
+            {analysisError && (
+              <p className="mb-3 text-sm text-red-600">
+                {analysisError} Your answer has been kept, please try again.
+              </p>
+            )}
+
             <motion.button
               whileHover={{ scale: 1.02 }}
               whileTap={{ scale: 0.98 }}
               className={`w-full py-3 px-4 bg-indigo-600 text-white rounded-md font-medium hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center`}
               onClick={handleNext}
-              disabled={analyzing || !answer.trim()}
+              disabled={analyzing || !answer.trim() || answer === starterTemplate(currentQuestion, editorLanguage)}
             >
               {analyzing ? (
                 <>
@@ -512,7 +1304,9 @@ export default function Interview() {
                   Analyzing Response...
                 </>
               ) : (
-                currentQuestionNumber === TOTAL_QUESTIONS ? 'Finish Interview' : 'Next Question'
+                currentQuestionNumber === TOTAL_QUESTIONS && (followUpsPerQuestion === 0 || activeFollowUp?.number === followUpsPerQuestion)
+                  ? 'Finish Interview'
+                  : 'Next Question'
               )}
             </motion.button>
           </motion.div>
@@ -1,45 +1,317 @@
 'use client'
 
 import { motion } from 'framer-motion'
-import { useState, Fragment } from 'react'
+import { useEffect, useState, Fragment } from 'react'
 import { useRouter } from 'next/navigation'
 import { UserIcon, CodeBracketIcon, AdjustmentsHorizontalIcon, HashtagIcon, QuestionMarkCircleIcon, CheckIcon, PlayCircleIcon, LinkIcon } from '@heroicons/react/24/outline'
 import { Combobox, Transition } from '@headlessui/react'
-import { ArrowRightIcon, ShareIcon } from '@heroicons/react/24/outline'
+import { ArrowRightIcon, ShareIcon, PlusIcon, XMarkIcon } from '@heroicons/react/24/outline'
+import { Blueprint, BlueprintOrder, BlueprintSection, blueprintLength, checkBlueprint, describeBlueprint } from '@/utils/blueprint'
+import { checkTechnologyMix, describeTechnologyMix, TechnologyWeight } from '@/utils/technologyMix'
+import { InterviewPlan } from '@/utils/interviewPlan'
+import { extractPdfText, PdfTextError } from '@/utils/pdfText'
+import { BUILTIN_TECHNOLOGIES, findTechnology, TechnologyEntry, technologyKey, technologyLabel } from '@/utils/technologyCatalog'
 
 const difficultyLevels = ['Easy', 'Medium', 'Hard']
-const technologies = [
-  // Programming Languages
-  'JavaScript', 'Python', 'Java', 'C++', 'C#', 'Ruby', 'PHP', 'Swift', 'Go', 'Rust',
-  'TypeScript', 'Kotlin', 'Scala', 'R', 'MATLAB', 'Perl', 'Haskell', 'Lua',
-  
-  // Web Development
-  'React', 'Angular', 'Vue.js', 'Node.js', 'Express.js', 'Django', 'Flask',
-  'Spring Boot', 'Laravel', 'ASP.NET', 'Ruby on Rails', 'Next.js', 'Nuxt.js',
-  'Svelte', 'GraphQL', 'REST API', 'HTML', 'CSS', 'Sass', 'jQuery',
-  
-  // Mobile Development
-  'React Native', 'Flutter', 'iOS', 'Android', 'Xamarin', 'Ionic',
-  
-  // Database
-  'SQL', 'MySQL', 'PostgreSQL', 'MongoDB', 'Redis', 'Oracle', 'SQLite',
-  'Microsoft SQL Server', 'Firebase', 'Cassandra', 'DynamoDB',
-  
-  // Cloud & DevOps
-  'AWS', 'Azure', 'Google Cloud', 'Docker', 'Kubernetes', 'Jenkins',
-  'GitLab CI/CD', 'Terraform', 'Ansible', 'Linux', 'Nginx',
-  
-  // Data Science & AI
-  'Machine Learning', 'Deep Learning', 'TensorFlow', 'PyTorch', 'Pandas',
-  'NumPy', 'scikit-learn', 'Data Analysis', 'Natural Language Processing',
-  'Computer Vision', 'Big Data', 'Apache Spark',
-  
-  // Testing
-  'Jest', 'Mocha', 'Selenium', 'JUnit', 'pytest', 'Cypress',
-  
-  // Other
-  'Blockchain', 'WebAssembly', 'Unity', 'Unreal Engine', 'Electron'
-].sort()
+
+// Blueprint sections as edited: amounts and topics stay text until submitted
+interface SectionDraft {
+  name: string;
+  questionType: BlueprintSection['questionType'];
+  amount: string;
+  unit: 'count' | 'percentage';
+  difficulty: string;
+  topics: string;
+}
+
+interface BlueprintDraft {
+  sections: SectionDraft[];
+  order: BlueprintOrder;
+  topics: string;
+}
+
+const splitTopics = (text: string) => text.split(',').map(topic => topic.trim()).filter(Boolean)
+
+const toBlueprint = (draft: BlueprintDraft): Blueprint => ({
+  sections: draft.sections.map(section => ({
+    name: section.name.trim() || undefined,
+    questionType: section.questionType,
+    [section.unit]: Number(section.amount),
+    difficulty: section.difficulty || undefined,
+    topics: splitTopics(section.topics).length > 0 ? splitTopics(section.topics) : undefined,
+  })),
+  order: draft.order,
+  topics: splitTopics(draft.topics).length > 0 ? splitTopics(draft.topics) : undefined,
+})
+
+// The editor's view of a blueprint, e.g. one proposed from a job description
+const toBlueprintDraft = (blueprint: Blueprint): BlueprintDraft => ({
+  sections: blueprint.sections.map(section => ({
+    name: section.name ?? '',
+    questionType: section.questionType,
+    amount: String(section.count ?? section.percentage ?? ''),
+    unit: section.count === undefined ? 'percentage' : 'count',
+    difficulty: section.difficulty ?? '',
+    topics: (section.topics ?? []).join(', '),
+  })),
+  order: blueprint.order ?? 'sequential',
+  topics: (blueprint.topics ?? []).join(', '),
+})
+
+const newSection = (questionType: SectionDraft['questionType'], amount: string, name = '', difficulty = '', unit: SectionDraft['unit'] = 'count'): SectionDraft =>
+  ({ name, questionType, amount, unit, difficulty, topics: '' })
+
+const BLUEPRINT_PRESETS: { label: string; draft: BlueprintDraft }[] = [
+  {
+    label: 'Warm-up, coding, design',
+    draft: {
+      sections: [
+        newSection('mcq', '2', 'Warm-up', 'Easy'),
+        newSection('coding', '2', 'Coding'),
+        newSection('subjective', '1', 'Design', 'Hard'),
+      ],
+      order: 'sequential',
+      topics: '',
+    },
+  },
+  {
+    label: 'Balanced mix',
+    draft: {
+      sections: [
+        newSection('subjective', '40', 'Concepts', '', 'percentage'),
+        newSection('coding', '40', 'Coding', '', 'percentage'),
+        newSection('mcq', '20', 'Quick checks', '', 'percentage'),
+      ],
+      order: 'interleaved',
+      topics: '',
+    },
+  },
+]
+
+const QUESTION_TYPE_LABELS: { [type in SectionDraft['questionType']]: string } = {
+  mcq: 'Multiple choice',
+  coding: 'Coding',
+  subjective: 'Subjective',
+}
+
+// Builds interview blueprints section by section
+const BlueprintEditor = ({ draft, onChange, numQuestions }: {
+  draft: BlueprintDraft;
+  onChange: (draft: BlueprintDraft) => void;
+  numQuestions?: number;
+}) => {
+  const blueprint = toBlueprint(draft)
+  const problems = checkBlueprint(blueprint, numQuestions)
+  const updateSection = (index: number, update: Partial<SectionDraft>) =>
+    onChange({ ...draft, sections: draft.sections.map((section, i) => (i === index ? { ...section, ...update } : section)) })
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent'
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-gray-600">Start from:</span>
+        {BLUEPRINT_PRESETS.map(preset => (
+          <button
+            key={preset.label}
+            type="button"
+            onClick={() => onChange(preset.draft)}
+            className="px-3 py-1 border border-indigo-200 text-indigo-700 rounded-full hover:bg-indigo-50"
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      {draft.sections.map((section, index) => (
+        <div key={index} className="grid grid-cols-2 md:grid-cols-12 gap-2 items-center">
+          <input
+            className={`${inputClass} col-span-2 md:col-span-2`}
+            value={section.name}
+            placeholder={`Section ${index + 1}`}
+            onChange={(e) => updateSection(index, { name: e.target.value })}
+          />
+          <select
+            className={`${inputClass} md:col-span-2`}
+            value={section.questionType}
+            onChange={(e) => updateSection(index, { questionType: e.target.value as SectionDraft['questionType'] })}
+          >
+            {Object.entries(QUESTION_TYPE_LABELS).map(([type, label]) => (
+              <option key={type} value={type}>{label}</option>
+            ))}
+          </select>
+          <div className="flex gap-1 md:col-span-3">
+            <input
+              type="number"
+              min="1"
+              className={`${inputClass} w-20`}
+              value={section.amount}
+              onChange={(e) => updateSection(index, { amount: e.target.value })}
+            />
+            <select
+              className={`${inputClass} flex-1`}
+              value={section.unit}
+              onChange={(e) => updateSection(index, { unit: e.target.value as SectionDraft['unit'] })}
+            >
+              <option value="count">questions</option>
+              <option value="percentage">% of total</option>
+            </select>
+          </div>
+          <select
+            className={`${inputClass} md:col-span-2`}
+            value={section.difficulty}
+            onChange={(e) => updateSection(index, { difficulty: e.target.value })}
+          >
+            <option value="">Interview level</option>
+            {difficultyLevels.map(level => (
+              <option key={level} value={level}>{level}</option>
+            ))}
+          </select>
+          <input
+            className={`${inputClass} md:col-span-2`}
+            value={section.topics}
+            placeholder="Topics, comma separated"
+            onChange={(e) => updateSection(index, { topics: e.target.value })}
+          />
+          <button
+            type="button"
+            aria-label={`Remove section ${index + 1}`}
+            disabled={draft.sections.length === 1}
+            onClick={() => onChange({ ...draft, sections: draft.sections.filter((_, i) => i !== index) })}
+            className="justify-self-end p-2 text-gray-400 hover:text-red-600 disabled:opacity-30"
+          >
+            <XMarkIcon className="h-5 w-5" />
+          </button>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <button
+          type="button"
+          onClick={() => onChange({ ...draft, sections: [...draft.sections, newSection('subjective', '1')] })}
+          className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+        >
+          <PlusIcon className="h-4 w-4 mr-1" />
+          Add section
+        </button>
+        <select
+          className={inputClass}
+          value={draft.order}
+          onChange={(e) => onChange({ ...draft, order: e.target.value as BlueprintOrder })}
+        >
+          <option value="sequential">Sections in order</option>
+          <option value="interleaved">Alternate between sections</option>
+          <option value="shuffled">Shuffle questions</option>
+        </select>
+        <input
+          className={`${inputClass} flex-1 min-w-[12rem]`}
+          value={draft.topics}
+          placeholder="Topics the interview must cover, comma separated"
+          onChange={(e) => onChange({ ...draft, topics: e.target.value })}
+        />
+      </div>
+
+      {problems.length > 0 ? (
+        <ul className="text-sm text-red-600 list-disc list-inside">
+          {problems.map((problem, index) => (
+            <li key={index}>{problem.path.replace(/^\$\.?/, '') || 'Blueprint'} {problem.message}</li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-600">
+          {blueprintLength(blueprint, numQuestions)} questions: {describeBlueprint(blueprint, numQuestions)}
+        </p>
+      )}
+    </div>
+  )
+}
+
+// Technologies with weights as edited: weights stay text until submitted
+interface MixRow {
+  name: string;
+  weight: string;
+}
+
+const toTechnologyMix = (rows: MixRow[]): TechnologyWeight[] =>
+  rows.filter(row => row.name).map(row => ({ name: row.name, weight: Number(row.weight) }))
+
+// Edits the technologies of a mix and their weights
+const TechnologyMixEditor = ({ rows, catalog, onChange }: {
+  rows: MixRow[];
+  catalog: TechnologyEntry[];
+  onChange: (rows: MixRow[]) => void;
+}) => {
+  const updateRow = (index: number, update: Partial<MixRow>) =>
+    onChange(rows.map((row, i) => (i === index ? { ...row, ...update } : row)))
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent'
+
+  return (
+    <div className="space-y-2 text-sm">
+      {rows.map((row, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <select
+            className={`${inputClass} flex-1 min-w-0 bg-white`}
+            value={row.name}
+            onChange={(e) => updateRow(index, { name: e.target.value })}
+          >
+            <option value="">Choose a technology</option>
+            {/* Planned mixes can name versions or technologies outside the catalog */}
+            {row.name && !catalog.some(entry => entry.name === row.name) && (
+              <option value={row.name}>{row.name}</option>
+            )}
+            {catalog.map(entry => (
+              <option key={entry.id} value={entry.name}>{entry.name}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1 text-gray-600">
+            Weight
+            <input
+              type="number"
+              min="1"
+              max="10"
+              className={`${inputClass} w-16 px-2`}
+              value={row.weight}
+              onChange={(e) => updateRow(index, { weight: e.target.value })}
+            />
+          </label>
+          <button
+            type="button"
+            aria-label={`Remove technology ${index + 1}`}
+            disabled={rows.length === 1}
+            onClick={() => onChange(rows.filter((_, i) => i !== index))}
+            className="p-2 text-gray-400 hover:text-red-600 disabled:opacity-30"
+          >
+            <XMarkIcon className="h-5 w-5" />
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...rows, { name: '', weight: '1' }])}
+        className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-white"
+      >
+        <PlusIcon className="h-4 w-4 mr-1" />
+        Add technology
+      </button>
+    </div>
+  )
+}
+
+// Saved interview templates, as returned by /api/templates
+interface RoleTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  technologies?: TechnologyWeight[];
+  difficulty?: string;
+  numQuestions?: number;
+  blueprint?: Blueprint;
+}
+
+const EMPTY_ROLE_DRAFT: { name: string; description: string; technologies: MixRow[] } = {
+  name: '',
+  description: '',
+  technologies: [{ name: '', weight: '1' }, { name: '', weight: '1' }],
+}
 
 export default function Home() {
   const router = useRouter()
@@ -48,38 +320,186 @@ export default function Home() {
     technology: '',
     difficulty: '',
     numQuestions: '',
-    questionType: 'subjective'
+    questionType: 'subjective',
+    adaptive: false,
+    followUps: '0',
+    useBlueprint: false,
+    technologyVersion: ''
   })
+  const [blueprintDraft, setBlueprintDraft] = useState<BlueprintDraft>(BLUEPRINT_PRESETS[0].draft)
+  const blueprint = formData.useBlueprint ? toBlueprint(blueprintDraft) : null
+  // Percentage sections share the number of questions; counts alone fix it
+  const blueprintNeedsTotal = !!blueprint && blueprint.sections.some(section => section.count === undefined)
   const [query, setQuery] = useState('')
+  // Built-in entries until the full catalog, with internal technologies, loads
+  const [catalog, setCatalog] = useState<TechnologyEntry[]>(BUILTIN_TECHNOLOGIES)
+  // Several weighted technologies instead of one, set by hand or by a plan
+  const [technologyMix, setTechnologyMix] = useState<MixRow[] | null>(null)
+  const formMix = technologyMix ? toTechnologyMix(technologyMix) : null
+  const formMixProblems = formMix ? checkTechnologyMix(formMix) : []
+  const selectedTechnology = findTechnology(catalog, formData.technology)
+  const interviewTechnology = formMix
+    ? describeTechnologyMix(formMix)
+    : selectedTechnology && formData.technologyVersion
+      ? technologyLabel(selectedTechnology, formData.technologyVersion)
+      : formData.technology.trim()
+  const [planner, setPlanner] = useState({ open: false, jobDescription: '', resume: '', resumeFile: '' })
+  const [planning, setPlanning] = useState(false)
+  const [planError, setPlanError] = useState<string | null>(null)
+  const [plan, setPlan] = useState<InterviewPlan | null>(null)
   const [showCopiedToast, setShowCopiedToast] = useState(false);
+  const [roleTemplates, setRoleTemplates] = useState<RoleTemplate[]>([])
+  const [roleDraft, setRoleDraft] = useState<typeof EMPTY_ROLE_DRAFT | null>(null)
+  const [roleError, setRoleError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch('/api/templates')
+      .then(response => (response.ok ? response.json() : Promise.reject(new Error(`Status ${response.status}`))))
+      .then(data => setRoleTemplates(data.templates ?? []))
+      .catch(error => console.warn('Loading interview templates failed:', error))
 
+    fetch('/api/technologies')
+      .then(response => (response.ok ? response.json() : Promise.reject(new Error(`Status ${response.status}`))))
+      .then(data => setCatalog(data.technologies ?? BUILTIN_TECHNOLOGIES))
+      .catch(error => console.warn('Loading the technology catalog failed:', error))
+  }, [])
+
+  const sortedTechnologies = [...catalog].sort((a, b) => a.name.localeCompare(b.name))
   const filteredTechnologies =
     query === ''
-      ? technologies
-      : technologies.filter((tech) =>
-          tech.toLowerCase().includes(query.toLowerCase())
+      ? sortedTechnologies
+      : sortedTechnologies.filter((tech) =>
+          [tech.name, tech.category, ...(tech.aliases ?? [])].some(name =>
+            name.toLowerCase().includes(query.toLowerCase()) || technologyKey(name).includes(technologyKey(query))
+          )
         )
 
   const isFormValid = () => {
+    if (formMixProblems.length > 0) {
+      return false
+    }
+
+    if (blueprint) {
+      return formData.name.trim() !== '' &&
+             interviewTechnology !== '' &&
+             formData.difficulty !== '' &&
+             checkBlueprint(blueprint, Number(formData.numQuestions) || undefined).length === 0
+    }
+
     return formData.name.trim() !== '' && 
-           formData.technology !== '' && 
+           interviewTechnology !== '' && 
            formData.difficulty !== '' && 
            formData.numQuestions !== '' &&
            Number(formData.numQuestions) > 0 &&
            Number(formData.numQuestions) <= 10
   }
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault()
-    const encodedParams = new URLSearchParams({
+  // A role template's settings take precedence over the form's
+  const getLaunchSettings = (template?: RoleTemplate) => ({
+    technology: template?.technologies ? describeTechnologyMix(template.technologies) : interviewTechnology,
+    difficulty: template?.difficulty ?? formData.difficulty.trim(),
+    numQuestions: template?.numQuestions ?? (Number(formData.numQuestions) || undefined),
+    blueprint: template ? template.blueprint ?? null : blueprint,
+    technologies: template ? template.technologies : formMix ?? undefined,
+  })
+
+  const canLaunch = (template: RoleTemplate) => {
+    const settings = getLaunchSettings(template)
+    return formData.name.trim() !== '' &&
+           settings.technology !== '' &&
+           settings.difficulty !== '' &&
+           (settings.blueprint
+             ? checkBlueprint(settings.blueprint, settings.numQuestions).length === 0
+             : settings.numQuestions !== undefined)
+  }
+
+  const buildInterviewParams = (template?: RoleTemplate) => {
+    const settings = getLaunchSettings(template)
+    const params = new URLSearchParams({
       name: formData.name.trim(),
-      technology: formData.technology.trim(),
-      difficulty: formData.difficulty.trim(),
-      numQuestions: formData.numQuestions.trim(),
+      technology: settings.technology,
+      difficulty: settings.difficulty,
+      numQuestions: String(settings.numQuestions ?? ''),
       types: formData.questionType.trim()
     });
-    
-    router.push(`/interview?${encodedParams.toString()}`);
+    if (settings.blueprint) {
+      params.set('blueprint', JSON.stringify(settings.blueprint));
+      params.set('numQuestions', String(blueprintLength(settings.blueprint, settings.numQuestions)));
+      params.set('types', Array.from(new Set(settings.blueprint.sections.map(section => section.questionType))).join(','));
+    }
+    if (settings.technologies) {
+      params.set('technologies', JSON.stringify(settings.technologies));
+    }
+    if (template) {
+      params.set('template', template.id);
+    }
+    if (formData.adaptive) {
+      params.set('mode', 'adaptive');
+    }
+    if (formData.followUps !== '0') {
+      params.set('followUps', formData.followUps);
+    }
+    return params;
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    router.push(`/interview?${buildInterviewParams().toString()}`);
+  }
+
+  // Resumes are read here, in the browser; only their text is sent for planning
+  const loadResume = async (file: File) => {
+    setPlanError(null)
+    try {
+      const text = file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')
+        ? await extractPdfText(await file.arrayBuffer())
+        : await file.text()
+      setPlanner(current => ({ ...current, resume: text, resumeFile: file.name }))
+    } catch (error) {
+      console.error('Reading resume failed:', error)
+      setPlanError(error instanceof PdfTextError ? error.message : 'Could not read the resume; paste its text instead')
+    }
+  }
+
+  // Asks for a plan and fills the form in with it, for the interviewer to edit
+  const proposePlan = async () => {
+    setPlanning(true)
+    setPlanError(null)
+    try {
+      const response = await fetch('/api/interview-plan', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          jobDescription: planner.jobDescription,
+          resume: planner.resume.trim() || undefined,
+          numQuestions: Number(formData.numQuestions) || undefined,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to propose an interview')
+      }
+
+      const proposed: InterviewPlan = data
+      setPlan(proposed)
+      setFormData(current => ({
+        ...current,
+        difficulty: proposed.difficulty,
+        numQuestions: String(blueprintLength(proposed.blueprint)),
+        useBlueprint: true,
+        technology: proposed.technologies[0]?.name ?? current.technology,
+        technologyVersion: '',
+      }))
+      setBlueprintDraft(toBlueprintDraft(proposed.blueprint))
+      setTechnologyMix(proposed.technologies.map(technology => ({ name: technology.name, weight: String(technology.weight) })))
+    } catch (error) {
+      console.error('Proposing interview failed:', error)
+      setPlanError(error instanceof Error ? error.message : 'Failed to propose an interview')
+    } finally {
+      setPlanning(false)
+    }
   }
 
   const handleQuestionTypeChange = (type: string) => {
@@ -89,17 +509,9 @@ export default function Home() {
     }))
   }
 
-  const generateInterviewLink = () => {
+  const generateInterviewLink = (template?: RoleTemplate) => {
     const baseUrl = window.location.origin;
-    const params = new URLSearchParams({
-      name: formData.name.trim(),
-      technology: formData.technology.trim(),
-      difficulty: formData.difficulty.trim(),
-      numQuestions: formData.numQuestions.trim(),
-      types: formData.questionType.trim()
-    });
-    
-    const interviewUrl = `${baseUrl}/interview?${params.toString()}`;
+    const interviewUrl = `${baseUrl}/interview?${buildInterviewParams(template).toString()}`;
     
     navigator.clipboard.writeText(interviewUrl).then(() => {
       setShowCopiedToast(true);
@@ -107,6 +519,50 @@ export default function Home() {
     });
   };
 
+  // Saves the role being drafted, with the form's difficulty, length and blueprint
+  const saveRoleTemplate = async () => {
+    if (!roleDraft) return
+    setRoleError(null)
+
+    const response = await fetch('/api/templates', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        name: roleDraft.name.trim(),
+        description: roleDraft.description.trim() || undefined,
+        technologies: toTechnologyMix(roleDraft.technologies),
+        difficulty: formData.difficulty || undefined,
+        numQuestions: blueprint && !blueprintNeedsTotal ? undefined : Number(formData.numQuestions) || undefined,
+        blueprint: blueprint ?? undefined,
+      }),
+    }).catch(() => null)
+    const data = await response?.json().catch(() => null)
+
+    if (!response?.ok) {
+      const violations: { path: string; message: string }[] = data?.violations ?? []
+      setRoleError(violations.length > 0
+        ? violations.map(violation => `${violation.path.replace(/^\$\.?/, '')} ${violation.message}`).join('; ')
+        : data?.error ?? 'Failed to save the role template')
+      return
+    }
+
+    setRoleTemplates(current => [...current, data])
+    setRoleDraft(null)
+  }
+
+  const deleteRoleTemplate = async (template: RoleTemplate) => {
+    if (!window.confirm(`Delete the "${template.name}" template?`)) return
+
+    const response = await fetch(`/api/templates/${template.id}`, { method: 'DELETE' }).catch(() => null)
+    if (response?.ok) {
+      setRoleTemplates(current => current.filter(t => t.id !== template.id))
+    } else {
+      setRoleError('Failed to delete the role template')
+    }
+  }
+
   return (
     <main className="min-h-screen bg-gradient-to-br from-indigo-100 via-purple-50 to-pink-100 relative">
       <div className="absolute inset-0 w-full h-full overflow-hidden pointer-events-none">
@@ -131,6 +587,89 @@ export default function Home() {
             Powered by AI
           </p>
           
+          {/* Plan From a Job Description */}
+          <div className="mb-8 p-4 border border-indigo-100 rounded-lg bg-indigo-50/50">
+            <div className="flex items-center justify-between">
+              <div>
+                <h2 className="font-semibold text-gray-800">Plan from a job description</h2>
+                <p className="text-sm text-gray-600">Paste the job (and optionally a resume) to get a proposed interview you can edit below</p>
+              </div>
+              <button
+                type="button"
+                onClick={() => setPlanner({ ...planner, open: !planner.open })}
+                className="px-3 py-2 border border-indigo-200 rounded-lg text-sm text-indigo-700 hover:bg-white"
+              >
+                {planner.open ? 'Hide' : 'Start'}
+              </button>
+            </div>
+
+            {planner.open && (
+              <div className="mt-4 space-y-3 text-sm">
+                <textarea
+                  rows={6}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  value={planner.jobDescription}
+                  placeholder="Job description, as plain text or Markdown"
+                  onChange={(e) => setPlanner({ ...planner, jobDescription: e.target.value })}
+                />
+                <textarea
+                  rows={4}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  value={planner.resume}
+                  placeholder="Candidate resume (optional)"
+                  onChange={(e) => setPlanner({ ...planner, resume: e.target.value, resumeFile: '' })}
+                />
+                <div className="flex flex-wrap items-center gap-3">
+                  <label className="px-3 py-2 border border-gray-300 rounded-lg text-gray-700 bg-white hover:bg-gray-50 cursor-pointer">
+                    Load resume file
+                    <input
+                      type="file"
+                      accept=".pdf,.txt,.md,application/pdf,text/plain,text/markdown"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0]
+                        if (file) loadResume(file)
+                        e.target.value = ''
+                      }}
+                    />
+                  </label>
+                  {planner.resumeFile && <span className="text-gray-600">Read {planner.resumeFile} on this device</span>}
+                  <button
+                    type="button"
+                    onClick={proposePlan}
+                    disabled={planning || !planner.jobDescription.trim()}
+                    className="ml-auto px-4 py-2 rounded-lg text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-300"
+                  >
+                    {planning ? 'Reading the job...' : 'Propose interview'}
+                  </button>
+                </div>
+                {planError && <p className="text-red-600">{planError}</p>}
+                {plan && (
+                  <div className="p-3 bg-white rounded-lg border border-gray-200 space-y-2">
+                    <p className="font-medium text-gray-800">
+                      {plan.role} · {plan.seniority} level · {plan.difficulty} questions
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                      {plan.skills.map(skill => (
+                        <span
+                          key={skill.name}
+                          title={skill.onResume === undefined ? undefined : skill.onResume ? 'On the resume' : 'Not on the resume'}
+                          className={`px-2 py-0.5 rounded-full text-xs ${skill.required ? 'bg-indigo-100 text-indigo-800' : 'bg-gray-100 text-gray-700'}`}
+                        >
+                          {skill.name}{skill.onResume ? ' \u2713' : ''}
+                        </span>
+                      ))}
+                    </div>
+                    <p className="text-gray-600">{plan.rationale}</p>
+                    <p className="text-gray-500">
+                      The technologies, difficulty and blueprint below have been filled in from this plan. Adjust them before starting or copying the link.
+                    </p>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
           <form onSubmit={handleSubmit} className="flex flex-col md:grid md:grid-cols-2 gap-8">
             {/* Left Column */}
             <div className="space-y-6 order-1">
@@ -168,77 +707,123 @@ export default function Home() {
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Technology
                 </label>
-                <Combobox
-                  value={formData.technology}
-                  onChange={(value: string | null) => setFormData({ ...formData, technology: value || '' })}
-                >
-                  <div className="relative">
-                    <div className="relative w-full">
-                      <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
-                        <CodeBracketIcon className="h-5 w-5 text-gray-400" />
-                      </div>
-                      <Combobox.Input
-                        className="w-full pl-11 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-white"
-                        onChange={(event) => setQuery(event.target.value)}
-                        displayValue={(tech: string) => tech}
-                        placeholder="Search for a technology..."
-                      />
-                      <Combobox.Button className="absolute inset-y-0 right-0 flex items-center pr-4">
-                        <svg className="h-4 w-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-                        </svg>
-                      </Combobox.Button>
-                    </div>
-                    <Transition
-                      as={Fragment}
-                      leave="transition ease-in duration-100"
-                      leaveFrom="opacity-100"
-                      leaveTo="opacity-0"
-                      afterLeave={() => setQuery('')}
+                {technologyMix ? (
+                  <div className="space-y-2">
+                    <TechnologyMixEditor rows={technologyMix} catalog={sortedTechnologies} onChange={setTechnologyMix} />
+                    {formMixProblems.length > 0 && (
+                      <p className="text-sm text-red-600">
+                        {formMixProblems.map(problem => `${problem.path.replace(/^\$\.?/, '') || 'Technologies'} ${problem.message}`).join('; ')}
+                      </p>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => setTechnologyMix(null)}
+                      className="text-sm text-indigo-600 hover:underline"
                     >
-                      <Combobox.Options className="absolute z-10 mt-1 max-h-60 w-full overflow-auto rounded-lg bg-white py-1 text-base shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none sm:text-sm">
-                        {filteredTechnologies.length === 0 && query !== '' ? (
-                          <div className="relative cursor-default select-none py-2 px-4 text-gray-700">
-                            Nothing found.
-                          </div>
-                        ) : (
-                          filteredTechnologies.map((technology) => (
-                            <Combobox.Option
-                              key={technology}
-                              className={({ active }) =>
-                                `relative cursor-default select-none py-2 pl-10 pr-4 ${
-                                  active ? 'bg-indigo-600 text-white' : 'text-gray-900'
-                                }`
-                              }
-                              value={technology}
-                            >
-                              {({ selected, active }) => (
-                                <>
-                                  <span
-                                    className={`block truncate ${
-                                      selected ? 'font-medium' : 'font-normal'
-                                    }`}
-                                  >
-                                    {technology}
-                                  </span>
-                                  {selected ? (
-                                    <span
-                                      className={`absolute inset-y-0 left-0 flex items-center pl-3 ${
-                                        active ? 'text-white' : 'text-indigo-600'
-                                      }`}
-                                    >
-                                      <CheckIcon className="h-5 w-5" aria-hidden="true" />
-                                    </span>
-                                  ) : null}
-                                </>
-                              )}
-                            </Combobox.Option>
-                          ))
-                        )}
-                      </Combobox.Options>
-                    </Transition>
+                      Use one technology
+                    </button>
                   </div>
-                </Combobox>
+                ) : (
+                  <>
+                    <Combobox
+                      value={formData.technology}
+                      onChange={(value: string | null) => setFormData({ ...formData, technology: value || '', technologyVersion: '' })}
+                    >
+                      <div className="relative">
+                        <div className="relative w-full">
+                          <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
+                            <CodeBracketIcon className="h-5 w-5 text-gray-400" />
+                          </div>
+                          <Combobox.Input
+                            className="w-full pl-11 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-white"
+                            onChange={(event) => setQuery(event.target.value)}
+                            displayValue={(tech: string) => tech}
+                            placeholder="Search for a technology..."
+                          />
+                          <Combobox.Button className="absolute inset-y-0 right-0 flex items-center pr-4">
+                            <svg className="h-4 w-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                            </svg>
+                          </Combobox.Button>
+                        </div>
+                        <Transition
+                          as={Fragment}
+                          leave="transition ease-in duration-100"
+                          leaveFrom="opacity-100"
+                          leaveTo="opacity-0"
+                          afterLeave={() => setQuery('')}
+                        >
+                          <Combobox.Options className="absolute z-10 mt-1 max-h-60 w-full overflow-auto rounded-lg bg-white py-1 text-base shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none sm:text-sm">
+                            {filteredTechnologies.length === 0 && query !== '' ? (
+                              <div className="relative cursor-default select-none py-2 px-4 text-gray-700">
+                                Nothing found.
+                              </div>
+                            ) : (
+                              filteredTechnologies.map((technology) => (
+                                <Combobox.Option
+                                  key={technology.id}
+                                  className={({ active }) =>
+                                    `relative cursor-default select-none py-2 pl-10 pr-4 ${
+                                      active ? 'bg-indigo-600 text-white' : 'text-gray-900'
+                                    }`
+                                  }
+                                  value={technology.name}
+                                >
+                                  {({ selected, active }) => (
+                                    <>
+                                      <span
+                                        className={`block truncate ${
+                                          selected ? 'font-medium' : 'font-normal'
+                                        }`}
+                                      >
+                                        {technology.name}
+                                      </span>
+                                      <span className={`absolute inset-y-0 right-0 flex items-center pr-4 text-xs ${active ? 'text-indigo-100' : 'text-gray-400'}`}>
+                                        {technology.category}
+                                      </span>
+                                      {selected ? (
+                                        <span
+                                          className={`absolute inset-y-0 left-0 flex items-center pl-3 ${
+                                            active ? 'text-white' : 'text-indigo-600'
+                                          }`}
+                                        >
+                                          <CheckIcon className="h-5 w-5" aria-hidden="true" />
+                                        </span>
+                                      ) : null}
+                                    </>
+                                  )}
+                                </Combobox.Option>
+                              ))
+                            )}
+                          </Combobox.Options>
+                        </Transition>
+                      </div>
+                    </Combobox>
+                    {selectedTechnology?.versions && (
+                      <select
+                        aria-label="Version"
+                        className="mt-2 w-full px-4 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-white"
+                        value={formData.technologyVersion}
+                        onChange={(e) => setFormData({ ...formData, technologyVersion: e.target.value })}
+                      >
+                        <option value="">Any {selectedTechnology.name} version</option>
+                        {selectedTechnology.versions.map(version => (
+                          <option key={version} value={version}>{technologyLabel(selectedTechnology, version)}</option>
+                        ))}
+                      </select>
+                    )}
+                    {selectedTechnology?.custom && selectedTechnology.description && (
+                      <p className="mt-2 text-xs text-gray-500">{selectedTechnology.description}</p>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => setTechnologyMix([{ name: selectedTechnology?.name ?? '', weight: '1' }, { name: '', weight: '1' }])}
+                      className="mt-2 text-sm text-indigo-600 hover:underline"
+                    >
+                      Mix several technologies
+                    </button>
+                  </>
+                )}
               </motion.div>
 
               {/* Number of Questions */}
@@ -260,9 +845,10 @@ export default function Home() {
                     max="10"
                     required
                     tabIndex={6}
-                    className="w-full pl-11 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
-                    value={formData.numQuestions}
-                    placeholder="1-10"
+                    disabled={!!blueprint && !blueprintNeedsTotal}
+                    className="w-full pl-11 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent disabled:bg-gray-100 disabled:text-gray-400"
+                    value={blueprint && !blueprintNeedsTotal ? '' : formData.numQuestions}
+                    placeholder={blueprint && !blueprintNeedsTotal ? 'Set by the blueprint' : '1-10'}
                     onChange={(e) => {
                       const value = Math.min(Math.max(1, Number(e.target.value)), 10);
                       setFormData({
@@ -306,6 +892,7 @@ export default function Home() {
                         value={option.type}
                         tabIndex={7 + index}
                         checked={formData.questionType === option.type}
+                        disabled={formData.useBlueprint}
                         onChange={() => handleQuestionTypeChange(option.type)}
                         className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
                       />
@@ -319,6 +906,18 @@ export default function Home() {
                     </label>
                   ))}
                 </div>
+                <label className="mt-3 flex items-start gap-2 text-sm text-gray-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={formData.useBlueprint}
+                    onChange={(e) => setFormData({ ...formData, useBlueprint: e.target.checked })}
+                    className="mt-0.5 h-4 w-4 text-indigo-600 rounded"
+                  />
+                  <span>
+                    Use a blueprint
+                    <span className="block text-gray-500">Mix question types, topics and difficulties in sections</span>
+                  </span>
+                </label>
               </motion.div>
 
               {/* Difficulty Level */}
@@ -355,9 +954,51 @@ export default function Home() {
                     </label>
                   ))}
                 </div>
+                <label className="mt-3 flex items-start gap-2 text-sm text-gray-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={formData.adaptive}
+                    onChange={(e) => setFormData({ ...formData, adaptive: e.target.checked })}
+                    className="mt-0.5 h-4 w-4 text-indigo-600 rounded"
+                  />
+                  <span>
+                    Adaptive difficulty
+                    <span className="block text-gray-500">Start at this level, then adjust each question to the candidate&apos;s answers</span>
+                  </span>
+                </label>
+                <label className="mt-3 flex items-center justify-between gap-2 text-sm text-gray-700">
+                  <span>
+                    Follow-up questions
+                    <span className="block text-gray-500">Probe each written or coding answer before moving on</span>
+                  </span>
+                  <select
+                    value={formData.followUps}
+                    onChange={(e) => setFormData({ ...formData, followUps: e.target.value })}
+                    className="rounded-lg border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    <option value="0">None</option>
+                    <option value="1">1 per answer</option>
+                    <option value="2">2 per answer</option>
+                    <option value="3">3 per answer</option>
+                  </select>
+                </label>
               </motion.div>
             </div>
 
+            {/* Blueprint Editor */}
+            {formData.useBlueprint && (
+              <div className="col-span-full order-3">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Interview Blueprint
+                </label>
+                <BlueprintEditor
+                  draft={blueprintDraft}
+                  onChange={setBlueprintDraft}
+                  numQuestions={Number(formData.numQuestions) || undefined}
+                />
+              </div>
+            )}
+
             {/* Buttons at Bottom */}
             <div className="col-span-full order-3 mt-8">
               <div className="flex flex-col sm:flex-row gap-4 justify-center">
@@ -375,7 +1016,7 @@ export default function Home() {
                 </button>
                 <button
                   type="button"
-                  onClick={generateInterviewLink}
+                  onClick={() => generateInterviewLink()}
                   disabled={!isFormValid()}
                   className={`inline-flex items-center justify-center px-6 py-3 border text-base font-medium rounded-lg ${
                     isFormValid()
@@ -390,6 +1031,130 @@ export default function Home() {
             </div>
           </form>
 
+          {/* Role Templates */}
+          <div className="mt-12 border-t border-gray-200 pt-8">
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <h2 className="text-xl font-semibold text-gray-800">Role Templates</h2>
+                <p className="text-sm text-gray-600">Interview across a role&apos;s stack, with questions shared out by weight</p>
+              </div>
+              {!roleDraft && (
+                <button
+                  type="button"
+                  onClick={() => { setRoleDraft(technologyMix ? { ...EMPTY_ROLE_DRAFT, technologies: technologyMix } : EMPTY_ROLE_DRAFT); setRoleError(null) }}
+                  className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+                >
+                  <PlusIcon className="h-4 w-4 mr-1" />
+                  New role template
+                </button>
+              )}
+            </div>
+
+            {roleDraft && (
+              <div className="mb-6 p-4 bg-gray-50 rounded-lg space-y-3 text-sm">
+                <div className="grid md:grid-cols-2 gap-3">
+                  <input
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                    value={roleDraft.name}
+                    placeholder="Role, e.g. Full-stack engineer"
+                    onChange={(e) => setRoleDraft({ ...roleDraft, name: e.target.value })}
+                  />
+                  <input
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                    value={roleDraft.description}
+                    placeholder="Description (optional)"
+                    onChange={(e) => setRoleDraft({ ...roleDraft, description: e.target.value })}
+                  />
+                </div>
+                <TechnologyMixEditor
+                  rows={roleDraft.technologies}
+                  catalog={sortedTechnologies}
+                  onChange={(technologies) => setRoleDraft({ ...roleDraft, technologies })}
+                />
+                <p className="text-gray-500">
+                  The template also keeps the difficulty, number of questions and blueprint chosen in the form above.
+                </p>
+                {roleError && <p className="text-red-600">{roleError}</p>}
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    type="button"
+                    onClick={saveRoleTemplate}
+                    disabled={!roleDraft.name.trim() || !roleDraft.technologies.some(technology => technology.name)}
+                    className="px-3 py-2 rounded-lg text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-300"
+                  >
+                    Save template
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => { setRoleDraft(null); setRoleError(null) }}
+                    className="px-3 py-2 rounded-lg text-gray-700 hover:bg-white"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {!roleDraft && roleError && <p className="mb-4 text-sm text-red-600">{roleError}</p>}
+
+            {roleTemplates.length === 0 ? (
+              <p className="text-sm text-gray-500">No templates saved yet.</p>
+            ) : (
+              <div className="grid md:grid-cols-2 gap-4">
+                {roleTemplates.map(template => (
+                  <div key={template.id} className="p-4 border border-gray-200 rounded-lg bg-white">
+                    <div className="flex items-start justify-between gap-2">
+                      <h3 className="font-medium text-gray-900">{template.name}</h3>
+                      <button
+                        type="button"
+                        aria-label={`Delete ${template.name}`}
+                        onClick={() => deleteRoleTemplate(template)}
+                        className="text-gray-400 hover:text-red-600"
+                      >
+                        <XMarkIcon className="h-5 w-5" />
+                      </button>
+                    </div>
+                    {template.description && <p className="text-sm text-gray-600">{template.description}</p>}
+                    <p className="mt-2 text-sm text-gray-700">
+                      {template.technologies
+                        ? template.technologies.map(technology => `${technology.name} \u00d7${technology.weight}`).join(' + ')
+                        : 'Technology from the form'}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {[
+                        template.difficulty,
+                        template.blueprint
+                          ? describeBlueprint(template.blueprint, template.numQuestions)
+                          : template.numQuestions && `${template.numQuestions} questions`,
+                      ].filter(Boolean).join(' \u00b7 ')}
+                    </p>
+                    <div className="mt-3 flex gap-2">
+                      <button
+                        type="button"
+                        disabled={!canLaunch(template)}
+                        title={canLaunch(template) ? undefined : 'Fill in the form for anything the template leaves out, starting with your name'}
+                        onClick={() => router.push(`/interview?${buildInterviewParams(template).toString()}`)}
+                        className="inline-flex items-center px-3 py-1.5 rounded-lg text-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-300"
+                      >
+                        Start
+                        <ArrowRightIcon className="ml-1 h-4 w-4" />
+                      </button>
+                      <button
+                        type="button"
+                        disabled={!canLaunch(template)}
+                        onClick={() => generateInterviewLink(template)}
+                        className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 disabled:text-gray-400"
+                      >
+                        Copy link
+                        <LinkIcon className="ml-1 h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
           {/* Copied Toast */}
           <motion.div
             initial={{ opacity: 0, y: 10 }}
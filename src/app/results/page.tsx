@@ -1,10 +1,12 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
 import { motion } from 'framer-motion'
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter'
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism'
+import { describeAbility } from '@/utils/adaptive'
+import { buildReplay, EditLog, findReplayMoments, languageAt, stepAt, textAt } from '@/utils/editLog'
 import { EnvelopeIcon, ArrowUpCircleIcon, PlusCircleIcon, CheckCircleIcon, ExclamationCircleIcon } from '@heroicons/react/24/outline'
 
 interface ModelAnswer {
@@ -21,6 +23,78 @@ interface Question {
   expectedTopics: string[];
   difficulty: number;
   modelAnswer: ModelAnswer;
+  functionName?: string;
+  promptVersion?: string;
+}
+
+type RubricVerdict = 'pass' | 'partial' | 'fail';
+
+interface CriterionScore {
+  id: string;
+  name: string;
+  weight: number;
+  score: number;
+  feedback?: string;
+}
+
+interface RubricItemResult {
+  topic: string;
+  points: number;
+  maxPoints: number;
+  verdict: RubricVerdict;
+  comment?: string;
+}
+
+interface GradingConsensus {
+  method: 'median' | 'trimmed-mean';
+  samples: number;
+  scores: number[];
+  models: string[];
+  standardDeviation: number;
+  confidence: number;
+}
+
+interface IntegrityFlag {
+  kind: 'injection-pattern' | 'score-mismatch';
+  message: string;
+  excerpt?: string;
+}
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  // Not shown to the candidate; only whether they passed is sent
+  hidden?: boolean;
+  args?: unknown[];
+  expected?: unknown;
+  actual?: unknown;
+  error?: string;
+  durationMs: number;
+}
+
+// The answer run against the question's tests
+interface ExecutionResult {
+  language: string;
+  status: 'passed' | 'failed' | 'error' | 'timeout' | 'memory-limit';
+  passed: number;
+  total: number;
+  tests: TestResult[];
+  stdout: string;
+  stderr: string;
+  runtimeMs: number;
+  error?: string;
+}
+
+// What static analysis found in a coding answer, without running it
+interface StaticAnalysis {
+  language: string;
+  parseErrors: { message: string; line?: number }[];
+  lines: number;
+  functions: { name: string; line: number; complexity: number; nesting: number; loopDepth: number; recursive: boolean }[];
+  maxComplexity: number;
+  maxNesting: number;
+  lint: { rule: string; message: string; line: number; severity: 'warning' | 'info' }[];
+  bigO: { estimate: string; reason: string };
 }
 
 interface Analysis {
@@ -28,21 +102,235 @@ interface Analysis {
   feedback: string;
   coveredTopics: string[];
   missingTopics: string[];
+  criteria?: CriterionScore[];
+  rubricItems?: RubricItemResult[];
+  consensus?: GradingConsensus;
+  needsReview?: boolean;
+  integrityFlags?: IntegrityFlag[];
+  promptVersion?: string;
+  execution?: ExecutionResult;
+  llmScore?: number;
+  staticAnalysis?: StaticAnalysis;
+}
+
+interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  latencyMs: number;
+}
+
+interface InterviewUsage {
+  totals: UsageTotals;
+  byQuestion: { questionNumber: number; totals: UsageTotals }[];
+  budget: { costUsd?: number; tokens?: number; exceeded: boolean };
+}
+
+const formatAbility = ({ theta, standardError }: { theta: number; standardError: number }) =>
+  `${describeAbility(theta)} (${theta >= 0 ? '+' : ''}${theta.toFixed(2)} \u00b1 ${standardError.toFixed(2)})`
+
+const formatCost = (costUsd: number) => `$${costUsd < 0.01 ? costUsd.toFixed(4) : costUsd.toFixed(2)}`
+
+const EXECUTION_STATUS_LABELS: { [key in ExecutionResult['status']]: string } = {
+  passed: 'All tests passed',
+  failed: 'Some tests failed',
+  error: 'Could not run',
+  timeout: 'Timed out',
+  'memory-limit': 'Ran out of memory',
+}
+
+// e.g. twoSum([2, 7], 9)
+const describeCall = (functionName: string | undefined, args: unknown[]) =>
+  `${functionName || 'solution'}(${args.map(arg => JSON.stringify(arg)).join(', ')})`
+
+// Usual thresholds: up to 5 branches per function reads easily, over 10 is hard to follow
+const complexityVerdict = (complexity: number): RubricVerdict =>
+  complexity <= 5 ? 'pass' : complexity <= 10 ? 'partial' : 'fail'
+
+const nestingVerdict = (nesting: number): RubricVerdict =>
+  nesting <= 2 ? 'pass' : nesting <= 4 ? 'partial' : 'fail'
+
+const VERDICT_STYLES: { [key in RubricVerdict]: string } = {
+  pass: 'bg-green-50 text-green-700 border border-green-200',
+  partial: 'bg-yellow-50 text-yellow-700 border border-yellow-200',
+  fail: 'bg-red-50 text-red-700 border border-red-200',
+}
+
+// Asked about an answer before moving on, and graded in its context
+interface FollowUpAnswer {
+  question: Question;
+  answer: string;
+  analysis?: Analysis;
 }
 
 interface AnswerWithAnalysis {
   answer: string | number;  // Allow both string and number types
   analysis?: Analysis;
   question: Question;
+  // Which of a role's technologies the question was about
+  technology?: string;
+  // The editor language a coding answer was written in
+  language?: string;
+  // How a coding answer was typed
+  editLog?: EditLog;
+  followUps?: FollowUpAnswer[];
+}
+
+const REPLAY_SPEEDS = [1, 2, 4, 8, 16]
+
+const formatReplayTime = (ms: number) => {
+  const seconds = Math.floor(ms / 1000)
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`
+}
+
+// Plays back how a coding answer was typed: play/pause, a scrubber marked
+// with large inserts and long pauses, and a choice of speed
+function EditReplay({ log, language }: { log: EditLog; language?: string }) {
+  const replay = useMemo(() => buildReplay(log), [log])
+  const moments = useMemo(() => findReplayMoments(replay), [replay])
+  const [position, setPosition] = useState(0)
+  const [playing, setPlaying] = useState(false)
+  const [speed, setSpeed] = useState(4)
+  const duration = Math.max(log.durationMs, 1)
+
+  useEffect(() => {
+    if (!playing) return
+    let last = Date.now()
+    const timer = setInterval(() => {
+      const now = Date.now()
+      const elapsed = (now - last) * speed
+      last = now
+      setPosition(current => Math.min(current + elapsed, duration))
+    }, 50)
+    return () => clearInterval(timer)
+  }, [playing, speed, duration])
+
+  useEffect(() => {
+    if (position >= duration) setPlaying(false)
+  }, [position, duration])
+
+  const togglePlaying = () => {
+    if (!playing && position >= duration) setPosition(0)
+    setPlaying(!playing)
+  }
+
+  const seek = (ms: number) => {
+    setPlaying(false)
+    setPosition(ms)
+  }
+
+  const step = stepAt(replay, position)
+
+  return (
+    <div className="mt-4 border border-gray-200 rounded-lg">
+      <div className="flex flex-wrap items-center gap-3 px-3 py-2 border-b border-gray-200 bg-gray-50">
+        <button
+          type="button"
+          onClick={togglePlaying}
+          className="px-3 py-1 text-sm bg-gray-800 text-white rounded-md hover:bg-gray-900"
+        >
+          {playing ? 'Pause' : position >= duration ? 'Replay' : 'Play'}
+        </button>
+        <span className="text-xs text-gray-600 font-mono">
+          {formatReplayTime(position)} / {formatReplayTime(duration)}
+        </span>
+        <div className="relative flex-1 min-w-[8rem]">
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            step={100}
+            value={position}
+            onChange={(e) => seek(Number(e.target.value))}
+            aria-label="Replay position"
+            className="w-full"
+          />
+          {moments.map((moment, momentIndex) => (
+            <span
+              key={momentIndex}
+              className={`absolute -top-1 w-1 h-2 rounded-sm ${moment.kind === 'large-insert' ? 'bg-red-500' : 'bg-yellow-500'}`}
+              style={{ left: `${(moment.at / duration) * 100}%` }}
+            />
+          ))}
+        </div>
+        <select
+          value={speed}
+          onChange={(e) => setSpeed(Number(e.target.value))}
+          aria-label="Replay speed"
+          className="px-2 py-1 text-sm border border-gray-300 rounded-md bg-white"
+        >
+          {REPLAY_SPEEDS.map(option => (
+            <option key={option} value={option}>{option}x</option>
+          ))}
+        </select>
+      </div>
+      <SyntaxHighlighter
+        language={languageAt(replay, step) || language || 'javascript'}
+        style={vscDarkPlus}
+        customStyle={{ margin: 0, borderRadius: 0, minHeight: '8rem', maxHeight: '24rem' }}
+      >
+        {textAt(replay, step) || ' '}
+      </SyntaxHighlighter>
+      <div className="px-3 py-2 border-t border-gray-200 text-xs text-gray-600 space-y-1">
+        <p>
+          {log.edits.length} edits over {formatReplayTime(log.durationMs)}
+          {log.truncated && ' \u00b7 recording stopped early, the final answer is shown above'}
+        </p>
+        {moments.length > 0 && (
+          <ul className="flex flex-wrap gap-2">
+            {moments.map((moment, momentIndex) => (
+              <li key={momentIndex}>
+                <button
+                  type="button"
+                  onClick={() => seek(moment.at)}
+                  className={`px-2 py-0.5 rounded-full ${moment.kind === 'large-insert' ? 'bg-red-50 text-red-700 border border-red-200' : 'bg-yellow-50 text-yellow-700 border border-yellow-200'}`}
+                >
+                  {formatReplayTime(moment.at)} &middot; {moment.kind === 'large-insert'
+                    ? `${moment.size} characters at once`
+                    : `paused ${Math.round(moment.size / 1000)}s`}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
+
+interface TrajectoryPoint {
+  questionNumber: number;
+  questionType: string;
+  difficulty: string;
+  score: number;
+  theta: number;
+  standardError: number;
 }
 
 interface InterviewDetails {
+  interviewId?: string;
   name: string;
   technology: string;
   difficulty: string;
+  // e.g. "2 MCQ (Warm-up), 2 coding, 1 subjective"
+  blueprint?: string;
+  // A role's technologies and their weights
+  technologies?: { name: string; weight: number }[];
+  mode?: 'fixed' | 'adaptive';
+  // Ability on the IRT scale, where Easy, Medium and Hard questions sit at -1, 0 and 1
+  adaptive?: {
+    ability: { theta: number; standardError: number };
+    trajectory: TrajectoryPoint[];
+  };
   timestamp: string;
 }
 
+// Flag excerpts quote the candidate's answer verbatim
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
 // Function to detect if text is likely code
 const isCodeBlock = (text: string): boolean => {
   // Check for common code indicators
@@ -77,6 +365,23 @@ export default function Results() {
   const [emailAddress, setEmailAddress] = useState('')
   const [sendingEmail, setSendingEmail] = useState(false)
   const [emailError, setEmailError] = useState<string | null>(null)
+  const [usage, setUsage] = useState<InterviewUsage | null>(null)
+
+  // Per-technology scores for role interviews, in the role's order
+  const technologyBreakdown = (details?.technologies ?? []).map(technology => {
+    const scored = answers.filter(answer => answer.technology === technology.name)
+    const total = scored.reduce((sum, answer) => sum + (answer.analysis?.score || 0), 0)
+    return {
+      name: technology.name,
+      weight: technology.weight,
+      questions: scored.length,
+      percentage: scored.length > 0 ? (total / (scored.length * 10)) * 100 : 0,
+    }
+  })
+
+  const flaggedCount = answers.filter(answer =>
+    answer.analysis?.needsReview || answer.followUps?.some(followUp => followUp.analysis?.needsReview)
+  ).length
 
   const handleEmailResults = async () => {
     if (!details) return;
@@ -170,6 +475,15 @@ export default function Results() {
           margin: 8px 0;
           color: #374151;
         }
+        .followup {
+          margin: 16px 0 0 0;
+          padding: 8px 16px;
+          border-left: 3px solid #C7B8EA;
+        }
+        .followup h5 {
+          margin: 0 0 8px 0;
+          color: #6610f2;
+        }
         .topic-tag {
           display: inline-block;
           padding: 4px 12px;
@@ -179,6 +493,57 @@ export default function Results() {
           font-size: 14px;
           margin: 4px;
         }
+        .breakdown {
+          width: 100%;
+          border-collapse: collapse;
+          margin: 16px 0;
+          font-size: 14px;
+        }
+        .breakdown th {
+          text-align: left;
+          color: #374151;
+          border-bottom: 2px solid #E5E7EB;
+          padding: 8px;
+        }
+        .breakdown td {
+          color: #374151;
+          border-bottom: 1px solid #E5E7EB;
+          padding: 8px;
+          vertical-align: top;
+        }
+        .breakdown .comment {
+          color: #6B7280;
+          font-size: 12px;
+        }
+        .consensus {
+          color: #6B7280;
+          font-size: 14px;
+          margin: -8px 0 16px 0;
+        }
+        .review-flag {
+          display: inline-block;
+          padding: 4px 12px;
+          background-color: #FEF3C7;
+          color: #92400E;
+          border-radius: 9999px;
+          font-size: 14px;
+          font-weight: 600;
+        }
+        .integrity {
+          margin: 8px 0 16px 0;
+          padding: 12px 16px;
+          background-color: #FEF2F2;
+          border: 1px solid #FECACA;
+          border-radius: 6px;
+          color: #991B1B;
+          font-size: 14px;
+        }
+        .integrity li {
+          margin: 4px 0;
+        }
+        .verdict-pass { color: #15803D; font-weight: 600; }
+        .verdict-partial { color: #A16207; font-weight: 600; }
+        .verdict-fail { color: #B91C1C; font-weight: 600; }
         .feedback {
           padding: 16px;
           background-color: #F3F4F6;
@@ -220,7 +585,14 @@ export default function Results() {
                 <h1>Technical Interview Results</h1>
                 <p><strong>Candidate:</strong> ${details.name}</p>
                 <p><strong>Technology:</strong> ${details.technology}</p>
-                <p><strong>Difficulty Level:</strong> ${details.difficulty}</p>
+                <p><strong>Difficulty Level:</strong> ${details.adaptive ? `Adaptive, starting at ${details.difficulty}` : details.difficulty}</p>
+                ${details.blueprint ? `<p><strong>Blueprint:</strong> ${escapeHtml(details.blueprint)}</p>` : ''}
+                ${technologyBreakdown.length > 0 ? `<p><strong>By Technology:</strong> ${technologyBreakdown.map(entry =>
+                  `${escapeHtml(entry.name)} ${entry.questions > 0 ? `${Math.round(entry.percentage)}%` : 'not asked'} (${entry.questions} question${entry.questions !== 1 ? 's' : ''})`
+                ).join(' &middot; ')}</p>` : ''}
+                ${details.adaptive ? `<p><strong>Ability Estimate:</strong> ${formatAbility(details.adaptive.ability)}</p>
+                <p><strong>Difficulty Trajectory:</strong> ${details.adaptive.trajectory.map(point => `${point.difficulty} (${point.score}/10)`).join(' &rarr; ')}</p>` : ''}
+                ${flaggedCount > 0 ? `<p><strong>Flagged for Human Review:</strong> ${flaggedCount} answer${flaggedCount !== 1 ? 's' : ''}</p>` : ''}
                 <p><strong>Overall Score:</strong> ${Math.round(averageScore)} / ${answers.length * 10} 
                 (${Math.round((averageScore / (answers.length * 10)) * 100)}%)</p>
               </div>
@@ -237,7 +609,66 @@ export default function Results() {
                   <pre>${item.question.modelAnswer.content}</pre>
 
                   <p class="score">Score: ${Math.round(item.analysis?.score || 0)} / 10</p>
+                  ${item.analysis?.consensus ? `
+                    <p class="consensus">
+                      Consensus of ${item.analysis.consensus.samples} gradings (${item.analysis.consensus.method}):
+                      ${item.analysis.consensus.scores.join(', ')} &middot;
+                      confidence ${Math.round(item.analysis.consensus.confidence * 100)}%
+                    </p>
+                  ` : ''}
+                  ${item.analysis?.needsReview ? '<p><span class="review-flag">Flagged for human review</span></p>' : ''}
+                  ${item.analysis?.integrityFlags && item.analysis.integrityFlags.length > 0 ? `
+                    <div class="integrity">
+                      <strong>Possible attempt to influence the grade:</strong>
+                      <ul>
+                        ${item.analysis.integrityFlags.map(flag => `
+                          <li>${escapeHtml(flag.message)}${flag.excerpt ? `: <code>${escapeHtml(flag.excerpt)}</code>` : ''}</li>
+                        `).join('')}
+                      </ul>
+                    </div>
+                  ` : ''}
+
+                  ${item.analysis?.criteria && item.analysis.criteria.length > 0 ? `
+                    <table class="breakdown">
+                      <tr><th>Criterion</th><th>Weight</th><th>Score</th></tr>
+                      ${item.analysis.criteria.map(criterion => `
+                        <tr>
+                          <td>${escapeHtml(criterion.name)}${criterion.feedback ? `<div class="comment">${escapeHtml(criterion.feedback)}</div>` : ''}</td>
+                          <td>${criterion.weight}</td>
+                          <td>${criterion.score} / 10</td>
+                        </tr>
+                      `).join('')}
+                    </table>
+                  ` : ''}
+
+                  ${item.analysis?.rubricItems && item.analysis.rubricItems.length > 0 ? `
+                    <table class="breakdown">
+                      <tr><th>Rubric Item</th><th>Verdict</th><th>Points</th></tr>
+                      ${item.analysis.rubricItems.map(rubricItem => `
+                        <tr>
+                          <td>${escapeHtml(rubricItem.topic)}${rubricItem.comment ? `<div class="comment">${escapeHtml(rubricItem.comment)}</div>` : ''}</td>
+                          <td class="verdict-${rubricItem.verdict}">${rubricItem.verdict}</td>
+                          <td>${rubricItem.points} / ${rubricItem.maxPoints}</td>
+                        </tr>
+                      `).join('')}
+                    </table>
+                  ` : ''}
                   
+                  ${item.analysis?.execution ? `
+                    <p><strong>Tests:</strong> ${item.analysis.execution.passed} / ${item.analysis.execution.total} passed
+                      (${EXECUTION_STATUS_LABELS[item.analysis.execution.status]}, ${item.analysis.execution.runtimeMs} ms)</p>
+                    <table class="breakdown">
+                      <tr><th>Test</th><th>Result</th><th>Time</th></tr>
+                      ${item.analysis.execution.tests.map(test => `
+                        <tr>
+                          <td>${escapeHtml(test.name)}${test.hidden ? ' (hidden)' : ''}${test.args ? `<div class="comment">${escapeHtml(describeCall(item.question.functionName, test.args))}</div>` : ''}</td>
+                          <td class="verdict-${test.passed ? 'pass' : 'fail'}">${test.passed ? 'pass' : test.hidden ? 'fail' : escapeHtml(test.error ?? `got ${JSON.stringify(test.actual)}`)}</td>
+                          <td>${test.durationMs} ms</td>
+                        </tr>
+                      `).join('')}
+                    </table>
+                  ` : ''}
+
                   <div class="feedback">
                     <strong>Feedback:</strong> ${item.analysis?.feedback ?? 'No feedback available'}
                   </div>
@@ -263,6 +694,16 @@ export default function Results() {
                       }
                     </div>
                   </div>
+
+                  ${(item.followUps ?? []).map((followUp, followUpIndex) => `
+                    <div class="followup">
+                      <h5>Follow-up ${followUpIndex + 1}: ${escapeHtml(followUp.question.question)}</h5>
+                      <pre>${escapeHtml(followUp.answer)}</pre>
+                      <p class="score">Score: ${Math.round(followUp.analysis?.score || 0)} / 10</p>
+                      ${followUp.analysis?.needsReview ? '<p><span class="review-flag">Flagged for human review</span></p>' : ''}
+                      <p>${escapeHtml(followUp.analysis?.feedback ?? 'No feedback available')}</p>
+                    </div>
+                  `).join('')}
                 </div>
               `).join('')}
 
@@ -347,6 +788,15 @@ export default function Results() {
     return () => window.removeEventListener('scroll', handleScroll)
   }, [router])
 
+  // LLM usage is kept server-side, and only for interviews since the last restart
+  useEffect(() => {
+    if (!details?.interviewId) return
+    fetch(`/api/interviews/${details.interviewId}/usage`)
+      .then(response => (response.ok ? response.json() : null))
+      .then(setUsage)
+      .catch(error => console.warn('Loading interview usage failed:', error))
+  }, [details?.interviewId])
+
   useEffect(() => {
     const handleScroll = () => {
       setShowScrollTop(window.scrollY > 400)
@@ -410,12 +860,20 @@ export default function Results() {
               </div>
               <div>
                 <p className="text-sm text-gray-600">Difficulty Level</p>
-                <p className="font-medium text-gray-900">{details.difficulty}</p>
+                <p className="font-medium text-gray-900">
+                  {details.adaptive ? `Adaptive, from ${details.difficulty}` : details.difficulty}
+                </p>
               </div>
               <div>
                 <p className="text-sm text-gray-600">Questions Answered</p>
                 <p className="font-medium text-gray-900">{answers.length}</p>
               </div>
+              {details.blueprint && (
+                <div className="col-span-full">
+                  <p className="text-sm text-gray-600">Blueprint</p>
+                  <p className="font-medium text-gray-900">{details.blueprint}</p>
+                </div>
+              )}
             </div>
 
             {/* Overall Score */}
@@ -458,6 +916,98 @@ export default function Results() {
               <p className="text-sm text-gray-600">
                 Based on {answers.length} question{answers.length !== 1 ? 's' : ''} answered
               </p>
+              {technologyBreakdown.length > 0 && (
+                <div className="mt-4 p-4 bg-gray-50 rounded-lg text-sm space-y-3">
+                  <p className="text-gray-600">By Technology</p>
+                  {technologyBreakdown.map(entry => (
+                    <div key={entry.name}>
+                      <div className="flex items-baseline justify-between mb-1">
+                        <span className="font-medium text-gray-900">
+                          {entry.name}
+                          <span className="text-gray-500 font-normal"> (weight {entry.weight}, {entry.questions} question{entry.questions !== 1 ? 's' : ''})</span>
+                        </span>
+                        <span className="font-medium text-gray-900">
+                          {entry.questions > 0 ? `${Math.round(entry.percentage)}%` : 'Not asked'}
+                        </span>
+                      </div>
+                      <div className="w-full bg-gray-200 rounded-full h-2">
+                        <div
+                          className={`h-2 rounded-full ${
+                            entry.percentage >= 70 ? 'bg-green-600' :
+                            entry.percentage >= 50 ? 'bg-yellow-500' :
+                            'bg-red-500'
+                          }`}
+                          style={{ width: `${Math.min(entry.percentage, 100)}%` }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {details.adaptive && (
+                <div className="mt-4 p-4 bg-indigo-50 rounded-lg text-sm">
+                  <div className="flex items-baseline justify-between">
+                    <p className="text-gray-600">Estimated Ability</p>
+                    <p className="font-medium text-gray-900">{formatAbility(details.adaptive.ability)}</p>
+                  </div>
+                  {details.adaptive.trajectory.length > 0 && (
+                    <>
+                      <p className="mt-3 text-gray-600">Difficulty Trajectory</p>
+                      <ol className="mt-1 flex flex-wrap gap-2">
+                        {details.adaptive.trajectory.map(point => (
+                          <li
+                            key={point.questionNumber}
+                            className="px-2 py-1 bg-white border border-indigo-100 rounded"
+                            title={`Ability after this answer: ${formatAbility(point)}`}
+                          >
+                            Q{point.questionNumber} {point.difficulty}
+                            <span className="text-gray-500"> {point.questionType}, {point.score}/10</span>
+                          </li>
+                        ))}
+                      </ol>
+                    </>
+                  )}
+                </div>
+              )}
+              {usage && (
+                <div className="mt-4 grid grid-cols-2 sm:grid-cols-4 gap-4 p-4 bg-gray-50 rounded-lg text-sm">
+                  <div>
+                    <p className="text-gray-600">LLM Cost</p>
+                    <p className="font-medium text-gray-900">
+                      {formatCost(usage.totals.costUsd)}
+                      {usage.budget.costUsd !== undefined && (
+                        <span className="text-gray-500 font-normal"> of {formatCost(usage.budget.costUsd)}</span>
+                      )}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-gray-600">Tokens</p>
+                    <p className="font-medium text-gray-900">
+                      {usage.totals.totalTokens.toLocaleString()}
+                      <span className="text-gray-500 font-normal"> ({usage.totals.promptTokens.toLocaleString()} in / {usage.totals.completionTokens.toLocaleString()} out)</span>
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-gray-600">LLM Calls</p>
+                    <p className="font-medium text-gray-900">{usage.totals.calls}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-600">LLM Time</p>
+                    <p className="font-medium text-gray-900">{(usage.totals.latencyMs / 1000).toFixed(1)}s</p>
+                  </div>
+                  {usage.budget.exceeded && (
+                    <p className="col-span-2 sm:col-span-4 text-amber-700">
+                      This interview reached its LLM budget; no further questions could be generated.
+                    </p>
+                  )}
+                </div>
+              )}
+              {flaggedCount > 0 && (
+                <p className="mt-2 text-sm text-amber-700 flex items-center">
+                  <ExclamationCircleIcon className="w-5 h-5 mr-1" />
+                  {flaggedCount} answer{flaggedCount !== 1 ? 's' : ''} flagged for human review: the graders disagreed on the score or the answer may have tried to influence it
+                </p>
+              )}
             </div>
           </motion.div>
 
@@ -473,6 +1023,9 @@ export default function Results() {
               <div className="mb-6">
                 <h3 className="text-lg font-semibold text-gray-900 mb-2">
                   Question {index + 1}
+                  {item.technology && details.technologies && (
+                    <span className="ml-2 px-2 py-0.5 align-middle rounded-full text-xs font-medium bg-indigo-50 text-indigo-700">{item.technology}</span>
+                  )}
                 </h3>
                 <p className="text-gray-700">{item.question.question}</p>
               </div>
@@ -515,7 +1068,9 @@ export default function Results() {
 
               {/* User's Answer */}
               <div className="mb-6 p-4 bg-gray-50 rounded-lg">
-                <h4 className="text-sm font-medium text-gray-700 mb-2">Your Answer:</h4>
+                <h4 className="text-sm font-medium text-gray-700 mb-2">
+                  Your Answer{item.question.modelAnswer.isCode && item.language && item.language !== item.question.modelAnswer.language ? ` (${item.language})` : ''}:
+                </h4>
                 {item.question.modelAnswer.options ? (
                   // MCQ user answer display
                   <p className="text-gray-800">
@@ -528,7 +1083,7 @@ export default function Results() {
                 ) : item.question.modelAnswer.isCode ? (
                   // Code user answer display
                   <SyntaxHighlighter
-                    language={item.question.modelAnswer.language || 'javascript'}
+                    language={item.language || item.question.modelAnswer.language || 'javascript'}
                     style={vscDarkPlus}
                     className="rounded-md"
                   >
@@ -538,6 +1093,9 @@ export default function Results() {
                   // Regular text user answer display
                   <p className="text-gray-800 whitespace-pre-wrap">{item.answer}</p>
                 )}
+                {item.question.modelAnswer.isCode && item.editLog && (
+                  <EditReplay log={item.editLog} language={item.language} />
+                )}
               </div>
 
               {/* Analysis */}
@@ -576,6 +1134,268 @@ export default function Results() {
                     </div>
                   </div>
 
+                  {/* Grading Consensus */}
+                  {item.analysis.consensus && (
+                    <div className="mt-3 flex flex-wrap items-center gap-2 text-sm text-gray-600">
+                      <span>
+                        Consensus of {item.analysis.consensus.samples} gradings ({item.analysis.consensus.method}):{' '}
+                        {item.analysis.consensus.scores.join(', ')}
+                      </span>
+                      <span className="text-gray-400">&middot;</span>
+                      <span>Confidence {Math.round(item.analysis.consensus.confidence * 100)}%</span>
+                      {item.analysis.needsReview && (
+                        <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-amber-50 text-amber-700 border border-amber-200">
+                          Flagged for human review
+                        </span>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Integrity Flags */}
+                  {item.analysis.integrityFlags && item.analysis.integrityFlags.length > 0 && (
+                    <div className="mt-3 p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-800">
+                      <div className="flex items-center gap-2 font-medium">
+                        Possible attempt to influence the grade
+                        {!item.analysis.consensus && (
+                          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-amber-50 text-amber-700 border border-amber-200">
+                            Flagged for human review
+                          </span>
+                        )}
+                      </div>
+                      <ul className="mt-2 space-y-1 list-disc list-inside">
+                        {item.analysis.integrityFlags.map((flag, flagIndex) => (
+                          <li key={flagIndex}>
+                            {flag.message}
+                            {flag.excerpt && (
+                              <code className="ml-1 px-1 rounded bg-red-100 text-xs break-all">{flag.excerpt}</code>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {/* Prompt Versions and Usage */}
+                  {(() => {
+                    const questionUsage = usage?.byQuestion.find(entry => entry.questionNumber === index + 1)?.totals
+                    const askedAt = details.adaptive?.trajectory.find(point => point.questionNumber === index + 1)
+                    const meta = [
+                      askedAt && `Asked at ${askedAt.difficulty}, ability after ${formatAbility(askedAt)}`,
+                      item.question.promptVersion && `Question prompt ${item.question.promptVersion}`,
+                      item.analysis.promptVersion && `Grading prompt ${item.analysis.promptVersion}`,
+                      questionUsage && `${questionUsage.totalTokens.toLocaleString()} tokens, ${formatCost(questionUsage.costUsd)}`,
+                    ].filter(Boolean)
+                    return meta.length > 0 && (
+                      <p className="mt-2 text-xs text-gray-400">{meta.join(' \u00b7 ')}</p>
+                    )
+                  })()}
+
+                  {/* Rubric Breakdown */}
+                  {item.analysis.criteria && item.analysis.criteria.length > 0 && (
+                    <div className="mt-6">
+                      <h4 className="text-sm font-medium text-gray-600 mb-3">Score Breakdown:</h4>
+                      <div className="space-y-3">
+                        {item.analysis.criteria.map((criterion) => (
+                          <div key={criterion.id}>
+                            <div className="flex items-center justify-between text-sm mb-1">
+                              <span className="text-gray-700">
+                                {criterion.name}
+                                <span className="text-gray-400 ml-1">(weight {criterion.weight})</span>
+                              </span>
+                              <span className="font-medium text-gray-900">{criterion.score} / 10</span>
+                            </div>
+                            <div className="w-full bg-gray-200 rounded-full h-1.5">
+                              <div
+                                className="h-1.5 rounded-full bg-indigo-500"
+                                style={{ width: `${Math.min(criterion.score * 10, 100)}%` }}
+                              />
+                            </div>
+                            {criterion.feedback && (
+                              <p className="text-xs text-gray-500 mt-1">{criterion.feedback}</p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {item.analysis.rubricItems && item.analysis.rubricItems.length > 0 && (
+                    <div className="mt-6">
+                      <h4 className="text-sm font-medium text-gray-600 mb-3">Rubric:</h4>
+                      <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                        {item.analysis.rubricItems.map((rubricItem, rubricIndex) => (
+                          <li key={rubricIndex} className="flex items-start justify-between gap-4 p-3 text-sm">
+                            <div>
+                              <p className="text-gray-800">{rubricItem.topic}</p>
+                              {rubricItem.comment && (
+                                <p className="text-xs text-gray-500 mt-1">{rubricItem.comment}</p>
+                              )}
+                            </div>
+                            <div className="flex items-center gap-2 shrink-0">
+                              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${VERDICT_STYLES[rubricItem.verdict]}`}>
+                                {rubricItem.verdict}
+                              </span>
+                              <span className="text-gray-600">{rubricItem.points} / {rubricItem.maxPoints}</span>
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {/* Test Results */}
+                  {item.analysis.execution && (
+                    <div className="mt-6">
+                      <div className="flex flex-wrap items-baseline justify-between gap-2 mb-3">
+                        <h4 className="text-sm font-medium text-gray-600">
+                          Tests: {item.analysis.execution.passed} / {item.analysis.execution.total} passed
+                        </h4>
+                        <span className="text-xs text-gray-500">
+                          {EXECUTION_STATUS_LABELS[item.analysis.execution.status]} &middot; {item.analysis.execution.language} &middot; {item.analysis.execution.runtimeMs} ms
+                          {item.analysis.llmScore !== undefined && ` \u00b7 grader's score ${item.analysis.llmScore} / 10`}
+                        </span>
+                      </div>
+                      {item.analysis.execution.error && (
+                        <p className="mb-3 p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-800 font-mono whitespace-pre-wrap">
+                          {item.analysis.execution.error}
+                        </p>
+                      )}
+                      <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                        {item.analysis.execution.tests.map((test, testIndex) => (
+                          <li key={testIndex} className="p-3 text-sm">
+                            <div className="flex items-start justify-between gap-4">
+                              <div className="min-w-0">
+                                <p className="text-gray-800">
+                                  {test.name}
+                                  {test.hidden && <span className="ml-2 text-xs text-gray-400">hidden</span>}
+                                </p>
+                                {test.args && (
+                                  <code className="text-xs text-gray-500 break-all">
+                                    {describeCall(item.question.functionName, test.args)}
+                                  </code>
+                                )}
+                              </div>
+                              <div className="flex items-center gap-2 shrink-0">
+                                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${VERDICT_STYLES[test.passed ? 'pass' : 'fail']}`}>
+                                  {test.passed ? 'pass' : 'fail'}
+                                </span>
+                                <span className="text-xs text-gray-500">{test.durationMs} ms</span>
+                              </div>
+                            </div>
+                            {!test.passed && !test.hidden && (
+                              <p className="mt-1 text-xs text-gray-600 font-mono break-all">
+                                Expected {JSON.stringify(test.expected)}
+                                {test.error ? `, got ${test.error}` : `, got ${JSON.stringify(test.actual)}`}
+                              </p>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                      {(item.analysis.execution.stdout || item.analysis.execution.stderr) && (
+                        <div className="mt-3 grid gap-3 md:grid-cols-2">
+                          {item.analysis.execution.stdout && (
+                            <div>
+                              <h5 className="text-xs font-medium text-gray-500 mb-1">stdout</h5>
+                              <pre className="p-2 rounded bg-gray-900 text-gray-100 text-xs overflow-auto max-h-48">{item.analysis.execution.stdout}</pre>
+                            </div>
+                          )}
+                          {item.analysis.execution.stderr && (
+                            <div>
+                              <h5 className="text-xs font-medium text-gray-500 mb-1">stderr</h5>
+                              <pre className="p-2 rounded bg-gray-900 text-red-200 text-xs overflow-auto max-h-48">{item.analysis.execution.stderr}</pre>
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Code Quality */}
+                  {item.analysis.staticAnalysis && (
+                    <div className="mt-6">
+                      <div className="flex flex-wrap items-baseline justify-between gap-2 mb-3">
+                        <h4 className="text-sm font-medium text-gray-600">Code quality</h4>
+                        <span className="text-xs text-gray-500">
+                          Static analysis &middot; {item.analysis.staticAnalysis.language} &middot; {item.analysis.staticAnalysis.lines} lines
+                        </span>
+                      </div>
+                      {item.analysis.staticAnalysis.parseErrors.length > 0 && (
+                        <ul className="mb-3 p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-800 font-mono space-y-1">
+                          {item.analysis.staticAnalysis.parseErrors.map((parseError, errorIndex) => (
+                            <li key={errorIndex}>
+                              {parseError.line !== undefined && `Line ${parseError.line}: `}{parseError.message}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-3">
+                        <div className="p-3 rounded-lg border border-gray-200">
+                          <p className="text-xs text-gray-500">Cyclomatic complexity</p>
+                          <span className={`inline-block mt-1 px-2 py-0.5 rounded-full text-sm font-medium ${VERDICT_STYLES[complexityVerdict(item.analysis.staticAnalysis.maxComplexity)]}`}>
+                            {item.analysis.staticAnalysis.maxComplexity}
+                          </span>
+                        </div>
+                        <div className="p-3 rounded-lg border border-gray-200">
+                          <p className="text-xs text-gray-500">Deepest nesting</p>
+                          <span className={`inline-block mt-1 px-2 py-0.5 rounded-full text-sm font-medium ${VERDICT_STYLES[nestingVerdict(item.analysis.staticAnalysis.maxNesting)]}`}>
+                            {item.analysis.staticAnalysis.maxNesting}
+                          </span>
+                        </div>
+                        <div className="p-3 rounded-lg border border-gray-200">
+                          <p className="text-xs text-gray-500">Big-O hint</p>
+                          <p className="mt-1 text-sm font-medium text-gray-800 font-mono">{item.analysis.staticAnalysis.bigO.estimate}</p>
+                        </div>
+                        <div className="p-3 rounded-lg border border-gray-200">
+                          <p className="text-xs text-gray-500">Lint findings</p>
+                          <p className="mt-1 text-sm font-medium text-gray-800">{item.analysis.staticAnalysis.lint.length}</p>
+                        </div>
+                      </div>
+                      <p className="mb-3 text-xs text-gray-500">{item.analysis.staticAnalysis.bigO.reason}</p>
+                      {item.analysis.staticAnalysis.functions.length > 0 && (
+                        <table className="w-full mb-3 text-sm border border-gray-200 rounded-lg">
+                          <thead className="bg-gray-50 text-xs text-gray-500">
+                            <tr>
+                              <th className="p-2 text-left font-medium">Function</th>
+                              <th className="p-2 text-right font-medium">Complexity</th>
+                              <th className="p-2 text-right font-medium">Nesting</th>
+                              <th className="p-2 text-right font-medium">Loop depth</th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-gray-100">
+                            {item.analysis.staticAnalysis.functions.map((fn, fnIndex) => (
+                              <tr key={fnIndex}>
+                                <td className="p-2 font-mono text-xs text-gray-800">
+                                  {fn.name} <span className="text-gray-400">line {fn.line}</span>
+                                  {fn.recursive && <span className="ml-2 text-gray-400">recursive</span>}
+                                </td>
+                                <td className="p-2 text-right text-gray-700">{fn.complexity}</td>
+                                <td className="p-2 text-right text-gray-700">{fn.nesting}</td>
+                                <td className="p-2 text-right text-gray-700">{fn.loopDepth}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                      {item.analysis.staticAnalysis.lint.length > 0 && (
+                        <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                          {item.analysis.staticAnalysis.lint.map((finding, findingIndex) => (
+                            <li key={findingIndex} className="p-2 text-sm flex items-start gap-3">
+                              <span className={`shrink-0 px-2 py-0.5 rounded-full text-xs font-medium ${
+                                finding.severity === 'warning' ? VERDICT_STYLES.partial : 'bg-gray-100 text-gray-600 border border-gray-200'
+                              }`}>
+                                {finding.severity}
+                              </span>
+                              <span className="text-gray-800">
+                                <span className="text-xs text-gray-500 font-mono mr-2">line {finding.line} &middot; {finding.rule}</span>
+                                {finding.message}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+
                   {/* Feedback */}
                   <div className="mt-6 space-y-4">
                     <div className="bg-white rounded-lg border border-gray-200 shadow-sm">
@@ -634,6 +1454,55 @@ export default function Results() {
                   </div>
                 </div>
               )}
+
+              {/* Follow-up Thread */}
+              {item.followUps && item.followUps.length > 0 && (
+                <div className="mt-6">
+                  <h4 className="text-sm font-medium text-gray-600 mb-3">Follow-up Questions:</h4>
+                  <div className="space-y-4 border-l-2 border-indigo-200 pl-4">
+                    {item.followUps.map((followUp, followUpIndex) => (
+                      <div key={followUpIndex}>
+                        <div className="flex items-start justify-between gap-4">
+                          <p className="text-gray-900 font-medium">
+                            <span className="text-indigo-600">Follow-up {followUpIndex + 1}:</span> {followUp.question.question}
+                          </p>
+                          {followUp.analysis && (
+                            <span className={`shrink-0 text-sm font-semibold ${
+                              followUp.analysis.score >= 7 ? 'text-green-600' :
+                              followUp.analysis.score >= 5 ? 'text-yellow-600' :
+                              'text-red-600'
+                            }`}>
+                              {Math.round(followUp.analysis.score)} / 10
+                            </span>
+                          )}
+                        </div>
+                        <p className="mt-2 p-3 bg-gray-50 rounded-lg text-gray-800 whitespace-pre-wrap">{followUp.answer}</p>
+                        {followUp.analysis?.needsReview && (
+                          <p className="mt-2 text-sm text-amber-700 flex items-center">
+                            <ExclamationCircleIcon className="w-5 h-5 mr-1" />
+                            Flagged for human review
+                          </p>
+                        )}
+                        {followUp.analysis && (
+                          <p className="mt-2 text-sm text-gray-700">{followUp.analysis.feedback}</p>
+                        )}
+                        {followUp.analysis && followUp.analysis.missingTopics.length > 0 && (
+                          <div className="mt-2 flex flex-wrap gap-2">
+                            {followUp.analysis.missingTopics.map((topic, topicIndex) => (
+                              <span
+                                key={topicIndex}
+                                className="inline-flex items-center px-2 py-0.5 rounded-full text-xs bg-amber-50 text-amber-700 border border-amber-200"
+                              >
+                                {topic}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </motion.div>
           ))}
         </div>
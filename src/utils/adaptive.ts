@@ -0,0 +1,148 @@
+// Adaptive interviews: each graded answer updates an estimate of the
+// candidate's ability, and the next question is the one expected to tell us
+// the most about it. Ability follows a two-parameter logistic (IRT) model
+// where a question of difficulty b is answered well with probability
+// 1 / (1 + e^(-a(theta - b))), and a 0-10 score counts as that fraction of a
+// correct answer. Question types are the topics: each keeps its own estimate,
+// and the least certain one is asked about next.
+//
+// This module has no server dependencies so the interview page can use it.
+
+export type DifficultyLabel = 'Easy' | 'Medium' | 'Hard';
+
+// Item difficulty (b) of each level on the ability scale
+const ITEM_DIFFICULTY: { [label in DifficultyLabel]: number } = {
+  Easy: -1,
+  Medium: 0,
+  Hard: 1,
+};
+
+const DIFFICULTY_LABELS = Object.keys(ITEM_DIFFICULTY) as DifficultyLabel[];
+
+// Discrimination (a): how sharply a question separates weaker from stronger candidates
+const DISCRIMINATION = 1.5;
+const PRIOR_SD = 1;
+// How far a single question type may stray from the overall estimate before evidence
+const TOPIC_PRIOR_SD = 0.75;
+const GRID_MIN = -4;
+const GRID_MAX = 4;
+const GRID_STEP = 0.05;
+
+export interface AdaptiveResponse {
+  questionType: string;
+  difficulty: DifficultyLabel;
+  // 0-10, as graded by /api/analyze
+  score: number;
+}
+
+export interface AbilityEstimate {
+  theta: number;
+  standardError: number;
+}
+
+export interface AdaptiveSlot {
+  questionType: string;
+  difficulty: DifficultyLabel;
+}
+
+export interface TrajectoryPoint extends AdaptiveResponse, AbilityEstimate {
+  questionNumber: number;
+}
+
+const GRID: number[] = Array.from(
+  { length: Math.round((GRID_MAX - GRID_MIN) / GRID_STEP) + 1 },
+  (_, i) => GRID_MIN + i * GRID_STEP
+);
+
+/** Maps a difficulty from the query string onto a level, defaulting to Medium. */
+export function toDifficultyLabel(difficulty?: string | null): DifficultyLabel {
+  const normalized = difficulty?.trim().toLowerCase();
+  return DIFFICULTY_LABELS.find(label => label.toLowerCase() === normalized) ?? 'Medium';
+}
+
+function probability(theta: number, difficulty: DifficultyLabel): number {
+  return 1 / (1 + Math.exp(-DISCRIMINATION * (theta - ITEM_DIFFICULTY[difficulty])));
+}
+
+/** Fisher information a question of this difficulty carries at ability theta. */
+export function itemInformation(theta: number, difficulty: DifficultyLabel): number {
+  const p = probability(theta, difficulty);
+  return DISCRIMINATION * DISCRIMINATION * p * (1 - p);
+}
+
+// Expected a posteriori estimate over the grid, with a normal prior
+function posterior(responses: AdaptiveResponse[], priorMean: number, priorSd: number): AbilityEstimate {
+  const logWeights = GRID.map(theta => {
+    let logWeight = -((theta - priorMean) ** 2) / (2 * priorSd * priorSd);
+    for (const response of responses) {
+      const x = Math.min(Math.max(response.score / 10, 0), 1);
+      const p = probability(theta, response.difficulty);
+      logWeight += x * Math.log(p) + (1 - x) * Math.log(1 - p);
+    }
+    return logWeight;
+  });
+
+  // Subtract the maximum so the exponentials don't underflow
+  const max = Math.max(...logWeights);
+  const weights = logWeights.map(logWeight => Math.exp(logWeight - max));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const theta = weights.reduce((sum, weight, i) => sum + weight * GRID[i], 0) / total;
+  const variance = weights.reduce((sum, weight, i) => sum + weight * (GRID[i] - theta) ** 2, 0) / total;
+
+  return { theta, standardError: Math.sqrt(variance) };
+}
+
+/** Ability after the given responses, starting from the interview's configured difficulty. */
+export function estimateAbility(responses: AdaptiveResponse[], startingDifficulty: DifficultyLabel): AbilityEstimate {
+  return posterior(responses, ITEM_DIFFICULTY[startingDifficulty], PRIOR_SD);
+}
+
+/**
+ * Picks the next question: the type whose estimate is least certain (ties go
+ * to the type the fixed rotation would have asked), at the difficulty that
+ * carries the most information at that type's estimated ability.
+ */
+export function selectNextSlot(
+  responses: AdaptiveResponse[],
+  types: string[],
+  startingDifficulty: DifficultyLabel,
+  questionNumber: number
+): AdaptiveSlot {
+  const overall = estimateAbility(responses, startingDifficulty);
+  const rotation = (questionNumber - 1) % types.length;
+  const candidates = [...types.slice(rotation), ...types.slice(0, rotation)];
+
+  let best: { questionType: string; estimate: AbilityEstimate } | null = null;
+  for (const questionType of candidates) {
+    const estimate = posterior(
+      responses.filter(response => response.questionType === questionType),
+      overall.theta,
+      TOPIC_PRIOR_SD
+    );
+    if (!best || estimate.standardError > best.estimate.standardError + 1e-6) {
+      best = { questionType, estimate };
+    }
+  }
+
+  const theta = best!.estimate.theta;
+  const difficulty = DIFFICULTY_LABELS.reduce((a, b) => itemInformation(theta, b) > itemInformation(theta, a) ? b : a);
+  return { questionType: best!.questionType, difficulty };
+}
+
+/** The estimate after each response in turn. */
+export function abilityTrajectory(
+  responses: (AdaptiveResponse & { questionNumber: number })[],
+  startingDifficulty: DifficultyLabel
+): TrajectoryPoint[] {
+  return responses.map((response, i) => ({
+    ...response,
+    ...estimateAbility(responses.slice(0, i + 1), startingDifficulty),
+  }));
+}
+
+/** The difficulty level an ability estimate is closest to. */
+export function describeAbility(theta: number): DifficultyLabel {
+  return DIFFICULTY_LABELS.reduce((a, b) =>
+    Math.abs(theta - ITEM_DIFFICULTY[b]) < Math.abs(theta - ITEM_DIFFICULTY[a]) ? b : a
+  );
+}
@@ -0,0 +1,34 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+
+// Admin routes (question bank, internal technology edits) need the token from
+// ADMIN_TOKEN as `Authorization: Bearer <token>`. Without ADMIN_TOKEN they
+// are disabled.
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Returns the error response for a request that may not use admin routes,
+ * or null when it carries the configured token.
+ */
+export function requireAdmin(request: Request): NextResponse | null {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) {
+    return NextResponse.json(
+      { error: 'Admin routes are disabled: ADMIN_TOKEN is not configured' },
+      { status: 403 }
+    );
+  }
+
+  const match = /^Bearer\s+(.+)$/i.exec(request.headers.get('authorization') ?? '');
+  if (!match || !timingSafeEqual(digest(match[1].trim()), digest(token))) {
+    return NextResponse.json(
+      { error: 'Admin token required' },
+      { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+    );
+  }
+
+  return null;
+}
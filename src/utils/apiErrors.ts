@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server';
+import { LLMError, LLMErrorCode, LLMProviderError, RateLimitError } from './llm';
+import { StructuredOutputError } from './structured';
+
+const LLM_ERROR_STATUS: { [key in LLMErrorCode]: number } = {
+  LLM_TIMEOUT: 504,
+  // Client closed the request; nobody will read the response
+  LLM_ABORTED: 499,
+  LLM_CIRCUIT_OPEN: 503,
+  LLM_UPSTREAM_ERROR: 502,
+  LLM_FALLBACKS_EXHAUSTED: 503,
+  LLM_BUDGET_EXCEEDED: 402,
+};
+
+export interface ApiErrorDescription {
+  status: number;
+  body: { error: string; code: string; [key: string]: unknown };
+  headers?: { [key: string]: string };
+}
+
+/**
+ * Describes errors from the LLM layer as an API status and body with a
+ * machine-readable `code`. Returns null for errors the caller should handle
+ * itself.
+ */
+export function describeLLMError(error: unknown, message: string): ApiErrorDescription | null {
+  if (error instanceof RateLimitError) {
+    const retryAfterSeconds = Math.ceil(error.retryAfterMs / 1000);
+    return {
+      status: 429,
+      body: {
+        error: error.message,
+        code: error.code,
+        queuePosition: error.queuePosition,
+        retryAfterSeconds
+      },
+      headers: { 'Retry-After': String(retryAfterSeconds) }
+    };
+  }
+
+  if (error instanceof LLMProviderError && error.status === 429) {
+    const retryAfterSeconds = Math.ceil((error.retryAfterMs ?? 5000) / 1000);
+    return {
+      status: 429,
+      body: {
+        error: 'Rate limit exceeded. Please wait a moment before trying again.',
+        code: 'UPSTREAM_RATE_LIMITED',
+        retryAfterSeconds
+      },
+      headers: { 'Retry-After': String(retryAfterSeconds) }
+    };
+  }
+
+  if (error instanceof LLMError) {
+    return {
+      status: LLM_ERROR_STATUS[error.code],
+      body: {
+        error: error.message,
+        code: error.code,
+        attempts: error.attempts.length > 0 ? error.attempts : undefined
+      }
+    };
+  }
+
+  if (error instanceof StructuredOutputError) {
+    return {
+      status: 502,
+      body: {
+        error: message,
+        code: error.code,
+        attempts: error.attempts,
+        violations: error.violations
+      }
+    };
+  }
+
+  return null;
+}
+
+export function llmErrorResponse(error: unknown, message: string): NextResponse | null {
+  const description = describeLLMError(error, message);
+  if (!description) {
+    return null;
+  }
+
+  return NextResponse.json(description.body, {
+    status: description.status,
+    headers: description.headers
+  });
+}
@@ -0,0 +1,232 @@
+import { Schema, SchemaViolation, validate } from './schema';
+
+// Interview blueprints: which questions an interview asks, as sections such
+// as "2 MCQ warm-ups, 2 coding, 1 design". Each section has a question type,
+// a share of the interview and optionally its own difficulty and topics; the
+// blueprint says how sections are ordered. Blueprints travel in the interview
+// URL, so this module has no server dependencies.
+
+export type BlueprintOrder = 'sequential' | 'interleaved' | 'shuffled';
+
+export interface BlueprintSection {
+  name?: string;
+  questionType: 'mcq' | 'subjective' | 'coding';
+  // Exactly this many questions...
+  count?: number;
+  // ...or this share of the questions no section has a count for
+  percentage?: number;
+  // Overrides the interview's difficulty
+  difficulty?: string;
+  // Each question in the section is about the next of these, in turn
+  topics?: string[];
+}
+
+export interface Blueprint {
+  sections: BlueprintSection[];
+  // sequential (default): section by section; interleaved: one from each
+  // section in turn; shuffled: random, but fixed for an interview
+  order?: BlueprintOrder;
+  // Topics the interview must cover, one each for questions whose section
+  // doesn't set its own
+  topics?: string[];
+}
+
+export interface PlannedQuestion {
+  questionType: string;
+  // Absent when the section uses the interview's difficulty
+  difficulty?: string;
+  topic?: string;
+  section: string;
+}
+
+const topicList: Schema = { type: 'array', items: { type: 'string', minLength: 1 }, optional: true };
+
+export const blueprintSchema: Schema = {
+  type: 'object',
+  properties: {
+    sections: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', minLength: 1, optional: true },
+          questionType: { type: 'string', enum: ['mcq', 'subjective', 'coding'] },
+          count: { type: 'number', integer: true, min: 1, max: 20, optional: true },
+          percentage: { type: 'number', min: 1, max: 100, optional: true },
+          difficulty: { type: 'string', enum: ['Easy', 'Medium', 'Hard'], optional: true },
+          topics: topicList,
+        },
+      },
+    },
+    order: { type: 'string', enum: ['sequential', 'interleaved', 'shuffled'], optional: true },
+    topics: topicList,
+  },
+};
+
+export const MAX_BLUEPRINT_QUESTIONS = 20;
+
+function sectionName(section: BlueprintSection, index: number): string {
+  return section.name?.trim() || `Section ${index + 1}`;
+}
+
+/**
+ * How many questions a blueprint asks. Sections with counts are fixed; when
+ * any section uses a percentage the interview length is `requested`.
+ */
+export function blueprintLength(blueprint: Blueprint, requested?: number): number {
+  const usesPercentages = blueprint.sections.some(section => section.count === undefined);
+  return usesPercentages
+    ? requested ?? 0
+    : blueprint.sections.reduce((sum, section) => sum + (section.count ?? 0), 0);
+}
+
+// Questions per section: counts as given, the rest split by percentage with
+// leftover questions going to the largest remainders
+function allocate(blueprint: Blueprint, total: number): number[] {
+  const counted = blueprint.sections.reduce((sum, section) => sum + (section.count ?? 0), 0);
+  const remaining = Math.max(total - counted, 0);
+  const weights = blueprint.sections.map(section => (section.count === undefined ? section.percentage ?? 0 : 0));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  const exact = weights.map(weight => (totalWeight > 0 ? (remaining * weight) / totalWeight : 0));
+  const counts = blueprint.sections.map((section, index) => section.count ?? Math.floor(exact[index]));
+  let leftover = total - counts.reduce((sum, count) => sum + count, 0);
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .filter(({ index }) => blueprint.sections[index].count === undefined)
+    .sort((a, b) => b.remainder - a.remainder);
+  for (let i = 0; leftover > 0 && byRemainder.length > 0; i++, leftover--) {
+    counts[byRemainder[i % byRemainder.length].index] += 1;
+  }
+  return counts;
+}
+
+/** Problems with a blueprint, as JSON paths and messages; empty when it's usable. */
+export function checkBlueprint(input: unknown, requested?: number, basePath = '$'): SchemaViolation[] {
+  const violations = validate(blueprintSchema, input, basePath);
+  if (violations.length > 0) {
+    return violations;
+  }
+
+  const blueprint = input as Blueprint;
+  blueprint.sections.forEach((section, index) => {
+    if ((section.count === undefined) === (section.percentage === undefined)) {
+      violations.push({ path: `${basePath}.sections[${index}]`, message: 'needs either a count or a percentage' });
+    }
+  });
+  if (violations.length > 0) {
+    return violations;
+  }
+
+  const total = blueprintLength(blueprint, requested);
+  const counted = blueprint.sections.reduce((sum, section) => sum + (section.count ?? 0), 0);
+  if (blueprint.sections.some(section => section.count === undefined)) {
+    if (!requested) {
+      violations.push({ path: basePath, message: 'uses percentages, so the number of questions must be given' });
+    } else if (counted >= requested) {
+      violations.push({ path: basePath, message: `counts add up to ${counted}, leaving nothing for the percentage sections of a ${requested}-question interview` });
+    }
+  }
+  if (total > MAX_BLUEPRINT_QUESTIONS) {
+    violations.push({ path: basePath, message: `asks ${total} questions (at most ${MAX_BLUEPRINT_QUESTIONS})` });
+  }
+  if (violations.length === 0 && blueprint.topics) {
+    const open = expandBlueprint({ ...blueprint, topics: undefined }, requested).filter(question => !question.topic).length;
+    if (blueprint.topics.length > open) {
+      violations.push({
+        path: `${basePath}.topics`,
+        message: `lists ${blueprint.topics.length} topics but only ${open} question${open === 1 ? ' is' : 's are'} free to cover them`,
+      });
+    }
+  }
+  return violations;
+}
+
+// Small seeded generator, so a shuffled interview keeps its order across reloads
+function seededRandom(seed: string): () => number {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) {
+    state = (Math.imul(state, 31) + seed.charCodeAt(i)) | 0;
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Lays a blueprint out as the questions of an interview, in order. `seed`
+ * fixes the order of shuffled blueprints; pass the interview id.
+ */
+export function expandBlueprint(blueprint: Blueprint, requested?: number, seed = ''): PlannedQuestion[] {
+  const counts = allocate(blueprint, blueprintLength(blueprint, requested));
+  const sections = blueprint.sections.map((section, index) =>
+    Array.from({ length: counts[index] }, (_, i): PlannedQuestion => ({
+      questionType: section.questionType,
+      difficulty: section.difficulty,
+      topic: section.topics && section.topics.length > 0 ? section.topics[i % section.topics.length] : undefined,
+      section: sectionName(section, index),
+    }))
+  );
+
+  let plan: PlannedQuestion[];
+  if (blueprint.order === 'interleaved') {
+    plan = [];
+    const longest = Math.max(...sections.map(questions => questions.length));
+    for (let i = 0; i < longest; i++) {
+      sections.forEach(questions => {
+        if (i < questions.length) plan.push(questions[i]);
+      });
+    }
+  } else {
+    plan = sections.flat();
+    if (blueprint.order === 'shuffled') {
+      const random = seededRandom(seed);
+      for (let i = plan.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [plan[i], plan[j]] = [plan[j], plan[i]];
+      }
+    }
+  }
+
+  // Give each interview-wide topic to the next question without one
+  const required = blueprint.topics ?? [];
+  let next = 0;
+  return plan.map(question => (
+    question.topic || next >= required.length ? question : { ...question, topic: required[next++] }
+  ));
+}
+
+/** Reads a blueprint from the interview URL. Returns null when it's missing or unusable. */
+export function parseBlueprint(value: string | null | undefined, requested?: number): Blueprint | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    const blueprint = JSON.parse(value);
+    const violations = checkBlueprint(blueprint, requested);
+    if (violations.length > 0) {
+      console.error('Ignoring invalid interview blueprint:', violations);
+      return null;
+    }
+    return blueprint;
+  } catch (error) {
+    console.error('Ignoring interview blueprint that is not valid JSON:', error);
+    return null;
+  }
+}
+
+/** A one-line description, e.g. "2 MCQ (Warm-up), 2 coding, 1 subjective". */
+export function describeBlueprint(blueprint: Blueprint, requested?: number): string {
+  const counts = allocate(blueprint, blueprintLength(blueprint, requested));
+  return blueprint.sections
+    .map((section, index) => {
+      const type = section.questionType === 'mcq' ? 'MCQ' : section.questionType;
+      return `${counts[index]} ${type}${section.name?.trim() ? ` (${section.name.trim()})` : ''}`;
+    })
+    .join(', ');
+}
@@ -0,0 +1,46 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { getDataDir } from '../fileStore';
+import { CacheBackend, CacheEntry } from './types';
+
+// One JSON file per entry under DATA_DIR/cache. Keys are hex digests, so
+// they are safe to use as file names as they are.
+
+function entryPath(key: string): string {
+  return path.join(getDataDir(), 'cache', `${key}.json`);
+}
+
+export function createFileBackend(): CacheBackend {
+  return {
+    async get(key) {
+      let entry: CacheEntry;
+      try {
+        entry = JSON.parse(await fs.readFile(entryPath(key), 'utf8')) as CacheEntry;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+
+      if (entry.expiresAt <= Date.now()) {
+        await fs.rm(entryPath(key), { force: true });
+        return null;
+      }
+      return entry;
+    },
+
+    async set(key, entry) {
+      const filePath = entryPath(key);
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(entry));
+      await fs.rename(tempPath, filePath);
+    },
+
+    async delete(key) {
+      await fs.rm(entryPath(key), { force: true });
+    },
+  };
+}
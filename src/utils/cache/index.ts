@@ -0,0 +1,113 @@
+import { createHash } from 'crypto';
+import { LLMTask } from '../llm';
+import { createFileBackend } from './file';
+import { createMemoryBackend } from './memory';
+import { createSqliteBackend } from './sqlite';
+import { CacheBackend, CacheBackendName, CacheControl, CacheStatus } from './types';
+
+export * from './types';
+
+// Content-addressed cache for LLM results. Entries are keyed by a hash of
+// the prompt version, the models that would serve the call and the inputs,
+// so changing any of them misses rather than serving a stale result.
+//
+// Environment variables:
+// - LLM_CACHE: memory (default) | file | sqlite | off
+// - LLM_CACHE_TTL_SECONDS: entry lifetime (default 86400), overridden per
+//   task by LLM_CACHE_QUESTION_TTL_SECONDS / LLM_CACHE_GRADING_TTL_SECONDS
+// - LLM_CACHE_MAX_ENTRIES: memory backend size (default 500)
+// - LLM_CACHE_SQLITE_PATH: sqlite database (default DATA_DIR/cache.sqlite)
+
+const BACKENDS: { [key in CacheBackendName]: () => CacheBackend } = {
+  memory: createMemoryBackend,
+  file: createFileBackend,
+  sqlite: createSqliteBackend,
+};
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+
+export interface CacheKeyParts {
+  task: LLMTask;
+  promptVersion: string;
+  // provider:model for every model that might serve the call
+  models: string[];
+  inputs: unknown;
+}
+
+function getBackendName(): CacheBackendName | null {
+  const configured = (process.env.LLM_CACHE || 'memory').trim().toLowerCase();
+  if (configured === 'off') {
+    return null;
+  }
+  if (!Object.prototype.hasOwnProperty.call(BACKENDS, configured)) {
+    throw new Error(`LLM_CACHE must be one of ${Object.keys(BACKENDS).join(', ')} or off (got "${process.env.LLM_CACHE}")`);
+  }
+  return configured as CacheBackendName;
+}
+
+function getTtlMs(task: LLMTask): number {
+  const perTask = Number(process.env[task === 'question' ? 'LLM_CACHE_QUESTION_TTL_SECONDS' : 'LLM_CACHE_GRADING_TTL_SECONDS']);
+  const configured = Number(process.env.LLM_CACHE_TTL_SECONDS);
+  const seconds = perTask > 0 ? perTask : configured > 0 ? configured : DEFAULT_TTL_SECONDS;
+  return seconds * 1000;
+}
+
+// JSON with object keys sorted, so equal inputs always hash the same
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort()
+      .filter(key => (value as { [key: string]: unknown })[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as { [key: string]: unknown })[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+export function cacheKey(parts: CacheKeyParts): string {
+  return createHash('sha256').update(canonicalJson(parts)).digest('hex');
+}
+
+/**
+ * Returns the cached result for `parts`, or runs `compute` and caches what
+ * it returns. Failures are never cached, and a cache that can't be read or
+ * written is logged and skipped rather than failing the call.
+ */
+export async function cached<T>(parts: CacheKeyParts, control: CacheControl = {}, compute: () => Promise<T>): Promise<T> {
+  const backendName = getBackendName();
+  if (!backendName) {
+    return compute();
+  }
+
+  const backend = BACKENDS[backendName]();
+  const key = cacheKey(parts);
+  const report = (status: CacheStatus) => {
+    console.log('LLM cache:', { task: parts.task, status, backend: backendName, key: key.slice(0, 16) });
+    control.onStatus?.(status);
+  };
+
+  if (!control.bypass) {
+    try {
+      const entry = await backend.get(key);
+      if (entry) {
+        report('hit');
+        return entry.value as T;
+      }
+    } catch (error) {
+      console.error('Reading the LLM cache failed:', error);
+    }
+  }
+
+  const value = await compute();
+  report(control.bypass ? 'bypass' : 'miss');
+
+  const now = Date.now();
+  try {
+    await backend.set(key, { value, createdAt: now, expiresAt: now + getTtlMs(parts.task) });
+  } catch (error) {
+    console.error('Writing the LLM cache failed:', error);
+  }
+  return value;
+}
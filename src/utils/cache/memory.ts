@@ -0,0 +1,48 @@
+import { CacheBackend, CacheEntry } from './types';
+
+const DEFAULT_MAX_ENTRIES = 500;
+
+const globalForCache = globalThis as unknown as {
+  memoryCache?: Map<string, CacheEntry>;
+};
+const entries: Map<string, CacheEntry> = globalForCache.memoryCache ?? new Map();
+globalForCache.memoryCache = entries;
+
+function getMaxEntries(): number {
+  const configured = Number(process.env.LLM_CACHE_MAX_ENTRIES);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_MAX_ENTRIES;
+}
+
+// Least recently used eviction, relying on Map keeping insertion order:
+// reads move an entry to the end, so the first key is always the stalest.
+export function createMemoryBackend(): CacheBackend {
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return null;
+      }
+
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) {
+        return null;
+      }
+      entries.set(key, entry);
+      return entry;
+    },
+
+    async set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+
+      const maxEntries = getMaxEntries();
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
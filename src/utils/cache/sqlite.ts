@@ -0,0 +1,83 @@
+import type Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { getDataDir } from '../fileStore';
+import { CacheBackend } from './types';
+
+// Entries in a SQLite database, LLM_CACHE_SQLITE_PATH (default
+// DATA_DIR/cache.sqlite). better-sqlite3 is synchronous, which is fine for
+// single-row lookups by primary key.
+
+// Expired rows are swept on every this many writes
+const SWEEP_INTERVAL = 100;
+
+const globalForCache = globalThis as unknown as {
+  sqliteCache?: Database.Database;
+};
+
+let writes = 0;
+
+function getDatabase(): Database.Database {
+  if (globalForCache.sqliteCache) {
+    return globalForCache.sqliteCache;
+  }
+
+  const file = path.resolve(process.env.LLM_CACHE_SQLITE_PATH || path.join(getDataDir(), 'cache.sqlite'));
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+
+  // Loaded on first use so deployments that don't use SQLite never load the
+  // native module
+  const SQLite = require('better-sqlite3') as typeof Database;
+  const db = new SQLite(file);
+  db.pragma('journal_mode = WAL');
+  db.exec(`CREATE TABLE IF NOT EXISTS llm_cache (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL
+  )`);
+
+  globalForCache.sqliteCache = db;
+  return db;
+}
+
+interface CacheRow {
+  value: string;
+  created_at: number;
+  expires_at: number;
+}
+
+export function createSqliteBackend(): CacheBackend {
+  return {
+    async get(key) {
+      const row = getDatabase()
+        .prepare('SELECT value, created_at, expires_at FROM llm_cache WHERE key = ?')
+        .get(key) as CacheRow | undefined;
+
+      if (!row) {
+        return null;
+      }
+      if (row.expires_at <= Date.now()) {
+        getDatabase().prepare('DELETE FROM llm_cache WHERE key = ?').run(key);
+        return null;
+      }
+
+      return { value: JSON.parse(row.value), createdAt: row.created_at, expiresAt: row.expires_at };
+    },
+
+    async set(key, entry) {
+      const db = getDatabase();
+      db.prepare('INSERT OR REPLACE INTO llm_cache (key, value, created_at, expires_at) VALUES (?, ?, ?, ?)')
+        .run(key, JSON.stringify(entry.value), entry.createdAt, entry.expiresAt);
+
+      writes += 1;
+      if (writes % SWEEP_INTERVAL === 0) {
+        db.prepare('DELETE FROM llm_cache WHERE expires_at <= ?').run(Date.now());
+      }
+    },
+
+    async delete(key) {
+      getDatabase().prepare('DELETE FROM llm_cache WHERE key = ?').run(key);
+    },
+  };
+}
@@ -0,0 +1,24 @@
+export type CacheBackendName = 'memory' | 'file' | 'sqlite';
+
+// hit: served from the cache; miss: computed and stored; bypass: computed
+// and stored without looking (a deliberate regeneration)
+export type CacheStatus = 'hit' | 'miss' | 'bypass';
+
+export interface CacheEntry {
+  value: unknown;
+  createdAt: number;
+  expiresAt: number;
+}
+
+// Backends drop expired entries themselves; get never returns one
+export interface CacheBackend {
+  get(key: string): Promise<CacheEntry | null>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+// Per-call control, passed down from the API routes
+export interface CacheControl {
+  bypass?: boolean;
+  onStatus?: (status: CacheStatus) => void;
+}
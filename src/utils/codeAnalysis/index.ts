@@ -0,0 +1,81 @@
+import { MAX_CODE_LENGTH, toExecutionLanguage } from '../execution';
+import { analyzeJavaScript } from './javascript';
+import { analyzePython } from './python';
+import { BigOHint, RawAnalysis, StaticAnalysis } from './types';
+
+export * from './types';
+
+// Static analysis of coding answers: parse errors, cyclomatic complexity,
+// nesting depth, lint findings and a naive Big-O hint. The findings are
+// given to the grader as evidence and shown on the results page; they are
+// never a score on their own.
+
+function estimateBigO(raw: RawAnalysis): BigOHint {
+  if (raw.parseErrors.length > 0) {
+    return { estimate: 'unknown', reason: 'The code does not parse' };
+  }
+  const loopDepth = Math.max(raw.topLevel.loopDepth, ...raw.functions.map(fn => fn.loopDepth));
+  const recursive = raw.functions.filter(fn => fn.recursive).map(fn => fn.name);
+  const notes = [
+    loopDepth === 0 ? 'no loops' : loopDepth === 1 ? 'a single level of loops' : `loops nested ${loopDepth} deep`,
+    ...(raw.sorts ? ['a sort'] : []),
+    ...(recursive.length > 0 ? [`recursion in ${recursive.join(', ')}, which this estimate does not follow`] : []),
+  ];
+
+  let estimate = loopDepth === 0 ? 'O(1)' : loopDepth === 1 ? 'O(n)' : `O(n^${loopDepth})`;
+  if (raw.sorts && loopDepth <= 1) {
+    estimate = 'O(n log n)';
+  }
+  if (recursive.length > 0 && loopDepth === 0) {
+    estimate = 'unknown';
+  }
+  return { estimate, reason: `From ${notes.join(', ')}` };
+}
+
+/**
+ * Analyzes a coding answer without running it. Resolves to null for
+ * languages it can't analyze, code too long to run and when the analyzer
+ * itself fails, so grading goes ahead without it.
+ */
+export async function analyzeCode(code: string, language: string | undefined): Promise<StaticAnalysis | null> {
+  const executionLanguage = toExecutionLanguage(language);
+  if (!executionLanguage || !code.trim() || code.length > MAX_CODE_LENGTH) {
+    return null;
+  }
+
+  try {
+    const raw = executionLanguage === 'python'
+      ? await analyzePython(code)
+      : await analyzeJavaScript(code, executionLanguage);
+    return {
+      language: executionLanguage,
+      parseErrors: raw.parseErrors,
+      lines: code.split('\n').filter(line => line.trim()).length,
+      functions: raw.functions,
+      maxComplexity: Math.max(raw.topLevel.complexity, ...raw.functions.map(fn => fn.complexity)),
+      maxNesting: Math.max(raw.topLevel.nesting, ...raw.functions.map(fn => fn.nesting)),
+      lint: raw.lint,
+      bigO: estimateBigO(raw),
+    };
+  } catch (error) {
+    console.warn('Static analysis failed:', { language: executionLanguage, error: error instanceof Error ? error.message : error });
+    return null;
+  }
+}
+
+/** The findings as lines for the grading prompt. */
+export function describeStaticAnalysis(analysis: StaticAnalysis): string {
+  const lines = [
+    analysis.parseErrors.length === 0
+      ? '- Parses: yes'
+      : `- Parses: no. ${analysis.parseErrors.map(error => `${error.message}${error.line ? ` (line ${error.line})` : ''}`).join('; ')}`,
+    `- Non-blank lines: ${analysis.lines}`,
+    `- Highest cyclomatic complexity: ${analysis.maxComplexity}; deepest nesting: ${analysis.maxNesting}`,
+    ...analysis.functions.slice(0, 10).map(fn =>
+      `- Function ${fn.name} (line ${fn.line}): complexity ${fn.complexity}, nesting ${fn.nesting}, loop depth ${fn.loopDepth}${fn.recursive ? ', recursive' : ''}`),
+    `- Big-O hint: ${analysis.bigO.estimate} (${analysis.bigO.reason})`,
+    analysis.lint.length === 0 ? '- Lint: no findings' : '- Lint:',
+    ...analysis.lint.slice(0, 15).map(finding => `  - line ${finding.line} ${finding.rule} (${finding.severity}): ${finding.message}`),
+  ];
+  return lines.join('\n');
+}
@@ -0,0 +1,199 @@
+import type * as TS from 'typescript';
+import { FunctionMetrics, LintFinding, ParseError, RawAnalysis } from './types';
+
+// JavaScript and TypeScript are parsed with the TypeScript compiler, which
+// recovers from syntax errors, so code that doesn't parse still gets metrics
+// for the parts that did. Nothing is type-checked or run.
+
+// Array methods that walk the whole array; a call inside a loop adds a level
+const ITERATING_METHODS = new Set([
+  'forEach', 'map', 'filter', 'reduce', 'reduceRight', 'some', 'every', 'find', 'findIndex', 'findLast',
+  'findLastIndex', 'flatMap', 'includes', 'indexOf', 'lastIndexOf', 'join', 'slice', 'splice', 'concat',
+]);
+
+const SORT_METHODS = new Set(['sort', 'toSorted']);
+
+interface Frame {
+  metrics: FunctionMetrics;
+}
+
+function lineOf(source: TS.SourceFile, node: TS.Node): number {
+  return source.getLineAndCharacterOfPosition(node.getStart(source)).line + 1;
+}
+
+function parseErrorsOf(ts: typeof TS, code: string, fileName: string): ParseError[] {
+  const output = ts.transpileModule(code, {
+    compilerOptions: { target: ts.ScriptTarget.ES2020, module: ts.ModuleKind.CommonJS, allowJs: true },
+    fileName,
+    reportDiagnostics: true,
+  });
+  return (output.diagnostics ?? [])
+    .filter(diagnostic => diagnostic.category === ts.DiagnosticCategory.Error)
+    .slice(0, 10)
+    .map(diagnostic => ({
+      message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+      line: diagnostic.file && diagnostic.start !== undefined
+        ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start).line + 1
+        : undefined,
+    }));
+}
+
+// A function's name, from its declaration or what it is assigned to
+function functionName(ts: typeof TS, node: TS.FunctionLikeDeclaration): string {
+  if (node.name && (ts.isIdentifier(node.name) || ts.isStringLiteral(node.name))) {
+    return node.name.text;
+  }
+  if (ts.isConstructorDeclaration(node)) {
+    return 'constructor';
+  }
+  const parent = node.parent;
+  if ((ts.isVariableDeclaration(parent) || ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent))
+    && ts.isIdentifier(parent.name)) {
+    return parent.name.text;
+  }
+  return '(anonymous)';
+}
+
+function isLogicalOperator(ts: typeof TS, kind: TS.SyntaxKind): boolean {
+  return kind === ts.SyntaxKind.AmpersandAmpersandToken || kind === ts.SyntaxKind.BarBarToken
+    || kind === ts.SyntaxKind.QuestionQuestionToken || kind === ts.SyntaxKind.AmpersandAmpersandEqualsToken
+    || kind === ts.SyntaxKind.BarBarEqualsToken || kind === ts.SyntaxKind.QuestionQuestionEqualsToken;
+}
+
+function isLoop(ts: typeof TS, node: TS.Node): boolean {
+  return ts.isForStatement(node) || ts.isForInStatement(node) || ts.isForOfStatement(node)
+    || ts.isWhileStatement(node) || ts.isDoStatement(node);
+}
+
+export async function analyzeJavaScript(code: string, language: 'javascript' | 'typescript'): Promise<RawAnalysis> {
+  const ts = await import('typescript');
+  const fileName = language === 'typescript' ? 'solution.ts' : 'solution.js';
+  const source = ts.createSourceFile(fileName, code, ts.ScriptTarget.Latest, true,
+    language === 'typescript' ? ts.ScriptKind.TS : ts.ScriptKind.JS);
+
+  const functions: FunctionMetrics[] = [];
+  const lint: LintFinding[] = [];
+  const topLevel: Frame = { metrics: { name: '', line: 1, complexity: 1, nesting: 0, loopDepth: 0, recursive: false } };
+  let sorts = false;
+
+  // Identifiers by name, to find variables that are never read
+  const references = new Map<string, number>();
+  const locals: { name: string; line: number }[] = [];
+
+  const report = (node: TS.Node, rule: string, message: string, severity: LintFinding['severity'] = 'warning') => {
+    lint.push({ rule, message, line: lineOf(source, node), severity });
+  };
+
+  // Nesting counts blocks within the current function; loop depth carries
+  // on into callbacks, which run inside the loop that calls them
+  const visit = (node: TS.Node, frame: Frame, nesting: number, loopDepth: number): void => {
+    if (ts.isFunctionLike(node) && 'body' in node && node.body) {
+      const declaration = node as TS.FunctionLikeDeclaration;
+      const inline = ts.isArrowFunction(node) || ts.isFunctionExpression(node);
+      const inner: Frame = {
+        metrics: {
+          name: functionName(ts, declaration),
+          line: lineOf(source, node),
+          complexity: 1,
+          nesting: 0,
+          loopDepth: 0,
+          recursive: false,
+        },
+      };
+      functions.push(inner.metrics);
+      const innerLoops = inline ? loopDepth : 0;
+      inner.metrics.loopDepth = innerLoops;
+      ts.forEachChild(node, child => visit(child, inner, 0, innerLoops));
+      return;
+    }
+
+    const metrics = frame.metrics;
+    let childNesting = nesting;
+    let childLoops = loopDepth;
+
+    if (ts.isIfStatement(node)) {
+      metrics.complexity++;
+      // else if continues the chain rather than nesting inside it
+      if (!(ts.isIfStatement(node.parent) && node.parent.elseStatement === node)) {
+        childNesting++;
+      }
+    } else if (isLoop(ts, node)) {
+      metrics.complexity++;
+      childNesting++;
+      childLoops++;
+    } else if (ts.isSwitchStatement(node) || ts.isTryStatement(node)) {
+      childNesting++;
+    } else if (ts.isCaseClause(node) || ts.isConditionalExpression(node)) {
+      metrics.complexity++;
+    } else if (ts.isCatchClause(node)) {
+      metrics.complexity++;
+      if (node.block.statements.length === 0) {
+        report(node, 'no-empty', 'Empty catch block swallows errors');
+      }
+    } else if (ts.isBinaryExpression(node)) {
+      if (isLogicalOperator(ts, node.operatorToken.kind)) {
+        metrics.complexity++;
+      }
+      const loose = node.operatorToken.kind === ts.SyntaxKind.EqualsEqualsToken
+        || node.operatorToken.kind === ts.SyntaxKind.ExclamationEqualsToken;
+      // == null is the idiomatic check for null or undefined
+      if (loose && node.left.kind !== ts.SyntaxKind.NullKeyword && node.right.kind !== ts.SyntaxKind.NullKeyword) {
+        report(node, 'eqeqeq', `Use ${node.operatorToken.kind === ts.SyntaxKind.EqualsEqualsToken ? '===' : '!=='} to avoid type coercion`);
+      }
+    } else if (ts.isCallExpression(node)) {
+      const callee = node.expression;
+      const method = ts.isPropertyAccessExpression(callee) ? callee.name.text : null;
+      if (method && SORT_METHODS.has(method)) {
+        sorts = true;
+      }
+      if (method && ITERATING_METHODS.has(method)) {
+        childLoops++;
+      }
+      const called = ts.isIdentifier(callee) ? callee.text : method;
+      if (called && called === metrics.name && frame !== topLevel) {
+        metrics.recursive = true;
+      }
+      if (ts.isPropertyAccessExpression(callee) && ts.isIdentifier(callee.expression) && callee.expression.text === 'console') {
+        report(node, 'no-console', 'Leftover console output', 'info');
+      }
+    } else if (ts.isVariableDeclarationList(node)) {
+      if (!(node.flags & (ts.NodeFlags.Let | ts.NodeFlags.Const))) {
+        report(node, 'no-var', 'Use let or const instead of var');
+      }
+    } else if (ts.isVariableDeclaration(node)) {
+      // A catch clause's error variable is often unused on purpose
+      if (frame !== topLevel && ts.isIdentifier(node.name) && !ts.isCatchClause(node.parent)) {
+        locals.push({ name: node.name.text, line: lineOf(source, node) });
+      }
+    } else if (ts.isBlock(node)) {
+      if (node.statements.length === 0 && !ts.isFunctionLike(node.parent) && !ts.isCatchClause(node.parent)) {
+        report(node, 'no-empty', 'Empty block');
+      }
+    } else if (node.kind === ts.SyntaxKind.DebuggerStatement) {
+      report(node, 'no-debugger', 'Leftover debugger statement');
+    } else if (ts.isIdentifier(node)) {
+      references.set(node.text, (references.get(node.text) ?? 0) + 1);
+    }
+
+    ts.forEachChild(node, child => visit(child, frame, childNesting, childLoops));
+    metrics.nesting = Math.max(metrics.nesting, childNesting);
+    metrics.loopDepth = Math.max(metrics.loopDepth, childLoops);
+  };
+
+  ts.forEachChild(source, child => visit(child, topLevel, 0, 0));
+
+  for (const local of locals) {
+    // Its own declaration is the only mention
+    if ((references.get(local.name) ?? 0) <= 1) {
+      lint.push({ rule: 'no-unused-vars', message: `'${local.name}' is declared but never used`, line: local.line, severity: 'warning' });
+    }
+  }
+
+  return {
+    parseErrors: parseErrorsOf(ts, code, fileName),
+    functions,
+    topLevel: { complexity: topLevel.metrics.complexity, nesting: topLevel.metrics.nesting, loopDepth: topLevel.metrics.loopDepth },
+    lint: lint.sort((a, b) => a.line - b.line),
+    sorts,
+  };
+}
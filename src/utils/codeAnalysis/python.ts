@@ -0,0 +1,180 @@
+import { spawn } from 'child_process';
+import { RawAnalysis } from './types';
+
+// Python is parsed with the interpreter's own ast module, in a separate
+// process started the same way as the execution sandbox (isolated mode, empty
+// environment) with capped memory. The code is only parsed, never run.
+//
+// Environment variables:
+// - PYTHON_PATH: the interpreter (default python3)
+
+const ANALYSIS_TIMEOUT_MS = 5000;
+const ANALYSIS_MEMORY_MB = 256;
+
+const ANALYZER = String.raw`
+import ast, json, resource, sys
+
+memory = int(sys.argv[1]) * 1024 * 1024
+resource.setrlimit(resource.RLIMIT_AS, (memory, memory))
+
+code = sys.stdin.read()
+result = {'parseErrors': [], 'functions': [], 'lint': [], 'sorts': False,
+          'topLevel': {'complexity': 1, 'nesting': 0, 'loopDepth': 0}}
+
+# Builtins that walk their whole argument
+ITERATING = {'sum', 'min', 'max', 'any', 'all', 'map', 'filter', 'list', 'set', 'dict', 'tuple', 'sorted',
+             'reversed', 'enumerate', 'zip', 'index', 'count', 'join'}
+SHADOWED = {'list', 'dict', 'set', 'str', 'int', 'float', 'len', 'sum', 'min', 'max', 'id', 'type', 'input',
+            'map', 'filter', 'range', 'sorted', 'iter', 'next', 'object', 'hash', 'all', 'any'}
+NESTING = (ast.If, ast.For, ast.AsyncFor, ast.While, ast.With, ast.AsyncWith, ast.Try) + \
+    ((ast.Match,) if hasattr(ast, 'Match') else ()) + ((ast.TryStar,) if hasattr(ast, 'TryStar') else ())
+
+def report(node, rule, message, severity='warning'):
+    result['lint'].append({'rule': rule, 'message': message, 'line': getattr(node, 'lineno', 1), 'severity': severity})
+
+def called_name(call):
+    if isinstance(call.func, ast.Name):
+        return call.func.id
+    if isinstance(call.func, ast.Attribute):
+        return call.func.attr
+    return None
+
+# Nested functions are walked with the function around them too
+reported = set()
+
+def unused_locals(function):
+    stored, loaded = {}, set()
+    for node in ast.walk(function):
+        if isinstance(node, ast.Name):
+            if isinstance(node.ctx, ast.Store):
+                stored.setdefault(node.id, node)
+            else:
+                loaded.add(node.id)
+        elif isinstance(node, (ast.Global, ast.Nonlocal)):
+            loaded.update(node.names)
+    for name, node in stored.items():
+        if name not in loaded and not name.startswith('_') and id(node) not in reported:
+            reported.add(id(node))
+            report(node, 'unused-variable', "'" + name + "' is assigned but never used")
+
+def visit(node, frame, nesting, loops):
+    if isinstance(node, (ast.FunctionDef, ast.AsyncFunctionDef)):
+        inner = {'name': node.name, 'line': node.lineno, 'complexity': 1, 'nesting': 0, 'loopDepth': 0, 'recursive': False}
+        result['functions'].append(inner)
+        for default in node.args.defaults + [d for d in node.args.kw_defaults if d is not None]:
+            if isinstance(default, (ast.List, ast.Dict, ast.Set)):
+                report(default, 'mutable-default', 'Mutable default argument is shared between calls')
+        for arg in node.args.args + node.args.kwonlyargs:
+            if arg.arg in SHADOWED:
+                report(arg, 'builtin-shadowing', "Parameter '" + arg.arg + "' shadows a builtin", 'info')
+        unused_locals(node)
+        for child in node.body:
+            visit(child, inner, 0, 0)
+        return
+    if isinstance(node, ast.Lambda):
+        # Runs inside whatever loop calls it
+        visit(node.body, frame, nesting, loops)
+        return
+
+    child_nesting, child_loops = nesting, loops
+    if isinstance(node, NESTING):
+        child_nesting += 1
+    if isinstance(node, (ast.If, ast.IfExp, ast.ExceptHandler)):
+        frame['complexity'] += 1
+    elif isinstance(node, (ast.For, ast.AsyncFor, ast.While)):
+        frame['complexity'] += 1
+        child_loops += 1
+    elif isinstance(node, ast.BoolOp):
+        frame['complexity'] += len(node.values) - 1
+    elif hasattr(ast, 'match_case') and isinstance(node, ast.match_case):
+        frame['complexity'] += 1
+    elif isinstance(node, (ast.ListComp, ast.SetComp, ast.DictComp, ast.GeneratorExp)):
+        frame['complexity'] += sum(1 + len(generator.ifs) for generator in node.generators)
+        child_loops += len(node.generators)
+
+    if isinstance(node, ast.If) and len(node.orelse) == 1 and isinstance(node.orelse[0], ast.If):
+        # elif continues the chain rather than nesting inside it
+        for child in [node.test] + node.body:
+            visit(child, frame, child_nesting, child_loops)
+        visit(node.orelse[0], frame, nesting, loops)
+        frame['nesting'] = max(frame['nesting'], child_nesting)
+        return
+
+    if isinstance(node, ast.Call):
+        name = called_name(node)
+        if name in ('sort', 'sorted'):
+            result['sorts'] = True
+        if name in ITERATING:
+            child_loops += 1
+        if name is not None and name == frame.get('name'):
+            frame['recursive'] = True
+        if isinstance(node.func, ast.Name) and node.func.id == 'print':
+            report(node, 'print-call', 'Leftover print output', 'info')
+    elif isinstance(node, ast.ExceptHandler) and node.type is None:
+        report(node, 'bare-except', 'Bare except also catches KeyboardInterrupt and SystemExit')
+    elif isinstance(node, ast.Compare):
+        for op, right in zip(node.ops, node.comparators):
+            if isinstance(op, (ast.Eq, ast.NotEq)) and isinstance(right, ast.Constant) and right.value is None:
+                report(node, 'none-comparison', 'Compare with None using "is" or "is not"')
+    elif isinstance(node, ast.Global):
+        report(node, 'global-statement', 'Uses a global variable', 'info')
+    elif isinstance(node, ast.ImportFrom) and any(alias.name == '*' for alias in node.names):
+        report(node, 'wildcard-import', 'Wildcard import')
+    elif isinstance(node, ast.Try):
+        for handler in node.handlers:
+            if all(isinstance(statement, ast.Pass) for statement in handler.body):
+                report(handler, 'empty-except', 'Empty except block swallows errors')
+
+    for child in ast.iter_child_nodes(node):
+        visit(child, frame, child_nesting, child_loops)
+    frame['nesting'] = max(frame['nesting'], child_nesting)
+    frame['loopDepth'] = max(frame['loopDepth'], child_loops)
+
+try:
+    tree = ast.parse(code, 'solution.py')
+except SyntaxError as error:
+    result['parseErrors'].append({'message': 'SyntaxError: ' + str(error.msg), 'line': error.lineno})
+except (MemoryError, RecursionError, ValueError) as error:
+    result['parseErrors'].append({'message': type(error).__name__ + ': the code could not be parsed'})
+else:
+    try:
+        for statement in tree.body:
+            visit(statement, result['topLevel'], 0, 0)
+    except RecursionError:
+        result['parseErrors'].append({'message': 'The code is nested too deeply to analyze'})
+    result['lint'].sort(key=lambda finding: finding['line'])
+
+sys.stdout.write(json.dumps(result))
+`;
+
+export function analyzePython(code: string): Promise<RawAnalysis> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.env.PYTHON_PATH || 'python3', ['-I', '-c', ANALYZER, String(ANALYSIS_MEMORY_MB)], {
+      // Nothing from the server's environment, API keys included
+      env: {} as NodeJS.ProcessEnv,
+      stdio: ['pipe', 'pipe', 'ignore'],
+    });
+
+    let stdout = '';
+    child.stdout.on('data', chunk => {
+      stdout += chunk;
+    });
+
+    const timer = setTimeout(() => child.kill('SIGKILL'), ANALYSIS_TIMEOUT_MS);
+    child.on('error', error => {
+      clearTimeout(timer);
+      reject(new Error(`Could not start Python: ${error.message}`));
+    });
+    child.on('close', (code, signal) => {
+      clearTimeout(timer);
+      try {
+        resolve(JSON.parse(stdout));
+      } catch {
+        reject(new Error(signal ? `Python analysis was stopped (${signal})` : `Python analysis exited with code ${code}`));
+      }
+    });
+
+    child.stdin.on('error', () => undefined);
+    child.stdin.end(code);
+  });
+}
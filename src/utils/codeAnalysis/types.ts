@@ -0,0 +1,60 @@
+import { ExecutionLanguage } from '../execution/types';
+
+export interface ParseError {
+  message: string;
+  line?: number;
+}
+
+export type LintSeverity = 'warning' | 'info';
+
+export interface LintFinding {
+  // e.g. "eqeqeq", "bare-except"
+  rule: string;
+  message: string;
+  line: number;
+  severity: LintSeverity;
+}
+
+export interface FunctionMetrics {
+  name: string;
+  line: number;
+  // 1 plus one per branch: conditions, loops, cases, catches and short-circuit operators
+  complexity: number;
+  // Deepest nesting of blocks inside the function
+  nesting: number;
+  // Deepest nesting of loops inside the function
+  loopDepth: number;
+  recursive: boolean;
+}
+
+// A guess at time complexity from loop structure alone: nested loops
+// multiply, a sort adds a log factor, recursion is only reported
+export interface BigOHint {
+  estimate: string;
+  reason: string;
+}
+
+export interface StaticAnalysis {
+  language: ExecutionLanguage;
+  // Empty when the code parses; the metrics below are then for what parsed
+  parseErrors: ParseError[];
+  lines: number;
+  functions: FunctionMetrics[];
+  // Highest over the functions, or of the top-level code without any
+  maxComplexity: number;
+  maxNesting: number;
+  lint: LintFinding[];
+  bigO: BigOHint;
+}
+
+// What an analyzer reports about a program's structure, before the
+// summary fields are worked out
+export interface RawAnalysis {
+  parseErrors: ParseError[];
+  functions: FunctionMetrics[];
+  // The code outside any function, as if it were one
+  topLevel: Omit<FunctionMetrics, 'name' | 'line' | 'recursive'>;
+  lint: LintFinding[];
+  // Calls to a sort anywhere in the code
+  sorts: boolean;
+}
@@ -0,0 +1,46 @@
+import { EXECUTION_LANGUAGES } from './execution/types';
+import { CodeStarter, Question } from './interviewSchemas';
+
+// Starter code for coding questions. A question is written in its
+// technology's editor language; when answers are run, the tests are plain
+// JSON, so the candidate may also answer in any other language the sandbox
+// runs. Each language the question allows comes with its own signature and
+// template, which the editor opens with.
+
+/** The languages a question written in `language` may be answered in, its own first. */
+export function answerLanguages(language: string): string[] {
+  return (EXECUTION_LANGUAGES as string[]).includes(language)
+    ? [language, ...EXECUTION_LANGUAGES.filter(other => other !== language)]
+    : [language];
+}
+
+/**
+ * Tidies the model's starters: one per allowed language, the question's own
+ * first (blank if the model left it out). With tests, templates that don't
+ * mention the function are dropped, as the tests call it by name.
+ */
+export function normalizeStarters(starters: CodeStarter[] | undefined, language: string, functionName?: string): CodeStarter[] {
+  const allowed = answerLanguages(language);
+  const kept = (starters ?? [])
+    .map(starter => ({ ...starter, language: starter.language.trim().toLowerCase() }))
+    .filter(starter => allowed.includes(starter.language))
+    .filter(starter => !functionName || starter.template.includes(functionName))
+    .filter((starter, index, all) => all.findIndex(other => other.language === starter.language) === index)
+    .sort((a, b) => allowed.indexOf(a.language) - allowed.indexOf(b.language));
+
+  return kept[0]?.language === language ? kept : [{ language, template: '' }, ...kept];
+}
+
+/** The languages a candidate may answer a coding question in. */
+export function questionLanguages(question: Question): string[] {
+  return question.starters?.map(starter => starter.language) ?? answerLanguages(question.modelAnswer.language ?? '');
+}
+
+/** Sets a generated coding question's language and tidies its starters. */
+export function withStarters(question: Question, language: string): Question {
+  return {
+    ...question,
+    modelAnswer: { ...question.modelAnswer, language },
+    starters: normalizeStarters(question.starters, language, question.functionName),
+  };
+}
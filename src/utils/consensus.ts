@@ -0,0 +1,132 @@
+import { Analysis, GradingConsensus, RubricVerdict } from './interviewSchemas';
+import { ProviderConfig, parseProviderList } from './llm';
+import { RubricGrading, VERDICTS } from './rubric';
+
+// Grading by consensus: the grader is sampled several times (optionally on
+// different models) and the samples are combined so one unlucky completion
+// can't decide the score. Configured with:
+// - GRADING_SAMPLES: number of samples (default 1, i.e. no consensus)
+// - GRADING_MODELS: `provider[:model]` list to spread samples across
+//   round-robin; defaults to the grading model chain
+// - GRADING_AGGREGATION: median (default) or trimmed-mean
+// - GRADING_REVIEW_STDDEV: flag answers for human review above this
+//   standard deviation of the sample scores (default 1.5)
+
+export type AggregationMethod = 'median' | 'trimmed-mean';
+
+export interface ConsensusConfig {
+  samples: number;
+  method: AggregationMethod;
+  reviewThreshold: number;
+  // Model per sample, round-robin; empty to use the grading chain
+  panel: ProviderConfig[];
+}
+
+const DEFAULT_REVIEW_STDDEV = 1.5;
+// Share of samples dropped from each end for the trimmed mean
+const TRIM_FRACTION = 0.2;
+// Standard deviation at which confidence reaches 0
+const ZERO_CONFIDENCE_STDDEV = 5;
+
+export function getConsensusConfig(): ConsensusConfig {
+  const panel = parseProviderList(process.env.GRADING_MODELS, 'GRADING_MODELS');
+  const configuredSamples = Number(process.env.GRADING_SAMPLES);
+  const reviewThreshold = Number(process.env.GRADING_REVIEW_STDDEV);
+
+  return {
+    samples: Number.isInteger(configuredSamples) && configuredSamples > 0
+      ? configuredSamples
+      : Math.max(1, panel.length),
+    method: process.env.GRADING_AGGREGATION === 'trimmed-mean' ? 'trimmed-mean' : 'median',
+    reviewThreshold: reviewThreshold > 0 ? reviewThreshold : DEFAULT_REVIEW_STDDEV,
+    panel,
+  };
+}
+
+export function aggregate(values: number[], method: AggregationMethod): number {
+  const sorted = [...values].sort((a, b) => a - b);
+
+  if (method === 'trimmed-mean') {
+    const trim = Math.floor(sorted.length * TRIM_FRACTION);
+    const kept = sorted.slice(trim, sorted.length - trim);
+    return kept.reduce((sum, value) => sum + value, 0) / kept.length;
+  }
+
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+export function standardDeviation(values: number[]): number {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+}
+
+// Median verdict; an even split rounds towards the stricter verdict, so
+// pass/fail becomes partial and pass/partial becomes partial
+function consensusVerdict(verdicts: RubricVerdict[]): RubricVerdict {
+  const ranks = verdicts.map(verdict => VERDICTS.indexOf(verdict));
+  return VERDICTS[Math.ceil(aggregate(ranks, 'median'))];
+}
+
+/**
+ * Combines several samples of the same grading: criterion scores are
+ * aggregated, item verdicts take the median, and the written feedback comes
+ * from the sample whose scores are closest to the consensus.
+ */
+export function combineGradings(gradings: RubricGrading[], method: AggregationMethod): RubricGrading {
+  const criteria: RubricGrading['criteria'] = {};
+  Object.keys(gradings[0].criteria).forEach(id => {
+    criteria[id] = { score: Math.round(aggregate(gradings.map(g => g.criteria[id].score), method) * 10) / 10 };
+  });
+
+  const items: RubricGrading['items'] = {};
+  Object.keys(gradings[0].items).forEach(key => {
+    items[key] = { verdict: consensusVerdict(gradings.map(g => g.items[key].verdict)) };
+  });
+
+  const distance = (grading: RubricGrading) => Object.keys(criteria).reduce(
+    (sum, id) => sum + Math.abs(grading.criteria[id].score - criteria[id].score),
+    0
+  );
+  const representative = gradings.reduce((best, grading) => (distance(grading) < distance(best) ? grading : best));
+
+  Object.keys(criteria).forEach(id => {
+    criteria[id].feedback = representative.criteria[id].feedback;
+  });
+  Object.keys(items).forEach(key => {
+    if (representative.items[key].verdict === items[key].verdict) {
+      items[key].comment = representative.items[key].comment;
+    }
+  });
+
+  return {
+    criteria,
+    items,
+    feedback: representative.feedback,
+    improvement: representative.improvement,
+  };
+}
+
+/** Adds the consensus summary and review flag to a combined analysis. */
+export function withConsensus(
+  analysis: Analysis,
+  sampleScores: number[],
+  models: string[],
+  config: ConsensusConfig
+): Analysis {
+  const deviation = standardDeviation(sampleScores);
+  const consensus: GradingConsensus = {
+    method: config.method,
+    samples: sampleScores.length,
+    scores: sampleScores,
+    models,
+    standardDeviation: Math.round(deviation * 100) / 100,
+    confidence: Math.round(Math.max(0, 1 - deviation / ZERO_CONFIDENCE_STDDEV) * 100) / 100,
+  };
+
+  return {
+    ...analysis,
+    consensus,
+    needsReview: deviation > config.reviewThreshold,
+  };
+}
@@ -0,0 +1,216 @@
+// Keystroke-level logs of coding answers, recorded from the editor's change
+// events and replayed on the results page. Each entry is a tuple rather than
+// an object, timed from the previous entry, and runs of typing or deleting
+// in one place are merged into a single entry, so a log stays small enough to
+// keep in localStorage with the answer.
+
+// [ms since the previous entry, offset, characters deleted, text inserted]
+export type EditEntry = [number, number, number, string];
+
+export interface EditLog {
+  // What the editor opened with, e.g. the starter code
+  initial: string;
+  language?: string;
+  edits: EditEntry[];
+  // Switching language swaps in another buffer; such entries are the
+  // editor, not the candidate, so they aren't counted as large inserts
+  switches?: { index: number; language: string }[];
+  // From the question being shown to the last entry
+  durationMs: number;
+  // Recording stopped at MAX_EDIT_ENTRIES
+  truncated?: boolean;
+}
+
+// A recording in progress: the log plus what merging and timing need
+export interface EditRecording {
+  log: EditLog;
+  text: string;
+  startedAt: number;
+  // When the last entry started, and its last keystroke
+  entryAt: number;
+  keystrokeAt: number;
+  // The last entry may be extended by the next keystroke
+  mergeable: boolean;
+}
+
+// A change as the editor reports it, against the text before the change
+export interface EditorChange {
+  rangeOffset: number;
+  rangeLength: number;
+  text: string;
+}
+
+export const MAX_EDIT_ENTRIES = 5000;
+// Keystrokes closer together than this continue the entry before them
+const MERGE_WINDOW_MS = 250;
+// Merged typing stays below LARGE_INSERT_LENGTH
+const MAX_MERGED_LENGTH = 20;
+// Inserts this long that arrive in one change were pasted or generated
+export const LARGE_INSERT_LENGTH = 40;
+// Pauses this long are shown as the candidate stopping to think
+export const LONG_PAUSE_MS = 30000;
+// Text is kept at every n-th entry so seeking doesn't replay from the start
+const CHECKPOINT_INTERVAL = 100;
+
+export function startEditLog(initial: string, language?: string, now = Date.now()): EditRecording {
+  return {
+    log: { initial, language, edits: [], durationMs: 0 },
+    text: initial,
+    startedAt: now,
+    entryAt: now,
+    keystrokeAt: now,
+    mergeable: false,
+  };
+}
+
+function applyEdit(text: string, [, offset, deleted, inserted]: EditEntry): string {
+  return text.slice(0, offset) + inserted + text.slice(offset + deleted);
+}
+
+function addEntry(recording: EditRecording, entry: EditEntry, now: number) {
+  const { log } = recording;
+  if (log.edits.length >= MAX_EDIT_ENTRIES) {
+    log.truncated = true;
+    return;
+  }
+  log.edits.push(entry);
+  recording.entryAt = now;
+}
+
+// Typing on from where the last entry inserted, or deleting back from where
+// it deleted
+function mergeInto(last: EditEntry, change: EditorChange): boolean {
+  const [, offset, deleted, inserted] = last;
+  if (change.rangeLength === 0 && deleted === 0 && change.rangeOffset === offset + inserted.length
+    && inserted.length + change.text.length <= MAX_MERGED_LENGTH && !change.text.includes('\n')) {
+    last[3] = inserted + change.text;
+    return true;
+  }
+  if (change.text === '' && inserted === '' && change.rangeOffset + change.rangeLength === offset) {
+    last[1] = change.rangeOffset;
+    last[2] = deleted + change.rangeLength;
+    return true;
+  }
+  return false;
+}
+
+/** Records one editor change event, which may hold several changes (e.g. multiple cursors). */
+export function recordChanges(recording: EditRecording, changes: EditorChange[], now = Date.now()) {
+  if (recording.log.truncated || changes.length === 0) {
+    return;
+  }
+  // Offsets are against the text before the event, so apply from the end
+  const ordered = [...changes].sort((a, b) => b.rangeOffset - a.rangeOffset);
+  const last = recording.log.edits[recording.log.edits.length - 1];
+  const merged = ordered.length === 1 && recording.mergeable && last
+    && now - recording.keystrokeAt <= MERGE_WINDOW_MS && mergeInto(last, ordered[0]);
+
+  if (!merged) {
+    ordered.forEach((change, index) => {
+      addEntry(recording, [index === 0 ? now - recording.entryAt : 0, change.rangeOffset, change.rangeLength, change.text], now);
+    });
+  }
+  for (const change of ordered) {
+    recording.text = applyEdit(recording.text, [0, change.rangeOffset, change.rangeLength, change.text]);
+  }
+  recording.mergeable = ordered.length === 1;
+  recording.keystrokeAt = now;
+  recording.log.durationMs = now - recording.startedAt;
+}
+
+/** Records the editor switching to another language's buffer. */
+export function recordLanguageSwitch(recording: EditRecording, language: string, text: string, now = Date.now()) {
+  const { log } = recording;
+  if (log.truncated) {
+    return;
+  }
+  log.switches = [...(log.switches ?? []), { index: log.edits.length, language }];
+  addEntry(recording, [now - recording.entryAt, 0, recording.text.length, text], now);
+  recording.text = text;
+  recording.mergeable = false;
+  recording.keystrokeAt = now;
+  log.durationMs = now - recording.startedAt;
+}
+
+/** A copy of the log so far, to store with the answer. */
+export function finishEditLog(recording: EditRecording): EditLog {
+  return { ...recording.log, edits: recording.log.edits.map(entry => [...entry] as EditEntry) };
+}
+
+export interface Replay {
+  log: EditLog;
+  // When each entry happens, in ms from the start
+  times: number[];
+  // The text before every CHECKPOINT_INTERVAL-th entry
+  checkpoints: string[];
+}
+
+export function buildReplay(log: EditLog): Replay {
+  const times: number[] = [];
+  const checkpoints: string[] = [];
+  let time = 0;
+  let text = log.initial;
+  log.edits.forEach((entry, index) => {
+    if (index % CHECKPOINT_INTERVAL === 0) {
+      checkpoints.push(text);
+    }
+    time += entry[0];
+    times.push(time);
+    text = applyEdit(text, entry);
+  });
+  return { log, times, checkpoints };
+}
+
+/** How many entries have happened `ms` into the replay. */
+export function stepAt(replay: Replay, ms: number): number {
+  let low = 0;
+  let high = replay.times.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (replay.times[middle] <= ms) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+/** The text once the first `step` entries are applied. */
+export function textAt(replay: Replay, step: number): string {
+  const checkpoint = Math.min(Math.floor(step / CHECKPOINT_INTERVAL), replay.checkpoints.length - 1);
+  if (checkpoint < 0) {
+    return replay.log.initial;
+  }
+  let text = replay.checkpoints[checkpoint];
+  for (let index = checkpoint * CHECKPOINT_INTERVAL; index < step; index++) {
+    text = applyEdit(text, replay.log.edits[index]);
+  }
+  return text;
+}
+
+/** The editor language once the first `step` entries are applied. */
+export function languageAt(replay: Replay, step: number): string | undefined {
+  const switches = (replay.log.switches ?? []).filter(languageSwitch => languageSwitch.index < step);
+  return switches.length > 0 ? switches[switches.length - 1].language : replay.log.language;
+}
+
+// Something a reviewer may want to jump to
+export interface ReplayMoment {
+  kind: 'large-insert' | 'pause';
+  step: number;
+  at: number;
+  // Characters inserted, or how long the pause lasted
+  size: number;
+}
+
+/** Large blocks that appeared at once and long pauses, in order. */
+export function findReplayMoments(replay: Replay): ReplayMoment[] {
+  const switched = new Set((replay.log.switches ?? []).map(languageSwitch => languageSwitch.index));
+  return replay.log.edits.flatMap((entry, index): ReplayMoment[] => [
+    ...(entry[0] >= LONG_PAUSE_MS ? [{ kind: 'pause' as const, step: index, at: replay.times[index] - entry[0], size: entry[0] }] : []),
+    ...(!switched.has(index) && entry[3].length >= LARGE_INSERT_LENGTH
+      ? [{ kind: 'large-insert' as const, step: index + 1, at: replay.times[index], size: entry[3].length }]
+      : []),
+  ]);
+}
@@ -0,0 +1,296 @@
+import { Analysis, CandidateQuestion, Question } from '../interviewSchemas';
+import { numberFromEnv } from '../llm/config';
+import { SchemaValidationError, SchemaViolation, validate } from '../schema';
+import { runJavaScript } from './javascript';
+import { runPython } from './python';
+import { CodeTest, codeTestsSchema, ExecutionLanguage, ExecutionLimits, ExecutionRequest, ExecutionResult, RawExecution, TestResult } from './types';
+
+export * from './types';
+
+// Runs a coding answer against its question's test cases, locally and in a
+// sandbox (javascript.ts, python.ts), and blends the pass rate into the
+// grade. Runs are queued so only a few execute at once; the queue is kept on
+// globalThis like the LLM rate limiter.
+//
+// Environment variables:
+// - EXECUTION_TIMEOUT_MS: wall-clock limit per run, all tests together (default 5000)
+// - EXECUTION_MEMORY_MB: heap or address-space limit per run (default 128)
+// - EXECUTION_OUTPUT_LIMIT: characters of stdout and of stderr kept (default 10000)
+// - EXECUTION_CONCURRENCY: runs at once (default 2)
+// - EXECUTION_RUNS_PER_MINUTE: runs from the editor per interview (default 20)
+// - EXECUTION_SCORE_WEIGHT: share of a coding grade that comes from the tests, 0-1 (default 0.5)
+// - PYTHON_PATH: read by python.ts
+
+export const MAX_CODE_LENGTH = 50000;
+
+// Relative and absolute tolerance when comparing numbers
+const NUMBER_TOLERANCE = 1e-9;
+
+const LANGUAGE_ALIASES: { [alias: string]: ExecutionLanguage } = {
+  javascript: 'javascript',
+  js: 'javascript',
+  node: 'javascript',
+  nodejs: 'javascript',
+  typescript: 'typescript',
+  ts: 'typescript',
+  python: 'python',
+  python3: 'python',
+  py: 'python',
+};
+
+interface ExecutionQueue {
+  running: number;
+  waiting: (() => void)[];
+}
+
+interface RunWindow {
+  count: number;
+  resetAt: number;
+}
+
+const globalForExecution = globalThis as unknown as {
+  executionQueue?: ExecutionQueue;
+  editorRuns?: Map<string, RunWindow>;
+};
+
+const queue: ExecutionQueue = globalForExecution.executionQueue ?? { running: 0, waiting: [] };
+const editorRuns: Map<string, RunWindow> = globalForExecution.editorRuns ?? new Map();
+globalForExecution.executionQueue = queue;
+globalForExecution.editorRuns = editorRuns;
+
+export function getExecutionLimits(): ExecutionLimits {
+  return {
+    timeoutMs: Math.max(100, numberFromEnv('EXECUTION_TIMEOUT_MS', 5000)),
+    memoryMb: Math.max(32, numberFromEnv('EXECUTION_MEMORY_MB', 128)),
+    outputLimit: numberFromEnv('EXECUTION_OUTPUT_LIMIT', 10000),
+  };
+}
+
+/** The runner for a question or editor language, or null when answers in it can't be executed. */
+export function toExecutionLanguage(language: string | undefined): ExecutionLanguage | null {
+  return (language && LANGUAGE_ALIASES[language.trim().toLowerCase()]) || null;
+}
+
+/** Problems with code submitted for execution, as JSON paths and messages; empty when it can be run. */
+export function checkExecutionRequest(input: {
+  code?: unknown;
+  language?: unknown;
+  functionName?: unknown;
+  tests?: unknown;
+}): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  if (typeof input.code !== 'string' || !input.code.trim()) {
+    violations.push({ path: '$.code', message: 'must not be empty' });
+  } else if (input.code.length > MAX_CODE_LENGTH) {
+    violations.push({ path: '$.code', message: `must be at most ${MAX_CODE_LENGTH} characters` });
+  }
+  if (typeof input.language !== 'string' || !toExecutionLanguage(input.language)) {
+    violations.push({ path: '$.language', message: `must be one of ${Object.keys(LANGUAGE_ALIASES).join(', ')}` });
+  }
+  // Interpolated into the harness, so only plain identifiers
+  if (typeof input.functionName !== 'string' || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(input.functionName)) {
+    violations.push({ path: '$.functionName', message: 'must be a function name' });
+  }
+  violations.push(...validate(codeTestsSchema, input.tests, '$.tests'));
+  return violations;
+}
+
+/**
+ * Counts a run from the editor against its interview's per-minute limit.
+ * Returns how many milliseconds to wait when the limit is spent, else null.
+ */
+export function consumeEditorRun(interviewId: string): number | null {
+  const now = Date.now();
+  editorRuns.forEach((window, key) => {
+    if (window.resetAt <= now) {
+      editorRuns.delete(key);
+    }
+  });
+
+  const window = editorRuns.get(interviewId) ?? { count: 0, resetAt: now + 60000 };
+  if (window.count >= numberFromEnv('EXECUTION_RUNS_PER_MINUTE', 20)) {
+    return window.resetAt - now;
+  }
+  window.count += 1;
+  editorRuns.set(interviewId, window);
+  return null;
+}
+
+async function withExecutionSlot<T>(run: () => Promise<T>): Promise<T> {
+  if (queue.running >= Math.max(1, numberFromEnv('EXECUTION_CONCURRENCY', 2))) {
+    await new Promise<void>(resolve => queue.waiting.push(resolve));
+  }
+  queue.running++;
+  try {
+    return await run();
+  } finally {
+    queue.running--;
+    queue.waiting.shift()?.();
+  }
+}
+
+/** Compares JSON values; numbers within a small tolerance, object keys in any order. */
+export function valuesEqual(actual: unknown, expected: unknown): boolean {
+  if (typeof actual === 'number' && typeof expected === 'number') {
+    return Math.abs(actual - expected) <= NUMBER_TOLERANCE * Math.max(1, Math.abs(expected));
+  }
+  if (Array.isArray(actual) || Array.isArray(expected)) {
+    return Array.isArray(actual) && Array.isArray(expected) && actual.length === expected.length
+      && actual.every((item, index) => valuesEqual(item, expected[index]));
+  }
+  if (actual && expected && typeof actual === 'object' && typeof expected === 'object') {
+    const a = actual as { [key: string]: unknown };
+    const b = expected as { [key: string]: unknown };
+    const keys = Object.keys(b);
+    return Object.keys(a).length === keys.length && keys.every(key => key in a && valuesEqual(a[key], b[key]));
+  }
+  return actual === expected;
+}
+
+function testName(test: CodeTest, index: number): string {
+  return test.name?.trim() || `Test ${index + 1}`;
+}
+
+/** Matches a runner's report up with the tests; tests that didn't finish fail. */
+function toExecutionResult(request: ExecutionRequest, raw: RawExecution, runtimeMs: number): ExecutionResult {
+  const tests: TestResult[] = request.tests.map((test, index) => {
+    const outcome = raw.tests[index];
+    const result: TestResult = {
+      name: testName(test, index),
+      passed: false,
+      hidden: test.hidden,
+      args: test.args,
+      expected: test.expected,
+      durationMs: outcome?.durationMs ?? 0,
+    };
+    if (!outcome) {
+      // The test running when the run was stopped, then the ones after it
+      const stopped = raw.status === 'timeout' || raw.status === 'memory-limit';
+      result.error = stopped && index === raw.tests.length ? raw.error : 'Not run';
+    } else if (outcome.error !== undefined) {
+      result.error = outcome.error;
+    } else {
+      result.actual = outcome.actual ?? null;
+      result.passed = valuesEqual(result.actual, test.expected);
+    }
+    return result;
+  });
+
+  const passed = tests.filter(test => test.passed).length;
+  return {
+    language: request.language,
+    status: raw.status ?? (passed === tests.length ? 'passed' : 'failed'),
+    passed,
+    total: tests.length,
+    tests,
+    stdout: raw.stdout,
+    stderr: raw.stderr,
+    runtimeMs,
+    error: raw.error,
+  };
+}
+
+/**
+ * Runs code against test cases: the named function is called with each
+ * test's arguments and its return value compared with the expected one.
+ * Throws SchemaValidationError when the request can't be run; failures of
+ * the code itself (syntax errors, exceptions, limits) are reported in the
+ * result.
+ */
+export async function runTests(input: Omit<ExecutionRequest, 'language'> & { language: string }): Promise<ExecutionResult> {
+  const violations = checkExecutionRequest(input);
+  if (violations.length > 0) {
+    throw new SchemaValidationError(violations);
+  }
+
+  const request: ExecutionRequest = { ...input, language: toExecutionLanguage(input.language)! };
+  const limits = getExecutionLimits();
+  return withExecutionSlot(async () => {
+    const started = Date.now();
+    const raw = request.language === 'python'
+      ? await runPython(request, limits)
+      : await runJavaScript(request, limits);
+    const result = toExecutionResult(request, raw, Date.now() - started);
+    console.log('Executed coding answer:', {
+      language: result.language,
+      status: result.status,
+      passed: result.passed,
+      total: result.total,
+      runtimeMs: result.runtimeMs,
+    });
+    return result;
+  });
+}
+
+/**
+ * Problems with a generated coding question's tests, as JSON paths and
+ * messages: it needs a function name and both visible and hidden tests, and
+ * its model answer must pass every one. Empty when the question can be used.
+ */
+export async function checkQuestionTests(question: Question, language: ExecutionLanguage): Promise<SchemaViolation[]> {
+  const code = question.modelAnswer.content;
+  const tests = question.tests ?? [];
+  const violations = checkExecutionRequest({ code, language, functionName: question.functionName, tests: question.tests })
+    .map(violation => (violation.path === '$.code' ? { ...violation, path: '$.modelAnswer.content' } : violation));
+  if (!tests.some(test => !test.hidden)) {
+    violations.push({ path: '$.tests', message: 'must include visible example tests' });
+  }
+  if (!tests.some(test => test.hidden)) {
+    violations.push({ path: '$.tests', message: 'must include hidden tests' });
+  }
+  if (violations.length > 0) {
+    return violations;
+  }
+
+  const result = await runTests({ code, language, functionName: question.functionName!, tests });
+  if (result.status === 'error') {
+    return [{ path: '$.modelAnswer.content', message: result.error ?? 'does not run' }];
+  }
+  return result.tests.flatMap((test, index) => test.passed ? [] : [{
+    path: `$.tests[${index}]`,
+    message: `expects ${JSON.stringify(test.expected)} but the model answer ${test.error ? `fails: ${test.error}` : `returns ${JSON.stringify(test.actual)}`}`,
+  }]);
+}
+
+/** The question without its hidden tests, for sending to the candidate. */
+export function withoutHiddenTests(question: Question): CandidateQuestion {
+  if (!question.tests) {
+    return question;
+  }
+  const tests = question.tests.filter(test => !test.hidden);
+  return { ...question, tests, hiddenTests: question.tests.length - tests.length };
+}
+
+/**
+ * A result safe to send to the candidate: hidden tests keep only whether
+ * they passed, and the output is dropped when they ran, since the answer
+ * could print their arguments.
+ */
+export function withoutHiddenDetails(execution: ExecutionResult): ExecutionResult {
+  if (!execution.tests.some(test => test.hidden)) {
+    return execution;
+  }
+  return {
+    ...execution,
+    tests: execution.tests.map(test => test.hidden
+      ? { name: test.name, hidden: true, passed: test.passed, durationMs: test.durationMs }
+      : test),
+    stdout: '',
+    stderr: '',
+  };
+}
+
+/**
+ * Blends the test pass rate into an LLM grade. The LLM's own score is kept
+ * as `llmScore`; hidden tests' details are left out of the result.
+ */
+export function combineScores(analysis: Analysis, execution: ExecutionResult): Analysis {
+  const weight = Math.min(numberFromEnv('EXECUTION_SCORE_WEIGHT', 0.5), 1);
+  const testScore = execution.total > 0 ? (10 * execution.passed) / execution.total : 0;
+  return {
+    ...analysis,
+    score: Math.round(((1 - weight) * analysis.score + weight * testScore) * 10) / 10,
+    llmScore: analysis.llmScore ?? analysis.score,
+    execution: withoutHiddenDetails(execution),
+  };
+}
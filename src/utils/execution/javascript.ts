@@ -0,0 +1,240 @@
+import { Worker } from 'worker_threads';
+import { ExecutionLimits, ExecutionRequest, RawExecution } from './types';
+
+// JavaScript and TypeScript run in a worker thread with a capped heap, inside
+// a fresh vm context. The context's global has no prototype and nothing from
+// the host is passed in: no require, process, timers or fetch, and eval and
+// WebAssembly are disabled. Test arguments go in and results come out as JSON
+// text only, so the candidate's code never holds a host object.
+//
+// A synchronous loop is stopped by the vm timeout and the tests that finished
+// are still reported; anything else that overruns (a promise chain that never
+// settles) is stopped by terminating the worker.
+
+// Extra time for the worker to start and report before it is terminated
+const WORKER_GRACE_MS = 2000;
+
+// Runs inside the context before the candidate's code. Console output is
+// captured up to the output limit; `__harness` calls the function once per
+// test and reports results as JSON.
+const PRELUDE = `(function (limit) {
+  'use strict';
+  var global = globalThis;
+  var parse = JSON.parse, stringify = JSON.stringify, now = Date.now;
+  var output = { stdout: '', stderr: '' };
+  var results = [], done = false, missing = false;
+
+  function format(value) {
+    if (typeof value === 'string') return value;
+    try {
+      var text = stringify(value);
+      return text === undefined ? String(value) : text;
+    } catch (error) {
+      return String(value);
+    }
+  }
+
+  function writer(stream) {
+    return function () {
+      if (output[stream].length >= limit) return;
+      var parts = [];
+      for (var i = 0; i < arguments.length; i++) parts.push(format(arguments[i]));
+      output[stream] = (output[stream] + parts.join(' ') + '\\n').slice(0, limit);
+    };
+  }
+
+  function describe(error) {
+    return error instanceof Error ? error.name + ': ' + error.message : 'Uncaught ' + format(error);
+  }
+
+  function serialize(value) {
+    var text = value === undefined ? undefined : stringify(value);
+    return text === undefined ? null : parse(text);
+  }
+
+  async function run(fn, argsJson) {
+    if (typeof fn !== 'function') {
+      missing = done = true;
+      return;
+    }
+    var calls = parse(argsJson);
+    try {
+      for (var i = 0; i < calls.length; i++) {
+        var started = now();
+        var entry = {};
+        try {
+          var value = fn.apply(undefined, calls[i]);
+          if (value !== null && typeof value === 'object' && typeof value.then === 'function') value = await value;
+          entry.actual = serialize(value);
+        } catch (error) {
+          entry.error = describe(error);
+        }
+        entry.durationMs = now() - started;
+        results.push(entry);
+      }
+    } finally {
+      done = true;
+    }
+  }
+
+  function report() {
+    return stringify({ done: done, missing: missing, tests: results, stdout: output.stdout, stderr: output.stderr });
+  }
+
+  var log = writer('stdout'), warn = writer('stderr');
+  global.console = { log: log, info: log, debug: log, warn: warn, error: warn };
+  global.module = { exports: {} };
+  global.exports = global.module.exports;
+  Object.defineProperty(global, '__harness', { value: Object.freeze({ run: run, report: report }) });
+})`;
+
+// The worker's own code; it has require, the candidate's code does not
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const vm = require('vm');
+
+function describe(error) {
+  if (error instanceof SyntaxError) {
+    const line = /^solution\\.\\w+:(\\d+)/.exec(String(error.stack));
+    return 'SyntaxError: ' + error.message + (line ? ' (line ' + line[1] + ')' : '');
+  }
+  try {
+    return String(error && error.name) + ': ' + String(error && error.message);
+  } catch (unreadable) {
+    return 'Uncaught exception';
+  }
+}
+
+function read(context) {
+  const text = vm.runInContext('__harness.report()', context, { timeout: 1000 });
+  return typeof text === 'string' ? JSON.parse(text) : { done: true, tests: [], stdout: '', stderr: '' };
+}
+
+async function main() {
+  const { source, filename, functionName, argsJson, timeoutMs, outputLimit, prelude } = workerData;
+  const deadline = Date.now() + timeoutMs;
+  const remaining = () => Math.max(1, deadline - Date.now());
+
+  const context = vm.createContext(Object.create(null), {
+    name: 'solution',
+    codeGeneration: { strings: false, wasm: false },
+  });
+  vm.runInContext(prelude, context)(outputLimit);
+
+  let script;
+  try {
+    script = new vm.Script(source, { filename });
+  } catch (error) {
+    return { status: 'error', error: describe(error), tests: [], stdout: '', stderr: '' };
+  }
+
+  const lookup = 'typeof ' + functionName + " === 'function' ? " + functionName +
+    ' : module.exports && module.exports.' + functionName;
+  try {
+    script.runInContext(context, { timeout: remaining() });
+    vm.runInContext('__harness.run(' + lookup + ', ' + JSON.stringify(argsJson) + ')', context, { timeout: remaining() });
+  } catch (error) {
+    const report = read(context);
+    if (error && error.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+      return { status: 'timeout', error: 'Stopped after ' + timeoutMs + ' ms', tests: report.tests, stdout: report.stdout, stderr: report.stderr };
+    }
+    return { status: 'error', error: describe(error), tests: [], stdout: report.stdout, stderr: report.stderr };
+  }
+
+  // Asynchronous solutions finish on later turns of the event loop
+  for (;;) {
+    const report = read(context);
+    if (report.missing) {
+      return { status: 'error', error: 'No function named ' + functionName + ' is defined', tests: [], stdout: report.stdout, stderr: report.stderr };
+    }
+    if (report.done || Date.now() >= deadline) {
+      return {
+        status: report.done ? undefined : 'timeout',
+        error: report.done ? undefined : 'Stopped after ' + timeoutMs + ' ms',
+        tests: report.tests,
+        stdout: report.stdout,
+        stderr: report.stderr,
+      };
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+main().then(
+  result => parentPort.postMessage(result),
+  error => parentPort.postMessage({ status: 'error', error: describe(error), tests: [], stdout: '', stderr: '' })
+);
+`;
+
+/** Compiles TypeScript to JavaScript; types are stripped, not checked. Returns an error message for syntax errors. */
+async function transpileTypeScript(code: string): Promise<{ source: string } | { error: string }> {
+  const ts = await import('typescript');
+  const output = ts.transpileModule(code, {
+    compilerOptions: { target: ts.ScriptTarget.ES2020, module: ts.ModuleKind.CommonJS },
+    fileName: 'solution.ts',
+    reportDiagnostics: true,
+  });
+  const diagnostic = output.diagnostics?.find(d => d.category === ts.DiagnosticCategory.Error);
+  if (diagnostic) {
+    const line = diagnostic.file && diagnostic.start !== undefined
+      ? ` (line ${diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start).line + 1})`
+      : '';
+    return { error: `SyntaxError: ${ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')}${line}` };
+  }
+  return { source: output.outputText };
+}
+
+export async function runJavaScript(request: ExecutionRequest, limits: ExecutionLimits): Promise<RawExecution> {
+  let source = request.code;
+  if (request.language === 'typescript') {
+    const transpiled = await transpileTypeScript(request.code);
+    if ('error' in transpiled) {
+      return { status: 'error', error: transpiled.error, tests: [], stdout: '', stderr: '' };
+    }
+    source = transpiled.source;
+  }
+
+  return new Promise(resolve => {
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      env: {},
+      stdout: true,
+      stderr: true,
+      resourceLimits: { maxOldGenerationSizeMb: limits.memoryMb, maxYoungGenerationSizeMb: 16, stackSizeMb: 4 },
+      workerData: {
+        source,
+        filename: request.language === 'typescript' ? 'solution.ts' : 'solution.js',
+        functionName: request.functionName,
+        argsJson: JSON.stringify(request.tests.map(test => test.args)),
+        timeoutMs: limits.timeoutMs,
+        outputLimit: limits.outputLimit,
+        prelude: PRELUDE,
+      },
+    });
+
+    let settled = false;
+    const settle = (result: RawExecution) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      void worker.terminate();
+      resolve(result);
+    };
+
+    const timer = setTimeout(() => {
+      settle({ status: 'timeout', error: `Stopped after ${limits.timeoutMs} ms`, tests: [], stdout: '', stderr: '' });
+    }, limits.timeoutMs + WORKER_GRACE_MS);
+
+    worker.on('message', settle);
+    worker.on('error', (error: Error & { code?: string }) => {
+      settle(error.code === 'ERR_WORKER_OUT_OF_MEMORY'
+        ? { status: 'memory-limit', error: `Ran out of memory (limit ${limits.memoryMb} MB)`, tests: [], stdout: '', stderr: '' }
+        : { status: 'error', error: error.message, tests: [], stdout: '', stderr: '' });
+    });
+    worker.on('exit', () => {
+      settle({ status: 'error', error: 'The runner stopped unexpectedly', tests: [], stdout: '', stderr: '' });
+    });
+  });
+}
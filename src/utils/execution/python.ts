@@ -0,0 +1,243 @@
+import { spawn } from 'child_process';
+import { randomBytes } from 'crypto';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { ExecutionLimits, ExecutionRequest, RawExecution } from './types';
+
+// Python runs in a separate interpreter started in isolated mode (-I: no
+// site-packages, environment variables or working directory on the import
+// path) with an empty environment and an empty temporary working directory.
+// The harness caps address space and CPU time, forbids writing files, then
+// installs an audit hook that refuses sockets, subprocesses, ctypes, file
+// access outside the standard library and frame introspection before the
+// candidate's code is compiled. The process is killed when the wall-clock
+// limit passes.
+//
+// Environment variables:
+// - PYTHON_PATH: the interpreter (default python3)
+
+// Extra time for the interpreter to start before it is killed
+const STARTUP_GRACE_MS = 2000;
+
+// Each finished test, and finally the captured output, is printed on a line
+// starting with a random marker; the candidate's own output is captured
+// separately
+const HARNESS = String.raw`
+import sys, os, json, time, io, resource, traceback
+import math, collections, itertools, functools, heapq, bisect, re, string, typing, dataclasses
+import fractions, decimal, statistics, operator, copy, random, array, enum, abc, datetime
+
+payload = json.loads(sys.stdin.read())
+marker = payload['marker']
+limit = payload['outputLimit']
+real_stdout = sys.stdout
+
+memory = payload['memoryMb'] * 1024 * 1024
+resource.setrlimit(resource.RLIMIT_AS, (memory, memory))
+cpu = max(1, -(-payload['timeoutMs'] // 1000))
+resource.setrlimit(resource.RLIMIT_CPU, (cpu, cpu + 1))
+resource.setrlimit(resource.RLIMIT_FSIZE, (0, 0))
+# No effect when the server runs as root, so the audit hook below also
+# refuses every way of starting a process
+resource.setrlimit(resource.RLIMIT_NPROC, (0, 0))
+
+stdlib = tuple(sorted({os.path.realpath(prefix) for prefix in (sys.prefix, sys.base_prefix, sys.exec_prefix, sys.base_exec_prefix)}))
+blocked_modules = {'socket', '_socket', 'ssl', '_ssl', 'subprocess', '_posixsubprocess', 'ctypes', '_ctypes',
+                   'multiprocessing', '_multiprocessing', 'select', 'selectors', 'asyncio', 'signal', 'mmap', 'pty',
+                   'fcntl', 'http', 'urllib', 'ftplib', 'smtplib', 'imaplib', 'poplib', 'telnetlib', 'webbrowser'}
+blocked_prefixes = ('socket.', 'subprocess.', 'ctypes.', 'shutil.', 'os.system', 'os.exec', 'os.posix_spawn',
+                    'os.spawn', 'os.fork', 'os.kill', 'os.chdir', 'os.chmod', 'os.chown', 'os.link', 'os.symlink',
+                    'os.mkdir', 'os.remove', 'os.rename', 'os.rmdir', 'os.truncate', 'os.putenv', 'os.unsetenv',
+                    'os.setxattr', 'os.removexattr', 'os.utime', 'sys._getframe', 'sys.settrace', 'sys.setprofile',
+                    'sys._current_frames', 'gc.get_objects', 'gc.get_referrers', 'gc.get_referents', 'code.__new__',
+                    'function.__new__', 'marshal.', 'pickle.', 'resource.setrlimit', 'sys.addaudithook', 'cpython.',
+                    'os.popen', 'os.startfile', 'os.wait', 'pty.', '_posixsubprocess.')
+
+# Only paths inside the standard library, after resolving .. and symlinks;
+# file descriptors and anything else that isn't a path are refused
+def readable(name):
+    if isinstance(name, bool) or not isinstance(name, (str, bytes, os.PathLike)):
+        return False
+    try:
+        path = os.path.realpath(os.fsdecode(name))
+    except (TypeError, ValueError, OSError):
+        return False
+    return any(path == prefix or path.startswith(prefix.rstrip(os.sep) + os.sep) for prefix in stdlib)
+
+WRITE_FLAGS = os.O_WRONLY | os.O_RDWR | os.O_CREAT | os.O_TRUNC | os.O_APPEND
+
+# open() passes a mode string; os.open passes no mode, only its flags
+def writes(mode, flags):
+    if mode is not None:
+        return any(flag in str(mode) for flag in 'wax+')
+    return not isinstance(flags, int) or bool(flags & WRITE_FLAGS)
+
+def audit(event, args):
+    if event == 'import':
+        if args[0].split('.')[0] in blocked_modules:
+            raise ImportError('Importing ' + args[0] + ' is not allowed here')
+    elif event == 'open':
+        if not readable(args[0]) or writes(args[1], args[2]):
+            raise PermissionError('File access is not allowed here')
+    elif event in ('os.listdir', 'os.scandir'):
+        if not readable(args[0]):
+            raise PermissionError('File access is not allowed here')
+    elif event.startswith(blocked_prefixes):
+        raise RuntimeError(event + ' is not allowed here')
+
+def emit(kind, value):
+    real_stdout.write(marker + kind + ' ' + json.dumps(value) + '\n')
+    real_stdout.flush()
+
+def describe(error):
+    return ''.join(traceback.format_exception_only(type(error), error)).strip()
+
+def plain(value):
+    if isinstance(value, (set, frozenset)):
+        try:
+            return sorted(value)
+        except TypeError:
+            return list(value)
+    return repr(value)
+
+# Return values as JSON; NaN and infinities become null, as in JavaScript
+def serialize(value):
+    return json.loads(json.dumps(value, default=plain), parse_constant=lambda constant: None)
+
+stdout, stderr = io.StringIO(), io.StringIO()
+code = payload['code']
+name = payload['functionName']
+calls = payload['calls']
+sys.addaudithook(audit)
+sys.stdout, sys.stderr = stdout, stderr
+
+def finish(**result):
+    sys.stdout, sys.stderr = real_stdout, sys.__stderr__
+    result['stdout'] = stdout.getvalue()[:limit]
+    result['stderr'] = stderr.getvalue()[:limit]
+    emit('done', result)
+    sys.exit(0)
+
+namespace = {'__name__': '__solution__', '__builtins__': __builtins__}
+try:
+    exec(compile(code, 'solution.py', 'exec'), namespace)
+except SyntaxError as error:
+    finish(status='error', error='SyntaxError: ' + str(error.msg) + ' (line ' + str(error.lineno) + ')')
+except MemoryError:
+    finish(status='memory-limit', error='Ran out of memory')
+except BaseException as error:
+    finish(status='error', error=describe(error))
+
+fn = namespace.get(name)
+if not callable(fn):
+    finish(status='error', error='No function named ' + name + ' is defined')
+
+for args in calls:
+    started = time.perf_counter()
+    entry = {}
+    try:
+        entry['actual'] = serialize(fn(*args))
+    except BaseException as error:
+        entry['error'] = describe(error)
+    entry['durationMs'] = round((time.perf_counter() - started) * 1000, 2)
+    emit('test', entry)
+
+finish()
+`;
+
+function emptyDirectory(): Promise<string> {
+  return mkdtemp(path.join(tmpdir(), 'interview-run-'));
+}
+
+export async function runPython(request: ExecutionRequest, limits: ExecutionLimits): Promise<RawExecution> {
+  const marker = `@@${randomBytes(12).toString('hex')}@@`;
+  const cwd = await emptyDirectory();
+
+  try {
+    return await new Promise<RawExecution>(resolve => {
+      const child = spawn(process.env.PYTHON_PATH || 'python3', ['-I', '-c', HARNESS], {
+        cwd,
+        // Nothing from the server's environment, API keys included
+        env: {} as NodeJS.ProcessEnv,
+        stdio: ['pipe', 'pipe', 'pipe'],
+      });
+
+      // The harness's own stdout only carries marker lines; anything past a
+      // generous cap is dropped
+      const captureLimit = limits.outputLimit * 4 + 1024 * 1024;
+      let stdout = '';
+      let stderr = '';
+      child.stdout.on('data', chunk => {
+        if (stdout.length < captureLimit) stdout += chunk;
+      });
+      child.stderr.on('data', chunk => {
+        if (stderr.length < limits.outputLimit) stderr += chunk;
+      });
+
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        child.kill('SIGKILL');
+      }, limits.timeoutMs + STARTUP_GRACE_MS);
+
+      child.on('error', error => {
+        clearTimeout(timer);
+        resolve({ status: 'error', error: `Could not start Python: ${error.message}`, tests: [], stdout: '', stderr: '' });
+      });
+
+      child.on('close', (code, signal) => {
+        clearTimeout(timer);
+        const tests: RawExecution['tests'] = [];
+        let done: (Partial<RawExecution> & { stdout: string; stderr: string }) | null = null;
+        for (const line of stdout.split('\n')) {
+          if (!line.startsWith(marker)) {
+            continue;
+          }
+          const [kind, ...rest] = line.slice(marker.length).split(' ');
+          let value;
+          try {
+            value = JSON.parse(rest.join(' '));
+          } catch {
+            // Cut off at the capture limit
+            continue;
+          }
+          if (kind === 'test') {
+            tests.push(value);
+          } else if (kind === 'done') {
+            done = value;
+          }
+        }
+
+        if (done) {
+          resolve({ status: done.status, error: done.error, tests, stdout: done.stdout, stderr: done.stderr });
+        } else if (timedOut || signal === 'SIGXCPU' || signal === 'SIGKILL') {
+          resolve({ status: 'timeout', error: `Stopped after ${limits.timeoutMs} ms`, tests, stdout: '', stderr: '' });
+        } else {
+          // Crashed without reporting, e.g. a MemoryError while reporting or a fatal error
+          const memory = /MemoryError/.test(stderr);
+          resolve({
+            status: memory ? 'memory-limit' : 'error',
+            error: memory ? `Ran out of memory (limit ${limits.memoryMb} MB)` : `Python exited with code ${code}`,
+            tests,
+            stdout: '',
+            stderr: stderr.slice(0, limits.outputLimit),
+          });
+        }
+      });
+
+      child.stdin.on('error', () => undefined);
+      child.stdin.end(JSON.stringify({
+        marker,
+        code: request.code,
+        functionName: request.functionName,
+        calls: request.tests.map(test => test.args),
+        timeoutMs: limits.timeoutMs,
+        memoryMb: limits.memoryMb,
+        outputLimit: limits.outputLimit,
+      }));
+    });
+  } finally {
+    await rm(cwd, { recursive: true, force: true });
+  }
+}
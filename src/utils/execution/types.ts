@@ -0,0 +1,85 @@
+import { Schema } from '../schema';
+
+// A test case for a coding question: the candidate's function is called with
+// `args` and its return value compared with `expected` (JSON values; numbers
+// are compared with a small tolerance).
+export interface CodeTest {
+  name?: string;
+  args: unknown[];
+  expected: unknown;
+  // Not shown to the candidate, who can only run the visible tests before
+  // submitting
+  hidden?: boolean;
+}
+
+export const MAX_TESTS = 50;
+
+export const codeTestSchema: Schema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 1, optional: true },
+    args: { type: 'array', items: { type: 'any' } },
+    expected: { type: 'any' },
+    hidden: { type: 'boolean', optional: true },
+  },
+};
+
+export const codeTestsSchema: Schema = { type: 'array', items: codeTestSchema, minItems: 1, maxItems: MAX_TESTS };
+
+export type ExecutionLanguage = 'javascript' | 'typescript' | 'python';
+
+export const EXECUTION_LANGUAGES: ExecutionLanguage[] = ['javascript', 'typescript', 'python'];
+
+// passed/failed: every test ran; error: the code didn't load (syntax error,
+// top-level exception, no function of that name); timeout and memory-limit:
+// the run was stopped, tests that didn't finish are reported as failed
+export type ExecutionStatus = 'passed' | 'failed' | 'error' | 'timeout' | 'memory-limit';
+
+// Hidden tests leave the server as name, hidden, passed and durationMs only
+export interface TestResult {
+  name: string;
+  passed: boolean;
+  hidden?: boolean;
+  args?: unknown[];
+  expected?: unknown;
+  // The return value, as JSON; absent when the call threw or never finished
+  actual?: unknown;
+  error?: string;
+  durationMs: number;
+}
+
+export interface ExecutionResult {
+  language: ExecutionLanguage;
+  status: ExecutionStatus;
+  passed: number;
+  total: number;
+  tests: TestResult[];
+  stdout: string;
+  stderr: string;
+  runtimeMs: number;
+  error?: string;
+}
+
+export interface ExecutionRequest {
+  code: string;
+  language: ExecutionLanguage;
+  functionName: string;
+  tests: CodeTest[];
+}
+
+export interface ExecutionLimits {
+  timeoutMs: number;
+  memoryMb: number;
+  // Characters of stdout and of stderr kept
+  outputLimit: number;
+}
+
+// What a runner reports, before return values are checked: one entry per
+// test that finished, in order, with either its return value or its error
+export interface RawExecution {
+  status?: 'error' | 'timeout' | 'memory-limit';
+  error?: string;
+  tests: { actual?: unknown; error?: string; durationMs: number }[];
+  stdout: string;
+  stderr: string;
+}
@@ -0,0 +1,82 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+// Small JSON documents persisted under DATA_DIR (default ./data). Each
+// document is cached in memory after the first read and written atomically,
+// one write at a time, so concurrent requests can't interleave partial files.
+
+const globalForFileStore = globalThis as unknown as {
+  fileStoreCache?: Map<string, unknown>;
+  fileStoreWrites?: Map<string, Promise<void>>;
+};
+const cache: Map<string, unknown> = globalForFileStore.fileStoreCache ?? new Map();
+const writes: Map<string, Promise<void>> = globalForFileStore.fileStoreWrites ?? new Map();
+globalForFileStore.fileStoreCache = cache;
+globalForFileStore.fileStoreWrites = writes;
+
+export function getDataDir(): string {
+  return path.resolve(process.env.DATA_DIR || path.join(process.cwd(), 'data'));
+}
+
+function documentPath(name: string): string {
+  return path.join(getDataDir(), `${name}.json`);
+}
+
+/**
+ * Reads a document, returning `fallback` when it doesn't exist yet. The
+ * returned value is the cached instance; change it only through
+ * updateDocument.
+ */
+export async function readDocument<T>(name: string, fallback: T): Promise<T> {
+  if (cache.has(name)) {
+    return cache.get(name) as T;
+  }
+
+  let value: T;
+  try {
+    value = JSON.parse(await fs.readFile(documentPath(name), 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('Failed to read data file:', documentPath(name), error);
+      throw error;
+    }
+    value = fallback;
+  }
+
+  // Another request may have loaded it while we were reading
+  if (!cache.has(name)) {
+    cache.set(name, value);
+  }
+  return cache.get(name) as T;
+}
+
+async function writeDocument(name: string, value: unknown) {
+  const filePath = documentPath(name);
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(tempPath, JSON.stringify(value, null, 2));
+  await fs.rename(tempPath, filePath);
+}
+
+/**
+ * Applies `update` to a document and persists the result. Updates to the
+ * same document run strictly in order.
+ */
+export async function updateDocument<T, R>(name: string, fallback: T, update: (value: T) => { value: T; result: R }): Promise<R> {
+  const previous = writes.get(name) ?? Promise.resolve();
+
+  let result!: R;
+  const write = previous.then(async () => {
+    const current = await readDocument(name, fallback);
+    const updated = update(current);
+    await writeDocument(name, updated.value);
+    cache.set(name, updated.value);
+    result = updated.result;
+  });
+
+  // Keep the chain alive after a failed write
+  writes.set(name, write.catch(() => undefined));
+  await write;
+  return result;
+}
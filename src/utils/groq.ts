@@ -1,408 +1,281 @@
-const GROQ_API_KEY = process.env.NEXT_PUBLIC_GROQ_API_KEY;
-
-const API_URL = 'https://api.groq.com/openai/v1/chat/completions';
-
-// Rate limiting configuration
-let lastRequestTime = 0;
-const MIN_REQUEST_INTERVAL = 3000; // 3 seconds between requests
-
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-const waitForRateLimit = async () => {
-  const now = Date.now();
-  const timeSinceLastRequest = now - lastRequestTime;
-  
-  if (timeSinceLastRequest < MIN_REQUEST_INTERVAL) {
-    const waitTime = MIN_REQUEST_INTERVAL - timeSinceLastRequest;
-    await sleep(waitTime);
-  }
-  
-  lastRequestTime = Date.now();
+import { cached } from './cache';
+import { describeStaticAnalysis } from './codeAnalysis';
+import { answerLanguages, withStarters } from './codeStarters';
+import { combineGradings, ConsensusConfig, getConsensusConfig, withConsensus } from './consensus';
+import { checkQuestionTests, ExecutionLanguage, toExecutionLanguage } from './execution';
+import { crossCheckGrade, detectInjection, fenceUntrusted } from './injection';
+import { Analysis, AskedQuestion, Exchange, getQuestionSchema, InterviewContext, normalizeQuestionType, Question, QuestionType } from './interviewSchemas';
+import { DEFAULT_PLAN_QUESTIONS, InterviewPlan, normalizePlan, ProposedPlan, proposedPlanSchema } from './interviewPlan';
+import { CompletionMetadata, getProviderChain, getProviderConfig, ProviderConfig } from './llm';
+import { PromptName, PromptOverrides, renderPrompt, RenderedPrompt } from './prompts';
+import { buildRubricItems, DEFAULT_RUBRIC, gradingSchema, Rubric, RubricGrading, RubricItem, scoreRubricGrading } from './rubric';
+import { SchemaViolation } from './schema';
+import { findMostSimilar } from './similarity';
+import { completeStructured, StructuredOutputError, StructuredRequest } from './structured';
+import { getTechnologyCatalog, lookupTechnology } from './technologies';
+
+const DEFAULT_SIMILARITY_THRESHOLD = 0.45;
+const DEFAULT_MAX_REGENERATIONS = 2;
+const DEFAULT_MAX_TEST_ATTEMPTS = 3;
+// Room for the tests as well as the question and model answer
+const TESTED_QUESTION_MAX_TOKENS = 2000;
+const SUMMARY_LENGTH = 200;
+
+const QUESTION_PROMPTS: { [key in QuestionType]: PromptName } = {
+  mcq: 'question.mcq',
+  subjective: 'question.subjective',
+  coding: 'question.coding',
 };
 
-async function makeGroqRequest(prompt: string) {
-  if (!GROQ_API_KEY) {
-    throw new Error('GROQ API key is not configured');
-  }
-
-  await waitForRateLimit();
+export { validateQuestionResponse } from './interviewSchemas';
 
-  try {
-    const response = await fetch(API_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${GROQ_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'llama-3.2-90b-vision-preview',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a technical interviewer. Your responses must be in valid JSON format. Always wrap property names in double quotes. Do not include any text before or after the JSON object.',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        temperature: 0.7,
-        max_tokens: 1000,
-        top_p: 0.95,
-        stream: false,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('API response error:', {
-        status: response.status,
-        statusText: response.statusText,
-        errorText
-      });
-      
-      if (response.status === 429) {
-        throw new Error('Rate limit exceeded');
-      }
-      
-      throw new Error(`API request failed: ${response.status} ${response.statusText}`);
-    }
-
-    const responseData = await response.json();
-    console.log('Raw API response:', JSON.stringify(responseData, null, 2));
-    return responseData;
-  } catch (error) {
-    console.error('Error in makeGroqRequest:', error);
-    if (error instanceof Error) {
-      console.error('Error type:', error.constructor.name);
-      console.error('Error stack:', error.stack);
-    } else {
-      console.error('Non-Error object thrown');
-    }
-    throw error;
-  }
+// Progress reporting for streamed generation
+export interface GenerationCallbacks {
+  onToken?: (text: string) => void;
+  onRepair?: (attempt: number, violations: SchemaViolation[]) => void;
+  // The question was too close to an earlier one and is being regenerated
+  onDuplicate?: (attempt: number, similarity: number) => void;
+  // The model answer failed its own tests and the question is being regenerated
+  onDiscard?: (attempt: number, violations: SchemaViolation[]) => void;
 }
 
-interface ModelAnswer {
-  isCode: boolean;
-  language?: string;
-  content: string;
-  options?: { [key: string]: string };
-  correctOption?: string;
-  explanation?: string;
+function getSimilarityThreshold(): number {
+  const configured = Number(process.env.QUESTION_SIMILARITY_THRESHOLD);
+  return configured > 0 && configured <= 1 ? configured : DEFAULT_SIMILARITY_THRESHOLD;
 }
 
-interface Question {
-  question: string;
-  expectedTopics: string[];
-  difficulty: number;
-  modelAnswer: ModelAnswer;
+function getMaxRegenerations(): number {
+  const configured = Number(process.env.QUESTION_MAX_REGENERATIONS);
+  return Number.isInteger(configured) && configured >= 0 ? configured : DEFAULT_MAX_REGENERATIONS;
 }
 
-function parseJsonResponse(response: string, requiredFields: string[] = ['question', 'expectedTopics', 'difficulty', 'modelAnswer']): any {
-  if (!response || typeof response !== 'string') {
-    console.error('Invalid response type:', typeof response);
-    throw new Error('Response must be a non-empty string');
-  }
+function getMaxTestAttempts(): number {
+  const configured = Number(process.env.QUESTION_MAX_TEST_ATTEMPTS);
+  return Number.isInteger(configured) && configured >= 1 ? configured : DEFAULT_MAX_TEST_ATTEMPTS;
+}
 
-  console.log('Attempting to parse response:', response);
+function describeModels(chain: ProviderConfig[]): string[] {
+  return chain.map(config => `${config.provider}:${config.model}`);
+}
 
-  // First, try to find a JSON object in the response
-  const jsonMatch = response.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    console.error('No JSON object found in response');
-    throw new Error('No JSON object found in response');
+function summarizeQuestion(question: string): string {
+  const text = question.replace(/\s+/g, ' ').trim();
+  if (text.length <= SUMMARY_LENGTH) {
+    return text;
   }
+  return `${text.slice(0, text.lastIndexOf(' ', SUMMARY_LENGTH))}...`;
+}
 
-  let cleanedResponse = jsonMatch[0];
-
-  try {
-    // Try parsing the extracted JSON first
-    const parsed = JSON.parse(cleanedResponse);
-    
-    // Validate required fields
-    const missingFields = requiredFields.filter(field => !(field in parsed));
-    if (missingFields.length > 0) {
-      throw new Error(`Missing required fields: ${missingFields.join(', ')}`);
-    }
+function buildAvoidancePrompt(previousQuestions: AskedQuestion[], rejected: string[], overrides?: PromptOverrides): string {
+  let prompt = '';
 
-    return parsed;
-  } catch (initialError) {
-    console.error('Initial JSON Parse Error:', initialError);
-    console.log('Failed to parse JSON. Response details:', {
-      type: typeof cleanedResponse,
-      length: cleanedResponse.length,
-      preview: cleanedResponse.substring(0, 100),
-      charCodes: cleanedResponse.substring(0, 50).split('').map((c, i) => `[${i}]${c}(${c.charCodeAt(0)})`).join(' ')
-    });
-    
-    try {
-      // Try to fix common JSON issues
-      cleanedResponse = cleanedResponse
-        .replace(/^\s*|\s*$/g, '') // Trim whitespace
-        .replace(/[\u200B-\u200D\uFEFF]/g, '') // Remove zero-width spaces
-        .replace(/,(\s*[}\]])/g, '$1') // Remove trailing commas
-        .replace(/([{,]\s*)(\w+)(\s*:)/g, '$1"$2"$3') // Quote unquoted keys
-        .replace(/:\s*'([^']*)'/g, ':"$1"') // Replace single quotes with double quotes
-        .replace(/\\([^"\\\/bfnrtu])/g, '$1') // Fix invalid escape sequences
-        .replace(/\n/g, '\\n') // Escape newlines
-        .replace(/\r/g, '\\r') // Escape carriage returns
-        .replace(/\t/g, '\\t'); // Escape tabs
-
-      console.log('Cleaned response:', cleanedResponse);
-      const parsed = JSON.parse(cleanedResponse);
-      
-      // Validate required fields again
-      const missingFields = requiredFields.filter(field => !(field in parsed));
-      if (missingFields.length > 0) {
-        throw new Error(`Missing required fields after cleaning: ${missingFields.join(', ')}`);
-      }
-
-      return parsed;
-    } catch (finalError) {
-      console.error('Final JSON Parse Error:', finalError);
-      const errorMessage = finalError instanceof Error 
-        ? finalError.message 
-        : 'Unknown error occurred while parsing JSON';
-      throw new Error(`Failed to parse response as JSON: ${errorMessage}\nResponse: ${cleanedResponse}`);
-    }
+  if (previousQuestions.length > 0) {
+    prompt += renderPrompt('question.avoid', {
+      questions: previousQuestions.map(q => `- ${summarizeQuestion(q.question)} (topics: ${q.expectedTopics.join(', ')})`).join('\n'),
+    }, overrides).prompt;
   }
-}
 
-export function validateQuestionResponse(response: any, questionType: string) {
-  if (!response) {
-    throw new Error('Response cannot be null or undefined');
+  if (rejected.length > 0) {
+    prompt += renderPrompt('question.rejected', {
+      questions: rejected.map(question => `- ${summarizeQuestion(question)}`).join('\n'),
+    }, overrides).prompt;
   }
 
-  const requiredFields = ['question', 'expectedTopics', 'difficulty', 'modelAnswer'];
-  const missingFields = requiredFields.filter(field => !(field in response));
-  
-  if (missingFields.length > 0) {
-    throw new Error(`Missing required fields: ${missingFields.join(', ')}`);
-  }
+  return prompt;
+}
 
-  if (!Array.isArray(response.expectedTopics)) {
-    throw new Error('expectedTopics must be an array');
+// The catalog's name for a technology, plus prompt fragments for the version
+// it targets and, for internal technologies, what it is, and the editor
+// language coding answers are written in. Technologies the catalog doesn't
+// know are used as given, without fragments or a language.
+async function describeTechnology(technology: string, overrides?: PromptOverrides): Promise<{ name: string; fragments: RenderedPrompt[]; editorLanguage: string | null }> {
+  const resolved = await lookupTechnology(technology);
+  if (!resolved) {
+    return { name: technology, fragments: [], editorLanguage: null };
   }
 
-  if (typeof response.difficulty !== 'number') {
-    throw new Error('difficulty must be a number');
+  const { entry, version } = resolved;
+  const fragments: RenderedPrompt[] = [];
+  if (version) {
+    fragments.push(renderPrompt('question.version', { technology: entry.name, version }, overrides));
   }
-
-  if (questionType.toLowerCase() === 'mcq') {
-    if (!response.modelAnswer.options || typeof response.modelAnswer.options !== 'object') {
-      throw new Error('MCQ response must include options object');
-    }
-
-    const requiredOptions = ['A', 'B', 'C', 'D'];
-    const missingOptions = requiredOptions.filter(opt => !(opt in response.modelAnswer.options));
-    
-    if (missingOptions.length > 0) {
-      throw new Error(`Missing MCQ options: ${missingOptions.join(', ')}`);
-    }
-
-    if (!response.modelAnswer.correctOption || !requiredOptions.includes(response.modelAnswer.correctOption)) {
-      throw new Error('MCQ response must include a valid correctOption (A, B, C, or D)');
-    }
-
-    if (!response.modelAnswer.explanation || typeof response.modelAnswer.explanation !== 'string') {
-      throw new Error('MCQ response must include an explanation');
-    }
-  } else if (questionType.toLowerCase() === 'coding') {
-    if (!response.modelAnswer.isCode || typeof response.modelAnswer.content !== 'string') {
-      throw new Error('Coding response must include isCode flag and content');
-    }
-  } else {
-    if (typeof response.modelAnswer.content !== 'string') {
-      throw new Error('Model answer must include content string');
-    }
+  if (entry.custom && entry.description) {
+    fragments.push(renderPrompt('question.internal', { technology: entry.name, description: entry.description }, overrides));
   }
-
-  return response;
+  return { name: entry.name, fragments, editorLanguage: entry.monacoLanguage === 'plaintext' ? null : entry.monacoLanguage };
 }
 
-function sanitizeTechnology(tech: string): string {
-  // Map of special cases (case-insensitive)
-  const specialCases: { [key: string]: string } = {
-    'c++': 'cpp',
-    'c#': 'csharp',
-    '.net': 'dotnet',
-    'node.js': 'nodejs',
-    'react.js': 'react',
-    'vue.js': 'vue',
-  };
-
-  // Check for special cases (case-insensitive)
-  const lowerTech = tech.toLowerCase();
-  if (specialCases[lowerTech]) {
-    return specialCases[lowerTech];
-  }
+function appendFragments(prompt: RenderedPrompt, fragments: RenderedPrompt[]): RenderedPrompt {
+  return fragments.reduce((combined, fragment) => ({
+    ...combined,
+    prompt: combined.prompt + fragment.prompt,
+    version: `${combined.version}+${fragment.version}`,
+  }), prompt);
+}
 
-  // Remove special characters and spaces for other cases
-  return tech.replace(/[^a-zA-Z0-9]/g, '');
+function getDifficultyLevel(difficulty: string): number {
+  const level = difficulty.toLowerCase();
+  return level === 'easy' ? 1 : level === 'medium' ? 2 : 3;
 }
 
-export function generateQuestionPrompt(technology: string, difficulty: string, questionNumber: number, questionType: string): string {
-  // Different prompts based on question type
-  if (questionType.toLowerCase() === 'mcq') {
-    return `You are a technical interviewer specializing in ${technology}. Generate a multiple choice question (MCQ) that tests knowledge of ${technology}.
-
-The question should:
-1. Test specific knowledge in ${technology}
-2. Be appropriate for ${difficulty} difficulty level
-3. Have exactly 4 options (A, B, C, D)
-4. Have only one correct answer
-5. Question number ${questionNumber} in the sequence - ensure it's completely different from previous questions
-6. Include clear explanations for why each option is correct or incorrect
-
-IMPORTANT: Return ONLY a valid JSON object with the following fields:
-{
-  "question": "The MCQ question text - must be specific to ${technology}",
-  "expectedTopics": [
-    "List of concepts being tested",
-    "Key ${technology} knowledge points covered"
-  ],
-  "difficulty": ${difficulty === 'Easy' ? 1 : difficulty === 'Medium' ? 2 : 3},
-  "modelAnswer": {
-    "options": {
-      "A": "First option",
-      "B": "Second option",
-      "C": "Third option",
-      "D": "Fourth option"
-    },
-    "correctOption": "The correct option letter (A, B, C, or D)",
-    "explanation": "Detailed explanation of why the correct answer is right and why others are wrong"
-  }
+export function generateQuestionPrompt(technology: string, difficulty: string, questionNumber: number, questionType: string, overrides?: PromptOverrides): RenderedPrompt {
+  return renderPrompt(QUESTION_PROMPTS[normalizeQuestionType(questionType)], {
+    technology,
+    difficulty,
+    difficultyLevel: getDifficultyLevel(difficulty),
+    questionNumber,
+  }, overrides);
 }
 
-Return ONLY the JSON object, no additional text. Ensure all strings are properly escaped.`;
-  }
+// Generates a coding question with tests and runs its model answer against
+// them. Questions whose answer fails its own tests are discarded. Nothing is
+// streamed and discards only say which tests failed, as the raw output and
+// the failures hold the hidden tests.
+async function completeTestedQuestion(
+  request: StructuredRequest,
+  language: ExecutionLanguage,
+  callbacks: GenerationCallbacks
+): Promise<Question> {
+  const maxAttempts = getMaxTestAttempts();
+
+  for (let attempt = 1; ; attempt++) {
+    const question = await completeStructured<Question>({
+      ...request,
+      maxTokens: TESTED_QUESTION_MAX_TOKENS,
+      onToken: undefined,
+    });
 
-  if (questionType.toLowerCase() === 'subjective') {
-    return `You are a technical interviewer specializing in ${technology}. Generate a logical reasoning and analytical thinking question that is relevant to ${technology} development scenarios.
-
-The question should:
-1. Test critical thinking and problem-solving abilities in the context of ${technology} projects
-2. Focus on real-world scenarios a ${technology} developer might face
-3. Be appropriate for ${difficulty} difficulty level
-4. Test decision-making and analytical skills specific to ${technology} development
-5. Question number ${questionNumber} in the sequence - ensure it's different from previous questions
-
-IMPORTANT: Return ONLY a valid JSON object with the following fields:
-{
-  "question": "The question text - must be specific to ${technology}",
-  "expectedTopics": [
-    "List of 4-5 key points that should be covered in the answer",
-    "Each point should be relevant to ${technology}"
-  ],
-  "difficulty": ${difficulty === 'Easy' ? 1 : difficulty === 'Medium' ? 2 : 3},
-  "modelAnswer": {
-    "isCode": false,
-    "content": "A detailed explanation of what a good answer should include, specific to ${technology}"
-  }
-}
+    const violations = await checkQuestionTests(question, language);
+    if (violations.length === 0) {
+      return { ...question, modelAnswer: { ...question.modelAnswer, language } };
+    }
 
-Return ONLY the JSON object, no additional text. Ensure all strings are properly escaped.`;
-  }
+    console.warn('Discarding coding question whose model answer fails its tests:', {
+      attempt,
+      violations,
+    });
 
-  // For coding questions
-  if (questionType.toLowerCase() === 'coding') {
-    return `You are a technical interviewer specializing in ${technology}. Generate a coding question that tests practical ${technology} implementation skills.
-
-The question should:
-1. Test coding ability in ${technology}
-2. Be appropriate for ${difficulty} difficulty level
-3. Focus on real-world scenarios
-4. Be clear and unambiguous
-5. Question number ${questionNumber} in the sequence - ensure it's different from previous questions
-
-IMPORTANT: Return ONLY a valid JSON object with the following fields. Ensure all code in the content field is properly escaped:
-{
-  "question": "The coding problem statement with clear requirements and examples",
-  "expectedTopics": [
-    "List of concepts and skills being tested",
-    "Important considerations for the implementation"
-  ],
-  "difficulty": ${difficulty === 'Easy' ? 1 : difficulty === 'Medium' ? 2 : 3},
-  "modelAnswer": {
-    "isCode": true,
-    "content": "// Your code solution here\\n// Use double backslashes for newlines\\n// Escape all quotes"
+    const failures = violations.map(({ path }) => ({ path, message: 'fails against the model answer' }));
+    if (attempt >= maxAttempts) {
+      throw new StructuredOutputError(failures, attempt, JSON.stringify(question));
+    }
+    callbacks.onDiscard?.(attempt, failures);
   }
 }
 
-RULES for the content field:
-1. Use double backslashes for newlines (\\n)
-2. Escape all quotes (\\" for double quotes)
-3. Avoid using backticks
-4. Keep indentation using spaces (no tabs)
-5. Escape any special characters
+// Regenerates questions that are too close to an earlier one; if every
+// attempt is, settles for the least similar rather than failing
+async function generateDistinctQuestion(
+  basePrompt: RenderedPrompt,
+  questionType: string,
+  metadata: CompletionMetadata,
+  previousQuestions: AskedQuestion[],
+  context: InterviewContext,
+  callbacks: GenerationCallbacks
+): Promise<Question> {
+  const threshold = getSimilarityThreshold();
+  const maxRegenerations = getMaxRegenerations();
+  const rejected: string[] = [];
+  let closest: { question: Question; similarity: number } | null = null;
+
+  for (let attempt = 0; attempt <= maxRegenerations; attempt++) {
+    const request: StructuredRequest = {
+      task: 'question',
+      systemPrompt: basePrompt.system,
+      prompt: basePrompt.prompt + buildAvoidancePrompt(previousQuestions, rejected, context.promptOverrides),
+      schema: getQuestionSchema(questionType),
+      metadata,
+      signal: context.signal,
+      onToken: callbacks.onToken,
+      onRepair: callbacks.onRepair,
+    };
+    const language = toExecutionLanguage(metadata.language);
+    // Tests nobody has run against the model answer aren't kept
+    const generated = language
+      ? await completeTestedQuestion(request, language, callbacks)
+      : { ...await completeStructured<Question>(request), functionName: undefined, tests: undefined };
+    const question = metadata.language ? withStarters(generated, metadata.language) : generated;
+
+    const match = findMostSimilar(question.question, previousQuestions.map(q => q.question));
+    if (!match || match.similarity < threshold) {
+      closest = { question, similarity: match?.similarity ?? 0 };
+      break;
+    }
 
-Return ONLY the JSON object, no additional text.`;
-  }
+    console.warn('Generated question is too similar to an earlier one:', {
+      attempt: attempt + 1,
+      similarity: Number(match.similarity.toFixed(3)),
+      similarTo: summarizeQuestion(previousQuestions[match.index].question),
+    });
 
-  // For MCQ questions
-  return `You are a technical interviewer specializing in ${technology}. Generate a multiple-choice question that tests ${technology} knowledge.
-
-The question should:
-1. Test understanding of ${technology} concepts
-2. Be appropriate for ${difficulty} difficulty level
-3. Have clear, unambiguous options
-4. Question number ${questionNumber} in the sequence - ensure it's different from previous questions
-
-IMPORTANT: Return ONLY a valid JSON object with the following fields:
-{
-  "question": "The question text",
-  "expectedTopics": ["Key concepts being tested"],
-  "difficulty": ${difficulty === 'Easy' ? 1 : difficulty === 'Medium' ? 2 : 3},
-  "modelAnswer": {
-    "isCode": false,
-    "content": "Explanation of why the correct answer is right"
-  },
-  "options": [
-    "A) First option",
-    "B) Second option",
-    "C) Third option",
-    "D) Fourth option"
-  ],
-  "correctOption": "A"
-}
+    if (!closest || match.similarity < closest.similarity) {
+      closest = { question, similarity: match.similarity };
+    }
+    rejected.push(question.question);
+    if (attempt < maxRegenerations) {
+      callbacks.onDuplicate?.(attempt + 1, match.similarity);
+    }
+  }
 
-Return ONLY the JSON object, no additional text. Ensure all strings are properly escaped.`;
+  return { ...closest!.question, promptVersion: basePrompt.version };
 }
 
-export async function generateQuestion(technology: string, difficulty: string, questionNumber: number, questionType: string): Promise<any> {
+export async function generateQuestion(technology: string, difficulty: string, questionNumber: number, questionType: string, context: InterviewContext = {}, callbacks: GenerationCallbacks = {}): Promise<Question> {
   try {
-    const prompt = generateQuestionPrompt(technology, difficulty, questionNumber, questionType);
-    const response = await makeGroqRequest(prompt);
-
-    if (!response?.choices?.[0]?.message?.content) {
-      console.error('Invalid GROQ response structure:', response);
-      throw new Error('Invalid response structure from GROQ API');
-    }
+    const catalog = await describeTechnology(technology, context.promptOverrides);
+    const typePrompt = generateQuestionPrompt(catalog.name, difficulty, questionNumber, questionType, context.promptOverrides);
+    const topicPrompt = context.topic ? renderPrompt('question.topic', { topic: context.topic }, context.promptOverrides) : null;
+    // Coding answers get starter code, and in a language the sandbox runs are tested
+    const editorLanguage = normalizeQuestionType(questionType) === 'coding' ? catalog.editorLanguage : null;
+    const executionLanguage = toExecutionLanguage(editorLanguage ?? undefined);
+    const testsPrompt = executionLanguage ? renderPrompt('question.tests', { language: executionLanguage }, context.promptOverrides) : null;
+    const starterPrompt = editorLanguage ? renderPrompt('question.starter', {
+      language: editorLanguage,
+      languages: answerLanguages(editorLanguage).join(', '),
+    }, context.promptOverrides) : null;
+    const basePrompt = appendFragments(typePrompt, [
+      ...catalog.fragments,
+      ...(topicPrompt ? [topicPrompt] : []),
+      ...(testsPrompt ? [testsPrompt] : []),
+      ...(starterPrompt ? [starterPrompt] : []),
+    ]);
+    const previousQuestions = context.previousQuestions ?? [];
+    const generate = () => generateDistinctQuestion(basePrompt, questionType, {
+      interviewId: context.interviewId,
+      organizationId: context.organizationId,
+      questionNumber,
+      technology,
+      questionType,
+      language: editorLanguage ?? undefined,
+    }, previousQuestions, context, callbacks);
+
+    // Only questions in a tracked interview are cached, so retrying a slot
+    // gets the same question while other interviews still get fresh ones
+    const question = context.interviewId
+      ? await cached({
+          task: 'question',
+          promptVersion: basePrompt.version,
+          models: describeModels(getProviderChain('question')),
+          inputs: {
+            interviewId: context.interviewId,
+            questionNumber,
+            technology,
+            difficulty,
+            questionType,
+            topic: context.topic,
+            previousQuestions: previousQuestions.map(q => q.question),
+          },
+        }, context.cache, generate)
+      : await generate();
 
-    const content = response.choices[0].message.content;
-    
-    // Detailed logging of the response content
-    console.log('Raw response from GROQ:', content);
-    console.log('Response type:', typeof content);
-    console.log('Response length:', content.length);
-    console.log('First 100 characters:', content.substring(0, 100));
-    
-    // Parse and validate the JSON
-    const parsedResponse = parseJsonResponse(content);
-    
-    // Log the parsed response
     console.log('Successfully parsed response:', {
-      hasQuestion: !!parsedResponse?.question,
-      hasTopics: !!parsedResponse?.expectedTopics,
-      hasDifficulty: !!parsedResponse?.difficulty,
-      hasModelAnswer: !!parsedResponse?.modelAnswer
+      hasQuestion: !!question.question,
+      topics: question.expectedTopics,
+      difficulty: question.difficulty,
+      promptVersion: question.promptVersion,
     });
-    
-    // Additional validation for the response structure
-    validateQuestionResponse(parsedResponse, questionType);
 
-    return parsedResponse;
+    return question;
   } catch (error) {
     console.error('Error in generateQuestion:', error);
     if (error instanceof Error) {
@@ -415,66 +288,220 @@ export async function generateQuestion(technology: string, difficulty: string, q
   }
 }
 
-export async function analyzeResponse(question: string, response: string, expectedTopics: string[]) {
-  if (!GROQ_API_KEY) {
-    throw new Error('GROQ API key is not configured');
-  }
+export interface FollowUpRequest {
+  technology: string;
+  difficulty: string;
+  questionNumber: number;
+  // The question being followed up on and the candidate's answer
+  parent: Exchange;
+  analysis: Pick<Analysis, 'coveredTopics' | 'missingTopics'>;
+  // Follow-up questions already asked about it, in order
+  previousFollowUps: string[];
+}
 
-  const prompt = `Analyze this response to the following interview question. Provide feedback and a score out of 10.
+/**
+ * Generates a follow-up that drills into an answer, aimed at what the
+ * grader found missing. Follow-ups are free-text questions.
+ */
+export async function generateFollowUp(request: FollowUpRequest, context: InterviewContext = {}): Promise<Question> {
+  const { technology, difficulty, questionNumber, parent, analysis, previousFollowUps } = request;
+  const catalog = await describeTechnology(technology, context.promptOverrides);
+  const prompt = appendFragments(renderPrompt('question.followup', {
+    technology: catalog.name,
+    difficulty,
+    difficultyLevel: getDifficultyLevel(difficulty),
+    question: parent.question,
+    response: fenceUntrusted(parent.response, 'CANDIDATE_RESPONSE'),
+    coveredTopics: analysis.coveredTopics.join(', ') || 'none',
+    missingTopics: analysis.missingTopics.join(', ') || 'none',
+    thread: previousFollowUps.length > 0
+      ? previousFollowUps.map(question => `- ${summarizeQuestion(question)}`).join('\n')
+      : 'None yet',
+  }, context.promptOverrides), catalog.fragments);
+
+  const generate = async (): Promise<Question> => ({
+    ...await completeStructured<Question>({
+      task: 'question',
+      systemPrompt: prompt.system,
+      prompt: prompt.prompt,
+      schema: getQuestionSchema('subjective'),
+      metadata: {
+        interviewId: context.interviewId,
+        organizationId: context.organizationId,
+        questionNumber,
+        technology,
+        questionType: 'followup',
+      },
+      signal: context.signal,
+    }),
+    promptVersion: prompt.version,
+  });
+
+  // Cached like questions, so retrying a follow-up asks the same one
+  const question = context.interviewId
+    ? await cached({
+        task: 'question',
+        promptVersion: prompt.version,
+        models: describeModels(getProviderChain('question')),
+        inputs: { interviewId: context.interviewId, questionNumber, technology, difficulty, parent, analysis, previousFollowUps },
+      }, context.cache, generate)
+    : await generate();
+
+  console.log('Generated follow-up question:', {
+    interviewId: context.interviewId,
+    questionNumber,
+    followUpNumber: previousFollowUps.length + 1,
+    topics: question.expectedTopics,
+  });
+  return question;
+}
 
-Question: ${question}
+export interface PlanRequest {
+  jobDescription: string;
+  resume?: string;
+  numQuestions?: number;
+}
 
-Response: ${response}
+/**
+ * Proposes an interview for a job: skills, seniority, weighted technologies
+ * and a blueprint. The interviewer reviews it before any question is
+ * generated, so nothing here is cached.
+ */
+export async function proposeInterviewPlan(request: PlanRequest, context: InterviewContext = {}): Promise<InterviewPlan> {
+  const catalog = await getTechnologyCatalog();
+  const numQuestions = request.numQuestions ?? DEFAULT_PLAN_QUESTIONS;
+  const prompt = renderPrompt('interview.plan', {
+    jobDescription: fenceUntrusted(request.jobDescription, 'JOB_DESCRIPTION'),
+    resume: request.resume?.trim() ? fenceUntrusted(request.resume, 'RESUME') : 'No resume provided.',
+    technologies: catalog.map(entry => entry.name).join(', '),
+    numQuestions,
+  }, context.promptOverrides);
+
+  const proposal = await completeStructured<ProposedPlan>({
+    task: 'question',
+    systemPrompt: prompt.system,
+    prompt: prompt.prompt,
+    schema: proposedPlanSchema,
+    temperature: 0.3,
+    metadata: { organizationId: context.organizationId, questionType: 'plan' },
+    signal: context.signal,
+  });
+
+  const plan = normalizePlan(proposal, catalog, numQuestions, prompt.version);
+  console.log('Proposed interview plan:', {
+    role: plan.role,
+    seniority: plan.seniority,
+    technologies: plan.technologies.map(technology => technology.name),
+    questions: plan.blueprint.sections.reduce((sum, section) => sum + (section.count ?? 0), 0),
+    withResume: !!request.resume?.trim(),
+  });
+  return plan;
+}
 
-Expected topics to be covered:
-${expectedTopics.map(topic => `- ${topic}`).join('\n')}
+// Samples the grader several times, spreading samples across the panel
+async function gradeByConsensus(
+  request: StructuredRequest,
+  rubric: Rubric,
+  items: RubricItem[],
+  consensus: ConsensusConfig,
+  promptVersion: string
+): Promise<Analysis> {
+  const results = await Promise.allSettled(Array.from({ length: consensus.samples }, (_, index) => {
+    const model = consensus.panel.length > 0 ? consensus.panel[index % consensus.panel.length] : getProviderConfig('grading');
+    return completeStructured<RubricGrading>({
+      ...request,
+      providers: consensus.panel.length > 0 ? [model] : undefined,
+    }).then(grading => ({ grading, model: `${model.provider}:${model.model}` }));
+  }));
+
+  const samples = results.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+  const failures = results.flatMap(result => (result.status === 'rejected' ? [result.reason] : []));
+  if (samples.length === 0) {
+    throw failures[0];
+  }
+  if (failures.length > 0) {
+    console.warn('Some grading samples failed:', { succeeded: samples.length, failed: failures.length });
+  }
 
-Return your analysis in this JSON format:
-{
-  "score": 8,
-  "feedback": "Detailed feedback about the response",
-  "coveredTopics": ["Topics that were covered well in the response"],
-  "missingTopics": ["Expected topics that were not covered"],
-  "improvement": "Suggestions for improvement"
-}
+  const combined = combineGradings(samples.map(sample => sample.grading), consensus.method);
+  const analysis = withConsensus(
+    { ...scoreRubricGrading(rubric, items, combined), promptVersion },
+    samples.map(sample => scoreRubricGrading(rubric, items, sample.grading).score),
+    samples.map(sample => sample.model),
+    consensus
+  );
 
-Make sure to:
-1. Score between 0 and 10 points only
-2. Include all topics from the expected topics list in either coveredTopics or missingTopics
-3. Provide specific, actionable feedback`;
+  if (analysis.needsReview) {
+    console.warn('Grading samples disagree, flagging for review:', analysis.consensus);
+  }
+  return analysis;
+}
 
-  try {
-    const apiResponse = await makeGroqRequest(prompt);
-    
-    if (!apiResponse?.choices?.[0]?.message?.content) {
-      throw new Error('Invalid response structure from GROQ API');
-    }
+export async function analyzeResponse(question: string, response: string, expectedTopics: string[], context: InterviewContext = {}, rubric: Rubric = DEFAULT_RUBRIC): Promise<Analysis> {
+  const items = buildRubricItems(rubric, expectedTopics);
+  // Candidate text is data, never instructions: fence it and look for
+  // attempts to talk to the grader before grading
+  const injectionFlags = detectInjection(response);
+  if (injectionFlags.length > 0) {
+    console.warn('Possible prompt injection in answer:', { interviewId: context.interviewId, flags: injectionFlags });
+  }
 
-    // Parse the response with required fields
-    const result = parseJsonResponse(
-      apiResponse.choices[0].message.content,
-      ['score', 'feedback', 'coveredTopics', 'missingTopics'] // Make improvement optional
-    );
-
-    // Ensure score is between 0 and 10
-    if (typeof result.score === 'number') {
-      if (result.score > 10) {
-        result.score = Math.min(10, result.score / 10); // Convert percentage to 10-point scale
-      }
-      result.score = Math.max(0, Math.min(10, result.score));
-    } else {
-      result.score = 0;
-    }
+  const rubricPrompt = renderPrompt('grading.rubric', {
+    question,
+    response: fenceUntrusted(response, 'CANDIDATE_RESPONSE'),
+    criteria: rubric.criteria.map(criterion => `- ${criterion.id}: ${criterion.name}. ${criterion.description}`).join('\n'),
+    items: items.map((item, index) => `${index + 1}. ${item.topic}`).join('\n'),
+    criteriaFormat: rubric.criteria.map(criterion => `    "${criterion.id}": { "score": 7, "feedback": "Why this score" }`).join(',\n'),
+    itemsFormat: items.map((item, index) => `    "${index + 1}": { "verdict": "pass", "comment": "Short justification" }`).join(',\n'),
+  }, context.promptOverrides);
+  // A follow-up is graded with the exchange it drills into as context
+  const parentPrompt = context.parent && renderPrompt('grading.followup', {
+    parentQuestion: context.parent.question,
+    parentResponse: fenceUntrusted(context.parent.response, 'EARLIER_RESPONSE'),
+  }, context.promptOverrides);
+  const languagePrompt = context.language && renderPrompt('grading.language', { language: context.language }, context.promptOverrides);
+  const staticPrompt = context.staticAnalysis
+    && renderPrompt('grading.static', { findings: describeStaticAnalysis(context.staticAnalysis) }, context.promptOverrides);
+  const prompt = appendFragments(rubricPrompt, [
+    ...(parentPrompt ? [parentPrompt] : []),
+    ...(languagePrompt ? [languagePrompt] : []),
+    ...(staticPrompt ? [staticPrompt] : []),
+  ]);
+
+  const request: StructuredRequest = {
+    task: 'grading',
+    systemPrompt: prompt.system,
+    prompt: prompt.prompt,
+    schema: gradingSchema(rubric, items),
+    metadata: {
+      interviewId: context.interviewId,
+      organizationId: context.organizationId,
+      questionNumber: context.questionNumber,
+      expectedTopics: items.map(item => item.topic),
+      rubricCriteria: rubric.criteria.map(criterion => criterion.id),
+    },
+    signal: context.signal,
+  };
 
-    // Ensure coveredTopics and missingTopics are arrays
-    if (!Array.isArray(result.coveredTopics)) {
-      result.coveredTopics = [];
-    }
-    if (!Array.isArray(result.missingTopics)) {
-      result.missingTopics = [];
+  try {
+    const consensus = getConsensusConfig();
+    const analysis = await cached({
+      task: 'grading',
+      promptVersion: prompt.version,
+      models: describeModels(consensus.panel.length > 0 ? consensus.panel : getProviderChain('grading')),
+      inputs: { question, response, expectedTopics, rubric, samples: consensus.samples, method: consensus.method, parent: context.parent, language: context.language },
+    }, context.cache, async () => (consensus.samples === 1
+      ? { ...scoreRubricGrading(rubric, items, await completeStructured<RubricGrading>(request)), promptVersion: prompt.version }
+      : gradeByConsensus(request, rubric, items, consensus, prompt.version)));
+
+    // Check the grade is one the answer could plausibly have earned
+    const integrityFlags = [...injectionFlags, ...crossCheckGrade(analysis, question, response, expectedTopics)];
+    if (integrityFlags.length === 0) {
+      return analysis;
     }
 
-    return result;
+    console.warn('Flagging answer for review:', { interviewId: context.interviewId, score: analysis.score, integrityFlags });
+    return { ...analysis, integrityFlags, needsReview: true };
   } catch (error) {
     console.error('Error in analyzeResponse:', error);
     if (error instanceof Error) {
@@ -0,0 +1,91 @@
+import { randomBytes } from 'crypto';
+import { Analysis, IntegrityFlag } from './interviewSchemas';
+import { sharedTerms } from './similarity';
+
+// Defences against candidates grading their own answers. Answers reach the
+// grader fenced between markers it is told to treat as data, are scanned for
+// text addressed to the grader, and the grade that comes back is checked
+// against the answer. Anything suspicious is flagged for human review rather
+// than rejected, so a false positive costs a reviewer a look, not a candidate
+// their grade.
+
+// Scores at or above this need the answer to back them up
+const HIGH_SCORE = 9;
+// Answers shorter than this (in words) can't earn a high score
+const MIN_WORDS_FOR_HIGH_SCORE = 8;
+const EXCERPT_LENGTH = 80;
+
+const INJECTION_PATTERNS: { pattern: RegExp; message: string }[] = [
+  {
+    pattern: /\b(ignore|disregard|forget|override)\b[^.\n]{0,40}\b(previous|prior|above|earlier|all|any|your|the)\b[^.\n]{0,20}\b(instructions?|prompts?|rules?|rubric|guidelines?)/i,
+    message: 'tells the grader to ignore its instructions',
+  },
+  {
+    pattern: /\b(you are now|act as|pretend (to be|you are)|new instructions?|system prompt|developer mode)\b/i,
+    message: 'tries to change the grader\'s role or instructions',
+  },
+  {
+    pattern: /\b(give|award|assign|grade|score|mark|rate)\b[^.\n]{0,40}\b(10|ten|full marks|maximum|perfect|100 ?%)/i,
+    message: 'asks for a particular score',
+  },
+  {
+    pattern: /"(score|verdict|criteria|feedback)"\s*:/i,
+    message: 'contains grading JSON',
+  },
+  {
+    pattern: /<\|?(im_start|im_end|system|endoftext)\|?>|\[\/?INST\]|^\s*(system|assistant)\s*:/im,
+    message: 'contains chat-format control tokens',
+  },
+];
+
+function excerpt(text: string, index: number): string {
+  const start = Math.max(0, index - 20);
+  const snippet = text.slice(start, start + EXCERPT_LENGTH).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '...' : ''}${snippet}${start + EXCERPT_LENGTH < text.length ? '...' : ''}`;
+}
+
+/**
+ * Wraps untrusted text in markers carrying a random nonce, so the text can't
+ * close the fence early. Any marker-like sequences inside are defanged.
+ */
+export function fenceUntrusted(text: string, label: string): string {
+  const nonce = randomBytes(6).toString('hex');
+  const escaped = text.replace(/<{3,}|>{3,}/g, run => run.split('').join('\u200b'));
+  return `<<<${label}_${nonce}>>>\n${escaped}\n<<<END_${label}_${nonce}>>>`;
+}
+
+/** Looks for text in an answer that addresses the grader rather than the question. */
+export function detectInjection(text: string): IntegrityFlag[] {
+  return INJECTION_PATTERNS.flatMap(({ pattern, message }) => {
+    const match = pattern.exec(text);
+    return match
+      ? [{ kind: 'injection-pattern' as const, message: `The answer ${message}`, excerpt: excerpt(text, match.index) }]
+      : [];
+  });
+}
+
+/**
+ * Checks that a grade is plausible for the answer it was given to: a high
+ * score needs an answer of some length that uses the vocabulary of the
+ * question or its expected topics.
+ */
+export function crossCheckGrade(analysis: Analysis, question: string, response: string, expectedTopics: string[]): IntegrityFlag[] {
+  if (analysis.score < HIGH_SCORE) {
+    return [];
+  }
+
+  const flags: IntegrityFlag[] = [];
+  const words = response.trim().split(/\s+/).filter(Boolean).length;
+  if (words < MIN_WORDS_FOR_HIGH_SCORE) {
+    flags.push({ kind: 'score-mismatch', message: `Scored ${analysis.score}/10 for a ${words}-word answer` });
+  }
+
+  if (sharedTerms(response, [question, ...expectedTopics].join('\n')).length === 0) {
+    flags.push({
+      kind: 'score-mismatch',
+      message: `Scored ${analysis.score}/10 but shares no vocabulary with the question or expected topics`,
+    });
+  }
+
+  return flags;
+}
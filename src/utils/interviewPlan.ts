@@ -0,0 +1,173 @@
+import { Blueprint, blueprintLength, checkBlueprint, expandBlueprint, MAX_BLUEPRINT_QUESTIONS } from './blueprint';
+import { Schema, SchemaValidationError } from './schema';
+import { resolveTechnology, TechnologyEntry, technologyKey, technologyLabel } from './technologyCatalog';
+import { MAX_TECHNOLOGIES, TechnologyWeight } from './technologyMix';
+
+// Interviews planned from a job description, and optionally the candidate's
+// resume: the model reads off the skills and seniority the role needs and
+// proposes technologies, topics, question types and a difficulty, which the
+// interviewer edits on the home page before creating the link. The proposal
+// is checked and tidied here so it always fits a blueprint and a technology
+// mix.
+
+export type Seniority = 'junior' | 'mid' | 'senior' | 'lead';
+
+export interface PlanSkill {
+  name: string;
+  // Required by the job description rather than nice to have
+  required: boolean;
+  // The resume shows experience with it; absent without a resume
+  onResume?: boolean;
+}
+
+// What the model proposes
+export interface ProposedPlan {
+  role: string;
+  seniority: Seniority;
+  skills: PlanSkill[];
+  technologies: TechnologyWeight[];
+  sections: {
+    name: string;
+    questionType: 'mcq' | 'subjective' | 'coding';
+    count: number;
+    difficulty?: 'Easy' | 'Medium' | 'Hard';
+    topics?: string[];
+  }[];
+  topics?: string[];
+  rationale: string;
+}
+
+export interface InterviewPlan {
+  role: string;
+  seniority: Seniority;
+  difficulty: 'Easy' | 'Medium' | 'Hard';
+  skills: PlanSkill[];
+  technologies: TechnologyWeight[];
+  blueprint: Blueprint;
+  rationale: string;
+  promptVersion: string;
+}
+
+export const DEFAULT_PLAN_QUESTIONS = 6;
+export const MAX_PLAN_INPUT_LENGTH = 20000;
+
+const SENIORITY_DIFFICULTY: { [level in Seniority]: InterviewPlan['difficulty'] } = {
+  junior: 'Easy',
+  mid: 'Medium',
+  senior: 'Hard',
+  lead: 'Hard',
+};
+
+const nonEmptyString: Schema = { type: 'string', minLength: 1 };
+
+export const proposedPlanSchema: Schema = {
+  type: 'object',
+  properties: {
+    role: nonEmptyString,
+    seniority: { type: 'string', enum: ['junior', 'mid', 'senior', 'lead'] },
+    skills: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          name: nonEmptyString,
+          required: { type: 'boolean' },
+          onResume: { type: 'boolean', optional: true },
+        },
+      },
+    },
+    technologies: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          name: nonEmptyString,
+          weight: { type: 'number', min: 1, max: 10 },
+        },
+      },
+    },
+    sections: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          name: nonEmptyString,
+          questionType: { type: 'string', enum: ['mcq', 'subjective', 'coding'] },
+          count: { type: 'number', integer: true, min: 1, max: MAX_BLUEPRINT_QUESTIONS },
+          difficulty: { type: 'string', enum: ['Easy', 'Medium', 'Hard'], optional: true },
+          topics: { type: 'array', items: nonEmptyString, optional: true },
+        },
+      },
+    },
+    topics: { type: 'array', items: nonEmptyString, optional: true },
+    rationale: nonEmptyString,
+  },
+};
+
+function uniqueBy<T>(items: T[], key: (item: T) => string): T[] {
+  return items.filter((item, index) => items.findIndex(other => key(other) === key(item)) === index);
+}
+
+/**
+ * Turns the model's proposal into a plan the home page can use: difficulty
+ * from seniority, technologies under their catalog names, at most
+ * `maxQuestions` questions and only as many interview-wide topics as there
+ * are questions free to cover them.
+ */
+export function normalizePlan(
+  proposal: ProposedPlan,
+  catalog: TechnologyEntry[],
+  maxQuestions: number,
+  promptVersion: string
+): InterviewPlan {
+  const technologies = uniqueBy(
+    proposal.technologies.map(technology => {
+      const resolved = resolveTechnology(catalog, technology.name);
+      return {
+        name: resolved ? technologyLabel(resolved.entry, resolved.version) : technology.name.trim(),
+        weight: Math.min(Math.max(Math.round(technology.weight), 1), 10),
+      };
+    }),
+    technology => technologyKey(technology.name)
+  ).slice(0, MAX_TECHNOLOGIES);
+
+  // Trim the largest sections until the interview fits
+  const limit = Math.min(maxQuestions, MAX_BLUEPRINT_QUESTIONS);
+  const sections = proposal.sections.slice(0, limit).map(section => ({
+    name: section.name.trim(),
+    questionType: section.questionType,
+    count: section.count,
+    difficulty: section.difficulty,
+    topics: section.topics ? uniqueBy(section.topics.map(topic => topic.trim()), topic => topic.toLowerCase()) : undefined,
+  }));
+  while (sections.reduce((sum, section) => sum + section.count, 0) > limit) {
+    const largest = sections.reduce((a, b) => (b.count > a.count ? b : a));
+    largest.count -= 1;
+  }
+
+  const blueprint: Blueprint = { sections, order: 'sequential' };
+  const open = expandBlueprint(blueprint).filter(question => !question.topic).length;
+  const topics = uniqueBy((proposal.topics ?? []).map(topic => topic.trim()), topic => topic.toLowerCase()).slice(0, open);
+  if (topics.length > 0) {
+    blueprint.topics = topics;
+  }
+
+  const violations = checkBlueprint(blueprint, blueprintLength(blueprint));
+  if (violations.length > 0) {
+    throw new SchemaValidationError(violations);
+  }
+
+  return {
+    role: proposal.role.trim(),
+    seniority: proposal.seniority,
+    difficulty: SENIORITY_DIFFICULTY[proposal.seniority],
+    skills: uniqueBy(proposal.skills, skill => skill.name.trim().toLowerCase()),
+    technologies,
+    blueprint,
+    rationale: proposal.rationale.trim(),
+    promptVersion,
+  };
+}
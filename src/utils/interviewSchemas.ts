@@ -0,0 +1,215 @@
+import { CacheControl } from './cache/types';
+import { StaticAnalysis } from './codeAnalysis/types';
+import { CodeTest, codeTestsSchema, ExecutionResult } from './execution/types';
+import { PromptOverrides } from './prompts/types';
+import { assertValid, Schema } from './schema';
+
+export type QuestionType = 'mcq' | 'coding' | 'subjective';
+
+export interface ModelAnswer {
+  isCode: boolean;
+  language?: string;
+  content: string;
+  options?: { [key: string]: string };
+  correctOption?: string;
+  explanation?: string;
+}
+
+// Code a coding question's editor opens with in one of its languages
+export interface CodeStarter {
+  // A Monaco language id, e.g. "python"
+  language: string;
+  // e.g. "def two_sum(nums: list[int], target: int) -> list[int]"
+  signature?: string;
+  template: string;
+}
+
+export interface Question {
+  question: string;
+  expectedTopics: string[];
+  difficulty: number;
+  modelAnswer: ModelAnswer;
+  // Coding questions: the function the answer must define and the test
+  // cases it is run against
+  functionName?: string;
+  tests?: CodeTest[];
+  // Coding questions: the languages the candidate may answer in, the
+  // question's own (modelAnswer.language) first
+  starters?: CodeStarter[];
+  // name@version of the prompt that generated it
+  promptVersion?: string;
+}
+
+export type RubricVerdict = 'pass' | 'partial' | 'fail';
+
+export interface CriterionScore {
+  id: string;
+  name: string;
+  weight: number;
+  score: number;
+  feedback?: string;
+}
+
+export interface RubricItemResult {
+  topic: string;
+  points: number;
+  maxPoints: number;
+  verdict: RubricVerdict;
+  comment?: string;
+}
+
+// How several grading samples agreed. Scores are out of 10.
+export interface GradingConsensus {
+  method: 'median' | 'trimmed-mean';
+  samples: number;
+  scores: number[];
+  models: string[];
+  standardDeviation: number;
+  // 1 when every sample agreed, falling towards 0 as they diverge
+  confidence: number;
+}
+
+// Something about an answer or its grade a reviewer should look at
+export interface IntegrityFlag {
+  // injection-pattern: the answer addresses the grader; score-mismatch: the
+  // grade isn't backed up by the answer
+  kind: 'injection-pattern' | 'score-mismatch';
+  message: string;
+  excerpt?: string;
+}
+
+export interface Analysis {
+  score: number;
+  feedback: string;
+  coveredTopics: string[];
+  missingTopics: string[];
+  improvement?: string;
+  // Rubric breakdown; absent for MCQs, which are graded locally
+  criteria?: CriterionScore[];
+  rubricItems?: RubricItemResult[];
+  // Present when the answer was graded more than once
+  consensus?: GradingConsensus;
+  needsReview?: boolean;
+  // Suspected attempts to steer the grader
+  integrityFlags?: IntegrityFlag[];
+  // name@version of the grading prompt
+  promptVersion?: string;
+  // Coding answers run against the question's tests; `score` then blends
+  // the pass rate with the LLM's grade, which is kept as `llmScore`
+  execution?: ExecutionResult;
+  llmScore?: number;
+  // Coding answers in a language that can be analyzed
+  staticAnalysis?: StaticAnalysis;
+}
+
+// A question as sent to the candidate: hidden tests stay on the server and
+// only their number is given
+export interface CandidateQuestion extends Question {
+  hiddenTests?: number;
+}
+
+// What later questions in a session need to know about an earlier one
+export type AskedQuestion = Pick<Question, 'question' | 'expectedTopics'>;
+
+// A question and the candidate's answer to it
+export interface Exchange {
+  question: string;
+  response: string;
+}
+
+// Who an LLM call is made for (quotas and fair queueing) and how to cancel it
+export interface InterviewContext {
+  interviewId?: string;
+  organizationId?: string;
+  // The question being generated or graded, for usage accounting
+  questionNumber?: number;
+  signal?: AbortSignal;
+  // Earlier questions the new one must not repeat
+  previousQuestions?: AskedQuestion[];
+  // A topic the new question must be about, from the interview blueprint
+  topic?: string;
+  // From the interview template, if it customizes any prompts
+  promptOverrides?: PromptOverrides;
+  // Bypass the result cache, and learn whether it was used
+  cache?: CacheControl;
+  // When grading a follow-up: the question it drills into and its answer
+  parent?: Exchange;
+  // When grading a coding answer: the editor language it was written in
+  // and what static analysis found
+  language?: string;
+  staticAnalysis?: StaticAnalysis;
+}
+
+export const MCQ_OPTIONS = ['A', 'B', 'C', 'D'];
+
+const nonEmptyString: Schema = { type: 'string', minLength: 1 };
+
+function questionSchema(modelAnswer: Schema, extra: { [key: string]: Schema } = {}): Schema {
+  return {
+    type: 'object',
+    properties: {
+      question: nonEmptyString,
+      expectedTopics: { type: 'array', items: nonEmptyString, minItems: 1 },
+      difficulty: { type: 'number', min: 1, max: 3 },
+      modelAnswer,
+      ...extra,
+    },
+  };
+}
+
+export const questionSchemas: { [key in QuestionType]: Schema } = {
+  mcq: questionSchema({
+    type: 'object',
+    properties: {
+      options: {
+        type: 'object',
+        properties: Object.fromEntries(MCQ_OPTIONS.map(option => [option, nonEmptyString])),
+      },
+      correctOption: { type: 'string', enum: MCQ_OPTIONS },
+      explanation: nonEmptyString,
+    },
+  }),
+  coding: questionSchema({
+    type: 'object',
+    properties: {
+      isCode: { type: 'boolean', const: true },
+      language: { type: 'string', optional: true },
+      content: nonEmptyString,
+    },
+  }, {
+    functionName: { type: 'string', minLength: 1, optional: true },
+    tests: { ...codeTestsSchema, optional: true },
+    starters: {
+      type: 'array',
+      optional: true,
+      items: {
+        type: 'object',
+        properties: {
+          language: nonEmptyString,
+          signature: { type: 'string', optional: true },
+          template: { type: 'string' },
+        },
+      },
+    },
+  }),
+  subjective: questionSchema({
+    type: 'object',
+    properties: {
+      isCode: { type: 'boolean', optional: true },
+      content: nonEmptyString,
+    },
+  }),
+};
+
+export function normalizeQuestionType(questionType: string): QuestionType {
+  const type = questionType.toLowerCase();
+  return type === 'mcq' || type === 'coding' ? type : 'subjective';
+}
+
+export function getQuestionSchema(questionType: string): Schema {
+  return questionSchemas[normalizeQuestionType(questionType)];
+}
+
+export function validateQuestionResponse(response: unknown, questionType: string): Question {
+  return assertValid<Question>(getQuestionSchema(questionType), response);
+}
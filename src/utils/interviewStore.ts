@@ -0,0 +1,316 @@
+import { GenerationCallbacks, generateQuestion } from './groq';
+import { AskedQuestion, InterviewContext, Question } from './interviewSchemas';
+import { PromptOverrides } from './prompts';
+import { drawBankQuestion, getBankMode, saveBankQuestions, shouldSaveGeneratedQuestions } from './questionBank';
+
+// Server-side state for interviews in progress: the questions asked so far
+// and questions generated ahead of time while the candidate is still
+// answering. Like the rate limiter, it lives in the server process and is
+// kept on globalThis across dev-mode reloads.
+
+// Drop interviews nobody has touched for this long
+const INTERVIEW_TTL_MS = 2 * 60 * 60 * 1000;
+// Questions a candidate has seen recently, across interviews
+const CANDIDATE_HISTORY_SIZE = 50;
+const CANDIDATE_HISTORY_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface QuestionSlot {
+  questionNumber: number;
+  technology: string;
+  difficulty: string;
+  questionType: string;
+  // Required by the interview blueprint
+  topic?: string;
+}
+
+interface PrefetchEntry {
+  slotKey: string;
+  status: 'pending' | 'ready' | 'failed';
+  promise: Promise<Question | null>;
+  // Aborted when the entry is discarded, so it doesn't record its question
+  controller: AbortController;
+}
+
+interface InterviewState {
+  organizationId?: string;
+  candidateId?: string;
+  // Generated questions by number, including prefetched ones, kept whole so
+  // answers are graded against the tests the server generated
+  questions: Map<number, Question>;
+  prefetched: Map<number, PrefetchEntry>;
+  // Prefetches run one after another so they don't crowd out live requests
+  queue: Promise<unknown>;
+  touchedAt: number;
+}
+
+interface SeenQuestion extends AskedQuestion {
+  interviewId: string;
+  questionNumber: number;
+  seenAt: number;
+}
+
+const globalForInterviews = globalThis as unknown as {
+  interviewStore?: Map<string, InterviewState>;
+  candidateHistory?: Map<string, SeenQuestion[]>;
+};
+const interviews: Map<string, InterviewState> = globalForInterviews.interviewStore ?? new Map();
+const candidateHistory: Map<string, SeenQuestion[]> = globalForInterviews.candidateHistory ?? new Map();
+globalForInterviews.interviewStore = interviews;
+globalForInterviews.candidateHistory = candidateHistory;
+
+// Context for generating a question within a tracked interview
+export interface InterviewQuestionContext extends InterviewContext {
+  candidateId?: string;
+}
+
+// Identifies what a slot asks for, so a changed plan invalidates its prefetch
+function slotKey(slot: QuestionSlot): string {
+  return JSON.stringify([slot.technology.toLowerCase(), slot.difficulty.toLowerCase(), slot.questionType.toLowerCase(), slot.topic?.toLowerCase() ?? '']);
+}
+
+function sweepExpired() {
+  const now = Date.now();
+  interviews.forEach((state, interviewId) => {
+    if (now - state.touchedAt > INTERVIEW_TTL_MS) {
+      interviews.delete(interviewId);
+    }
+  });
+}
+
+export function getInterview(interviewId: string, organizationId?: string, candidateId?: string): InterviewState {
+  sweepExpired();
+
+  let state = interviews.get(interviewId);
+  if (!state) {
+    state = {
+      organizationId,
+      candidateId,
+      questions: new Map(),
+      prefetched: new Map(),
+      queue: Promise.resolve(),
+      touchedAt: Date.now(),
+    };
+    interviews.set(interviewId, state);
+  }
+
+  state.candidateId = state.candidateId ?? candidateId;
+  state.touchedAt = Date.now();
+  return state;
+}
+
+function recentCandidateQuestions(candidateId: string): SeenQuestion[] {
+  const cutoff = Date.now() - CANDIDATE_HISTORY_TTL_MS;
+  const recent = (candidateHistory.get(candidateId) ?? []).filter(entry => entry.seenAt > cutoff);
+  candidateHistory.set(candidateId, recent);
+  return recent;
+}
+
+/**
+ * Questions a new question in this slot must not repeat: the rest of the
+ * interview plus what the candidate saw recently in other interviews.
+ */
+export function getQuestionsToAvoid(interviewId: string, questionNumber: number): AskedQuestion[] {
+  const state = interviews.get(interviewId);
+  if (!state) {
+    return [];
+  }
+
+  const avoid: AskedQuestion[] = [];
+  state.questions.forEach(({ question, expectedTopics }, number) => {
+    if (number !== questionNumber) {
+      avoid.push({ question, expectedTopics });
+    }
+  });
+
+  if (state.candidateId) {
+    recentCandidateQuestions(state.candidateId)
+      .filter(entry => entry.interviewId !== interviewId)
+      .forEach(({ question, expectedTopics }) => avoid.push({ question, expectedTopics }));
+  }
+
+  return avoid;
+}
+
+function forgetQuestion(state: InterviewState, interviewId: string, questionNumber: number) {
+  state.questions.delete(questionNumber);
+  if (state.candidateId) {
+    candidateHistory.set(
+      state.candidateId,
+      recentCandidateQuestions(state.candidateId).filter(
+        entry => entry.interviewId !== interviewId || entry.questionNumber !== questionNumber
+      )
+    );
+  }
+}
+
+export function recordQuestion(interviewId: string, questionNumber: number, question: Question) {
+  const state = getInterview(interviewId);
+  forgetQuestion(state, interviewId, questionNumber);
+
+  const asked = { question: question.question, expectedTopics: question.expectedTopics };
+  state.questions.set(questionNumber, question);
+  if (state.candidateId) {
+    const history = recentCandidateQuestions(state.candidateId);
+    history.push({ ...asked, interviewId, questionNumber, seenAt: Date.now() });
+    candidateHistory.set(state.candidateId, history.slice(-CANDIDATE_HISTORY_SIZE));
+  }
+}
+
+/** The question generated for a slot of an interview, hidden tests included. */
+export function getAskedQuestion(interviewId: string, questionNumber: number): Question | undefined {
+  return interviews.get(interviewId)?.questions.get(questionNumber);
+}
+
+function saveGeneratedQuestion(slot: QuestionSlot, question: Question) {
+  saveBankQuestions(
+    [{ technology: slot.technology, difficulty: slot.difficulty, questionType: slot.questionType, question }],
+    { status: 'pending', source: 'generated' }
+  )
+    .then(({ errors }) => {
+      if (errors.length > 0) {
+        console.warn('Generated question was not saved to the bank:', errors);
+      }
+    })
+    .catch(error => console.error('Saving generated question to the bank failed:', error));
+}
+
+/**
+ * Gets a question for an interview slot, steering it away from the questions
+ * already asked and recording it for the questions that follow. With
+ * QUESTION_BANK_MODE=prefer the bank is tried before the model. Without an
+ * interviewId nothing is tracked.
+ */
+export async function generateInterviewQuestion(
+  slot: QuestionSlot,
+  context: InterviewQuestionContext = {},
+  callbacks: GenerationCallbacks = {}
+): Promise<Question> {
+  const { interviewId, candidateId, ...generationContext } = context;
+  if (interviewId) {
+    getInterview(interviewId, context.organizationId, candidateId);
+  }
+  const previousQuestions = interviewId ? getQuestionsToAvoid(interviewId, slot.questionNumber) : [];
+
+  let question = getBankMode() === 'prefer'
+    ? await drawBankQuestion(slot, previousQuestions.map(q => q.question))
+    : null;
+
+  if (question) {
+    console.log('Serving question from the bank:', { interviewId, questionNumber: slot.questionNumber });
+  } else {
+    question = await generateQuestion(
+      slot.technology,
+      slot.difficulty,
+      slot.questionNumber,
+      slot.questionType,
+      { ...generationContext, interviewId, previousQuestions, topic: slot.topic },
+      callbacks
+    );
+
+    if (shouldSaveGeneratedQuestions()) {
+      saveGeneratedQuestion(slot, question);
+    }
+  }
+
+  // Discarded while it was generating, e.g. an invalidated prefetch
+  if (context.signal?.aborted) {
+    throw context.signal.reason;
+  }
+
+  if (interviewId) {
+    recordQuestion(interviewId, slot.questionNumber, question);
+  }
+  return question;
+}
+
+/**
+ * Starts generating the given slots in the background. Slots already
+ * prefetched with the same parameters are kept; slots whose parameters
+ * changed (e.g. a new difficulty) are discarded and regenerated.
+ */
+export function prefetchQuestions(
+  interviewId: string,
+  slots: QuestionSlot[],
+  organizationId?: string,
+  candidateId?: string,
+  promptOverrides?: PromptOverrides
+): number[] {
+  const state = getInterview(interviewId, organizationId, candidateId);
+  const scheduled: number[] = [];
+
+  for (const slot of slots) {
+    const key = slotKey(slot);
+    const existing = state.prefetched.get(slot.questionNumber);
+    if (existing && existing.slotKey === key && existing.status !== 'failed') {
+      continue;
+    }
+
+    const controller = new AbortController();
+    const promise = state.queue.then(() =>
+      generateInterviewQuestion(slot, { interviewId, organizationId: state.organizationId, promptOverrides, signal: controller.signal })
+    );
+
+    const entry: PrefetchEntry = {
+      slotKey: key,
+      status: 'pending',
+      promise: promise.then(
+        question => {
+          entry.status = 'ready';
+          return question;
+        },
+        error => {
+          if (!controller.signal.aborted) {
+            console.error('Prefetching question failed:', { interviewId, questionNumber: slot.questionNumber, error });
+          }
+          entry.status = 'failed';
+          return null;
+        }
+      ),
+      controller,
+    };
+
+    existing?.controller.abort();
+    state.queue = entry.promise;
+    state.prefetched.set(slot.questionNumber, entry);
+    scheduled.push(slot.questionNumber);
+  }
+
+  return scheduled;
+}
+
+/**
+ * Discards prefetched questions that no longer match the interview plan.
+ * Pass the slots that are still planned; anything else is dropped.
+ */
+export function invalidatePrefetched(interviewId: string, plannedSlots: QuestionSlot[] = []) {
+  const state = interviews.get(interviewId);
+  if (!state) {
+    return;
+  }
+
+  const planned = new Map(plannedSlots.map(slot => [slot.questionNumber, slotKey(slot)]));
+  state.prefetched.forEach((entry, questionNumber) => {
+    if (planned.get(questionNumber) !== entry.slotKey) {
+      entry.controller.abort();
+      state.prefetched.delete(questionNumber);
+      // A discarded question was never asked
+      forgetQuestion(state, interviewId, questionNumber);
+    }
+  });
+}
+
+/**
+ * Returns the prefetched question for a slot, waiting for it if generation
+ * is still running. Returns null when nothing usable was prefetched.
+ */
+export async function takePrefetchedQuestion(interviewId: string, slot: QuestionSlot): Promise<Question | null> {
+  const state = interviews.get(interviewId);
+  const entry = state?.prefetched.get(slot.questionNumber);
+  if (!state || !entry || entry.slotKey !== slotKey(slot)) {
+    return null;
+  }
+
+  state.prefetched.delete(slot.questionNumber);
+  state.touchedAt = Date.now();
+  return entry.promise;
+}
@@ -0,0 +1,112 @@
+import { LLMTask, ProviderConfig, ProviderName } from './types';
+
+/**
+ * A number from an environment variable. Unset, blank or invalid values and
+ * values below `min` fall back to the default, so a typo never turns a limit
+ * off.
+ */
+export function numberFromEnv(name: string, fallback: number, min = 0): number {
+  const raw = process.env[name]?.trim();
+  const value = Number(raw);
+  return raw && Number.isFinite(value) && value >= min ? value : fallback;
+}
+
+const PROVIDERS: ProviderName[] = ['groq', 'openai', 'local', 'mock'];
+
+const DEFAULT_BASE_URLS: { [key in ProviderName]?: string } = {
+  groq: 'https://api.groq.com/openai/v1',
+  openai: 'https://api.openai.com/v1',
+  // Ollama and llama.cpp both serve an OpenAI-compatible API
+  local: 'http://localhost:11434/v1',
+};
+
+const DEFAULT_MODELS: { [key in ProviderName]: string } = {
+  groq: 'llama-3.2-90b-vision-preview',
+  openai: 'gpt-4o-mini',
+  local: 'llama3.2',
+  mock: 'mock-interviewer',
+};
+
+function parseProvider(value: string | undefined, variable: string): ProviderName | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const provider = value.trim().toLowerCase() as ProviderName;
+  if (!PROVIDERS.includes(provider)) {
+    throw new Error(`${variable} must be one of ${PROVIDERS.join(', ')} (got "${value}")`);
+  }
+
+  return provider;
+}
+
+function buildProviderConfig(provider: ProviderName, model?: string): ProviderConfig {
+  const apiKey = provider === 'groq'
+    ? process.env.LLM_API_KEY || process.env.GROQ_API_KEY || process.env.NEXT_PUBLIC_GROQ_API_KEY
+    : process.env.LLM_API_KEY;
+
+  const baseUrl = provider === 'openai' || provider === 'local'
+    ? process.env.LLM_BASE_URL || DEFAULT_BASE_URLS[provider]
+    : DEFAULT_BASE_URLS[provider];
+
+  return {
+    provider,
+    model: model || DEFAULT_MODELS[provider],
+    baseUrl,
+    apiKey,
+  };
+}
+
+function taskPrefix(task: LLMTask): string {
+  return task === 'question' ? 'LLM_QUESTION' : 'LLM_GRADING';
+}
+
+/**
+ * Resolves which provider and model serve a task.
+ *
+ * Environment variables:
+ * - LLM_PROVIDER: groq | openai | local | mock (default groq)
+ * - LLM_QUESTION_PROVIDER / LLM_GRADING_PROVIDER: per-task provider override
+ * - LLM_MODEL: default model, LLM_QUESTION_MODEL / LLM_GRADING_MODEL per task
+ * - LLM_BASE_URL: endpoint for openai-compatible and local providers
+ * - LLM_API_KEY: API key (GROQ_API_KEY is still honoured for groq)
+ */
+export function getProviderConfig(task: LLMTask): ProviderConfig {
+  const prefix = taskPrefix(task);
+
+  const provider =
+    parseProvider(process.env[`${prefix}_PROVIDER`], `${prefix}_PROVIDER`) ||
+    parseProvider(process.env.LLM_PROVIDER, 'LLM_PROVIDER') ||
+    'groq';
+
+  return buildProviderConfig(provider, process.env[`${prefix}_MODEL`] || process.env.LLM_MODEL);
+}
+
+/**
+ * Parses a comma-separated list of `provider` or `provider:model` entries,
+ * e.g. `groq:llama-3.1-8b-instant,local:llama3.2:3b`.
+ */
+export function parseProviderList(value: string | undefined, variable: string): ProviderConfig[] {
+  return (value || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const separator = entry.indexOf(':');
+      const provider = separator === -1 ? entry : entry.slice(0, separator);
+      const model = separator === -1 ? undefined : entry.slice(separator + 1);
+      return buildProviderConfig(parseProvider(provider, variable)!, model);
+    });
+}
+
+/**
+ * The primary provider for a task followed by its fallbacks, tried in order.
+ * Fallbacks come from LLM_QUESTION_FALLBACKS / LLM_GRADING_FALLBACKS or
+ * LLM_FALLBACKS in the parseProviderList format.
+ */
+export function getProviderChain(task: LLMTask): ProviderConfig[] {
+  const prefix = taskPrefix(task);
+  const variable = process.env[`${prefix}_FALLBACKS`] ? `${prefix}_FALLBACKS` : 'LLM_FALLBACKS';
+
+  return [getProviderConfig(task), ...parseProviderList(process.env[variable], variable)];
+}
@@ -0,0 +1,62 @@
+export class LLMProviderError extends Error {
+  provider: string;
+  status?: number;
+  retryAfterMs?: number;
+
+  constructor(provider: string, message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'LLMProviderError';
+    this.provider = provider;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  // Network failures (no status), throttling and server errors are transient
+  get retryable(): boolean {
+    return this.status === undefined || this.status === 408 || this.status === 429 || this.status >= 500;
+  }
+}
+
+export type RateLimitCode = 'RATE_LIMITED' | 'INTERVIEW_QUOTA_EXCEEDED' | 'ORGANIZATION_QUOTA_EXCEEDED';
+
+export class RateLimitError extends Error {
+  code: RateLimitCode;
+  retryAfterMs: number;
+  queuePosition?: number;
+
+  constructor(code: RateLimitCode, message: string, retryAfterMs: number, queuePosition?: number) {
+    super(message);
+    this.name = 'RateLimitError';
+    this.code = code;
+    this.retryAfterMs = retryAfterMs;
+    this.queuePosition = queuePosition;
+  }
+}
+
+export type LLMErrorCode =
+  | 'LLM_TIMEOUT'
+  | 'LLM_ABORTED'
+  | 'LLM_CIRCUIT_OPEN'
+  | 'LLM_UPSTREAM_ERROR'
+  | 'LLM_FALLBACKS_EXHAUSTED'
+  | 'LLM_BUDGET_EXCEEDED';
+
+export interface FailedAttempt {
+  provider: string;
+  model: string;
+  code: string;
+  message: string;
+}
+
+// Outcome of the resilience layer around a provider call
+export class LLMError extends Error {
+  code: LLMErrorCode;
+  attempts: FailedAttempt[];
+
+  constructor(code: LLMErrorCode, message: string, attempts: FailedAttempt[] = []) {
+    super(message);
+    this.name = 'LLMError';
+    this.code = code;
+    this.attempts = attempts;
+  }
+}
@@ -0,0 +1,216 @@
+import { getProviderChain, numberFromEnv } from './config';
+import { FailedAttempt, LLMError, LLMProviderError, RateLimitError } from './errors';
+import { createProvider } from './providers';
+import { acquireSlot, consumeQuotas, pauseProvider, refundQuotas } from './rateLimiter';
+import {
+  backoffDelay,
+  createDeadline,
+  getRetryConfig,
+  isCircuitClosed,
+  recordFailure,
+  recordSuccess,
+  releaseTrialCall,
+  sleep,
+} from './resilience';
+import { CompletionRequest, CompletionResult, ProviderConfig } from './types';
+import { checkBudget, recordUsage } from './usage';
+
+export * from './types';
+export { LLMError, LLMProviderError, RateLimitError } from './errors';
+export type { FailedAttempt, LLMErrorCode } from './errors';
+export { getProviderChain, getProviderConfig, parseProviderList } from './config';
+export { getInterviewUsage, getModelPrice, getUsageReport } from './usage';
+export type { InterviewUsage, ModelPrice, UsageRecord, UsageReport, UsageTotals } from './usage';
+
+// Without a Retry-After header, back off this long after an upstream 429
+const DEFAULT_RETRY_AFTER_MS = 5000;
+// Per-attempt and overall (retries plus fallbacks) deadlines
+const DEFAULT_ATTEMPT_TIMEOUT_MS = 20000;
+const DEFAULT_DEADLINE_MS = 45000;
+
+function isRetryable(error: unknown): boolean {
+  return (error instanceof LLMProviderError && error.retryable) ||
+    (error instanceof LLMError && error.code === 'LLM_TIMEOUT');
+}
+
+function describeFailure(config: ProviderConfig, error: unknown): FailedAttempt {
+  let code = 'LLM_UPSTREAM_ERROR';
+  if (error instanceof LLMError || error instanceof RateLimitError) {
+    code = error.code;
+  } else if (error instanceof LLMProviderError && error.status === 429) {
+    code = 'UPSTREAM_RATE_LIMITED';
+  }
+
+  return {
+    provider: config.provider,
+    model: config.model,
+    code,
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
+
+interface StreamProgress {
+  started: boolean;
+}
+
+// Quota is taken before a request's first upstream call and kept through its
+// retries and fallbacks, or given back if no call was ever made
+interface QuotaUsage {
+  consumed: string[] | null;
+  called: boolean;
+}
+
+async function callWithRetries(
+  config: ProviderConfig,
+  request: CompletionRequest,
+  signal: AbortSignal,
+  progress: StreamProgress,
+  quota: QuotaUsage
+): Promise<CompletionResult> {
+  const provider = createProvider(config);
+  const { maxRetries } = getRetryConfig();
+  const attemptTimeoutMs = numberFromEnv('LLM_TIMEOUT_MS', DEFAULT_ATTEMPT_TIMEOUT_MS, 1);
+
+  for (let attempt = 0; ; attempt++) {
+    // The mock provider runs in-process and needs no throttling
+    if (config.provider !== 'mock') {
+      quota.consumed = quota.consumed ?? consumeQuotas(request.metadata);
+      await acquireSlot(config.provider, request.metadata, signal);
+      quota.called = true;
+    }
+
+    const attemptDeadline = createDeadline(attemptTimeoutMs, signal, `${config.provider} request`);
+    try {
+      const { onToken } = request;
+      if (!onToken) {
+        return await provider.complete(request, config.model, attemptDeadline.signal);
+      }
+
+      return await provider.stream(request, config.model, text => {
+        progress.started = true;
+        onToken(text);
+      }, attemptDeadline.signal);
+    } catch (error) {
+      if (signal.aborted) {
+        throw signal.reason;
+      }
+
+      // Tokens already sent to the client can't be taken back, so a stream
+      // that fails midway is not retried
+      const failure = attemptDeadline.signal.aborted ? attemptDeadline.signal.reason : error;
+      if (!isRetryable(failure) || attempt >= maxRetries || progress.started) {
+        throw failure;
+      }
+
+      console.warn('Retrying LLM call:', {
+        provider: config.provider,
+        model: config.model,
+        attempt: attempt + 1,
+        reason: failure instanceof Error ? failure.message : String(failure),
+      });
+
+      if (failure instanceof LLMProviderError && failure.status === 429) {
+        pauseProvider(config.provider, failure.retryAfterMs ?? DEFAULT_RETRY_AFTER_MS);
+      } else {
+        await sleep(backoffDelay(attempt), signal);
+      }
+    } finally {
+      attemptDeadline.dispose();
+    }
+  }
+}
+
+/**
+ * Sends a chat completion for the request's task. Transient failures are
+ * retried with backoff, then the configured fallback models are tried in
+ * order. Failures surface as LLMError/RateLimitError with a distinct code.
+ * With `onToken` set the completion is streamed; once the first token has
+ * been reported no further retries or fallbacks are attempted. Successful
+ * calls are recorded for usage accounting (usage.ts), and question
+ * generation stops with LLM_BUDGET_EXCEEDED once an interview's budget is
+ * spent.
+ *
+ * Environment variables: LLM_TIMEOUT_MS per attempt (default 20000),
+ * LLM_DEADLINE_MS overall (default 45000), plus those read by config.ts,
+ * rateLimiter.ts and resilience.ts.
+ */
+export async function complete(request: CompletionRequest): Promise<CompletionResult> {
+  checkBudget(request);
+
+  const chain = request.providers ?? getProviderChain(request.task);
+  const deadline = createDeadline(
+    request.timeoutMs ?? numberFromEnv('LLM_DEADLINE_MS', DEFAULT_DEADLINE_MS, 1),
+    request.signal,
+    `${request.task} generation`
+  );
+
+  const failures: FailedAttempt[] = [];
+  const progress: StreamProgress = { started: false };
+  const quota: QuotaUsage = { consumed: null, called: false };
+  let lastError: unknown;
+
+  try {
+    for (const config of chain) {
+      const circuitKey = `${config.provider}:${config.model}`;
+
+      if (!isCircuitClosed(circuitKey)) {
+        lastError = new LLMError('LLM_CIRCUIT_OPEN', `${circuitKey} is temporarily disabled after repeated failures`);
+        failures.push(describeFailure(config, lastError));
+        continue;
+      }
+
+      console.log('LLM request:', {
+        task: request.task,
+        provider: config.provider,
+        model: config.model,
+        interviewId: request.metadata?.interviewId,
+      });
+
+      try {
+        const startedAt = Date.now();
+        const result = await callWithRetries(config, request, deadline.signal, progress, quota);
+        recordSuccess(circuitKey);
+        recordUsage(request, result, Date.now() - startedAt);
+        return result;
+      } catch (error) {
+        if (deadline.signal.aborted) {
+          throw deadline.signal.reason;
+        }
+
+        // Quotas apply whichever model serves the call
+        if (error instanceof RateLimitError && error.code !== 'RATE_LIMITED') {
+          throw error;
+        }
+
+        if (!(error instanceof RateLimitError)) {
+          recordFailure(circuitKey);
+        }
+
+        lastError = error;
+        failures.push(describeFailure(config, error));
+        console.warn('LLM provider failed:', failures[failures.length - 1]);
+
+        if (progress.started) {
+          break;
+        }
+      } finally {
+        releaseTrialCall(circuitKey);
+      }
+    }
+  } finally {
+    deadline.dispose();
+    if (quota.consumed && !quota.called) {
+      refundQuotas(quota.consumed);
+    }
+  }
+
+  if (failures.length > 1) {
+    throw new LLMError('LLM_FALLBACKS_EXHAUSTED', `All ${failures.length} configured models failed`, failures);
+  }
+
+  if (lastError instanceof LLMProviderError && lastError.status !== 429) {
+    throw new LLMError('LLM_UPSTREAM_ERROR', lastError.message, failures);
+  }
+
+  throw lastError;
+}
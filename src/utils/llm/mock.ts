@@ -0,0 +1,188 @@
+import fs from 'fs';
+import { CompletionRequest, CompletionResult, LLMProvider, LLMTask } from './types';
+
+// A scripted, in-process provider so the API routes can run end to end
+// without network access. Set LLM_PROVIDER=mock to use it.
+//
+// LLM_MOCK_SCRIPT may point at a JSON file of canned responses per task:
+//   { "question": [ {...}, {...} ], "grading": [ {...} ] }
+// Responses are served in order and wrap around. Without a script, a
+// deterministic response is built from the request metadata.
+
+type MockScript = { [key in LLMTask]?: unknown[] };
+
+let script: MockScript | null = null;
+const scriptPositions: { [key in LLMTask]: number } = { question: 0, grading: 0 };
+
+function loadScript(): MockScript {
+  if (script) {
+    return script;
+  }
+
+  const scriptPath = process.env.LLM_MOCK_SCRIPT;
+  if (!scriptPath) {
+    script = {};
+    return script;
+  }
+
+  try {
+    script = JSON.parse(fs.readFileSync(scriptPath, 'utf8')) as MockScript;
+  } catch (error) {
+    console.error('Failed to load mock LLM script:', scriptPath, error);
+    throw new Error(`Could not load LLM_MOCK_SCRIPT from ${scriptPath}`);
+  }
+
+  return script;
+}
+
+function nextScripted(task: LLMTask): string | undefined {
+  const responses = loadScript()[task];
+  if (!responses || responses.length === 0) {
+    return undefined;
+  }
+
+  const response = responses[scriptPositions[task] % responses.length];
+  scriptPositions[task] += 1;
+  return typeof response === 'string' ? response : JSON.stringify(response);
+}
+
+function mockQuestion(request: CompletionRequest) {
+  const technology = request.metadata?.technology || 'JavaScript';
+  const questionType = (request.metadata?.questionType || 'subjective').toLowerCase();
+
+  if (questionType === 'mcq') {
+    return {
+      question: `Which statement about ${technology} is correct?`,
+      expectedTopics: [`${technology} fundamentals`, 'Language semantics'],
+      difficulty: 2,
+      modelAnswer: {
+        options: {
+          A: `${technology} has no error handling`,
+          B: `${technology} code is usually organised into modules`,
+          C: `${technology} cannot be tested automatically`,
+          D: `${technology} only runs on one operating system`,
+        },
+        correctOption: 'B',
+        explanation: `Modular code organisation is common practice in ${technology}; the other statements are false.`,
+      },
+    };
+  }
+
+  if (questionType === 'plan') {
+    return {
+      role: 'Full-stack Engineer',
+      seniority: 'mid',
+      skills: [
+        { name: 'React', required: true, onResume: true },
+        { name: 'Node.js', required: true, onResume: false },
+        { name: 'PostgreSQL', required: false },
+      ],
+      technologies: [{ name: 'react', weight: 3 }, { name: 'node.js', weight: 2 }],
+      sections: [
+        { name: 'Warm-up', questionType: 'mcq', count: 2, difficulty: 'Easy' },
+        { name: 'Coding', questionType: 'coding', count: 2, topics: ['API design'] },
+        { name: 'Design', questionType: 'subjective', count: 2 },
+      ],
+      topics: ['State management', 'Database indexing'],
+      rationale: 'Mock plan: front-end and back-end skills are both required, with a design discussion to gauge seniority.',
+    };
+  }
+
+  if (questionType === 'coding') {
+    const python = request.metadata?.language === 'python';
+    return {
+      question: 'Write a function sum(numbers) that returns the sum of an array of numbers. For example, sum([1, 2, 3]) returns 6.',
+      expectedTopics: ['Iteration', 'Edge cases such as an empty array'],
+      difficulty: 1,
+      modelAnswer: {
+        isCode: true,
+        language: python ? 'python' : 'javascript',
+        content: python
+          ? 'def sum(numbers):\n    total = 0\n    for n in numbers:\n        total += n\n    return total'
+          : 'function sum(numbers) {\n  return numbers.reduce((total, n) => total + n, 0);\n}',
+      },
+      functionName: 'sum',
+      tests: [
+        { name: 'Several numbers', args: [[1, 2, 3]], expected: 6, hidden: false },
+        { name: 'Single number', args: [[5]], expected: 5, hidden: false },
+        { name: 'Empty array', args: [[]], expected: 0, hidden: true },
+        { name: 'Negative numbers', args: [[-4, 1]], expected: -3, hidden: true },
+      ],
+      starters: [
+        { language: 'javascript', signature: 'function sum(numbers)', template: 'function sum(numbers) {\n  // TODO\n}\n' },
+        { language: 'typescript', signature: 'function sum(numbers: number[]): number', template: 'function sum(numbers: number[]): number {\n  // TODO\n  return 0;\n}\n' },
+        { language: 'python', signature: 'def sum(numbers: list[float]) -> float', template: 'def sum(numbers: list[float]) -> float:\n    # TODO\n    pass\n' },
+      ],
+    };
+  }
+
+  return {
+    question: `How would you structure error handling in a large ${technology} application?`,
+    expectedTopics: ['Centralised error handling', 'Logging and monitoring', 'User-facing error messages'],
+    difficulty: 2,
+    modelAnswer: {
+      isCode: false,
+      content: 'A good answer separates expected from unexpected errors, handles them at clear boundaries, logs with context and shows users actionable messages.',
+    },
+  };
+}
+
+function mockAnalysis(request: CompletionRequest) {
+  const topics = request.metadata?.expectedTopics || [];
+  const criteria = request.metadata?.rubricCriteria || [];
+  const covered = Math.ceil(topics.length / 2);
+
+  return {
+    criteria: Object.fromEntries(criteria.map(id => [id, { score: 7, feedback: `Mock ${id} feedback.` }])),
+    items: Object.fromEntries(topics.map((topic, index) => [
+      String(index + 1),
+      { verdict: index < covered ? 'pass' : 'fail', comment: index < covered ? 'Covered.' : 'Not mentioned.' },
+    ])),
+    feedback: 'Mock analysis: the response addresses the main idea but could go into more depth.',
+    improvement: 'Discuss the remaining expected topics with concrete examples.',
+  };
+}
+
+const STREAM_CHUNK_SIZE = 12;
+const STREAM_CHUNK_DELAY_MS = 15;
+
+export function createMockProvider(): LLMProvider {
+  const complete = async (request: CompletionRequest, model: string): Promise<CompletionResult> => {
+    const content = nextScripted(request.task) ?? JSON.stringify(
+      request.task === 'question' ? mockQuestion(request) : mockAnalysis(request)
+    );
+
+    // Roughly what a real model would report, so usage accounting can be tried out
+    const promptTokens = Math.ceil(request.messages.reduce((sum, message) => sum + message.content.length, 0) / 4);
+    const completionTokens = Math.ceil(content.length / 4);
+
+    return {
+      content,
+      provider: 'mock',
+      model,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+    };
+  };
+
+  return {
+    name: 'mock',
+    complete,
+    async stream(request: CompletionRequest, model: string, onToken: (text: string) => void, signal?: AbortSignal): Promise<CompletionResult> {
+      const result = await complete(request, model);
+
+      for (let i = 0; i < result.content.length; i += STREAM_CHUNK_SIZE) {
+        if (signal?.aborted) {
+          throw signal.reason;
+        }
+        onToken(result.content.slice(i, i + STREAM_CHUNK_SIZE));
+        await new Promise(resolve => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+      }
+
+      return result;
+    },
+  };
+}
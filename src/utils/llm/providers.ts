@@ -0,0 +1,183 @@
+import { LLMProviderError } from './errors';
+import { createMockProvider } from './mock';
+import { CompletionRequest, CompletionResult, CompletionUsage, LLMProvider, ProviderConfig, ProviderName } from './types';
+
+function parseRetryAfter(headers: Headers): number | undefined {
+  const retryAfter = headers.get('retry-after');
+  if (!retryAfter) {
+    return undefined;
+  }
+
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Token counts as reported by chat completions APIs
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+function parseUsage(usage: OpenAIUsage | null | undefined): CompletionUsage | undefined {
+  if (!usage) {
+    return undefined;
+  }
+
+  return {
+    promptTokens: usage.prompt_tokens ?? 0,
+    completionTokens: usage.completion_tokens ?? 0,
+    totalTokens: usage.total_tokens ?? 0,
+  };
+}
+
+// Groq, OpenAI, Ollama and llama.cpp all speak the same chat completions API
+function createOpenAICompatibleProvider(name: ProviderName, baseUrl: string, apiKey?: string): LLMProvider {
+  async function post(request: CompletionRequest, model: string, stream: boolean, signal?: AbortSignal): Promise<Response> {
+    if (name !== 'local' && !apiKey) {
+      throw new LLMProviderError(name, `${name} API key is not configured`, 401);
+    }
+
+    const headers: { [key: string]: string } = {
+      'Content-Type': 'application/json',
+    };
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model,
+          messages: request.messages,
+          temperature: request.temperature ?? 0.7,
+          max_tokens: request.maxTokens ?? 1000,
+          top_p: request.topP ?? 0.95,
+          stream,
+        }),
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) {
+        throw signal.reason ?? error;
+      }
+      throw new LLMProviderError(name, `Network error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('API response error:', {
+        provider: name,
+        status: response.status,
+        statusText: response.statusText,
+        errorText
+      });
+
+      if (response.status === 429) {
+        throw new LLMProviderError(name, 'Rate limit exceeded', 429, parseRetryAfter(response.headers));
+      }
+
+      throw new LLMProviderError(name, `API request failed: ${response.status} ${response.statusText}`, response.status);
+    }
+
+    return response;
+  }
+
+  return {
+    name,
+    async complete(request: CompletionRequest, model: string, signal?: AbortSignal): Promise<CompletionResult> {
+      const response = await post(request, model, false, signal);
+
+      const responseData = await response.json();
+      console.log('Raw API response:', JSON.stringify(responseData, null, 2));
+
+      const content = responseData?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') {
+        console.error('Invalid API response structure:', responseData);
+        throw new LLMProviderError(name, `Invalid response structure from ${name} API`);
+      }
+
+      return {
+        content,
+        provider: name,
+        model: responseData.model || model,
+        usage: parseUsage(responseData.usage),
+      };
+    },
+
+    async stream(request: CompletionRequest, model: string, onToken: (text: string) => void, signal?: AbortSignal): Promise<CompletionResult> {
+      const response = await post(request, model, true, signal);
+      if (!response.body) {
+        throw new LLMProviderError(name, `Streaming response from ${name} API has no body`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let content = '';
+      let responseModel = model;
+      let usage: CompletionUsage | undefined;
+
+      // Server-sent events: `data: {chunk}` lines, terminated by `data: [DONE]`
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const data = line.trim().replace(/^data:\s*/, '');
+          if (!line.trim().startsWith('data:') || data === '[DONE]') {
+            continue;
+          }
+
+          let chunk;
+          try {
+            chunk = JSON.parse(data);
+          } catch {
+            throw new LLMProviderError(name, `Malformed stream chunk from ${name} API`);
+          }
+          const delta = chunk?.choices?.[0]?.delta?.content;
+          if (typeof delta === 'string' && delta.length > 0) {
+            content += delta;
+            onToken(delta);
+          }
+          responseModel = chunk.model || responseModel;
+          // Groq reports usage on the final chunk under x_groq
+          usage = parseUsage(chunk.usage ?? chunk.x_groq?.usage) ?? usage;
+        }
+      }
+
+      return {
+        content,
+        provider: name,
+        model: responseModel,
+        usage,
+      };
+    },
+  };
+}
+
+export function createProvider(config: ProviderConfig): LLMProvider {
+  if (config.provider === 'mock') {
+    return createMockProvider();
+  }
+
+  if (!config.baseUrl) {
+    throw new Error(`No base URL configured for provider ${config.provider}`);
+  }
+
+  return createOpenAICompatibleProvider(config.provider, config.baseUrl, config.apiKey);
+}
@@ -0,0 +1,290 @@
+import { numberFromEnv } from './config';
+import { RateLimitError } from './errors';
+import { CompletionMetadata } from './types';
+
+// Token-bucket limiter for upstream LLM calls, one bucket per provider.
+//
+// Waiting calls are queued per interview and served round robin, so one
+// interview issuing many calls cannot starve the others. Per-interview and
+// per-organisation quotas are counted over a rolling window. State lives in
+// the server process; it is kept on globalThis so dev-mode reloads don't
+// reset it.
+//
+// Environment variables:
+// - LLM_RATE_LIMIT_PER_MINUTE: sustained upstream calls per minute (default 20)
+// - LLM_RATE_LIMIT_BURST: bucket capacity (default 1)
+// - LLM_QUEUE_MAX_WAIT_MS: reject instead of queueing beyond this wait (default 60000)
+// - LLM_INTERVIEW_QUOTA / LLM_ORGANIZATION_QUOTA: calls per quota window (default 60 / 1000, 0 disables)
+// - LLM_QUOTA_WINDOW_MS: quota window length (default 1 hour)
+
+const ANONYMOUS_INTERVIEW = 'anonymous';
+
+interface Waiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+interface Bucket {
+  tokens: number;
+  lastRefill: number;
+  blockedUntil: number;
+  queues: Map<string, Waiter[]>;
+  // Interview keys in round-robin order
+  rotation: string[];
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+interface QuotaWindow {
+  count: number;
+  resetAt: number;
+}
+
+interface LimiterState {
+  buckets: Map<string, Bucket>;
+  quotas: Map<string, QuotaWindow>;
+}
+
+const globalForLimiter = globalThis as unknown as { llmRateLimiter?: LimiterState };
+
+const state: LimiterState = globalForLimiter.llmRateLimiter ?? {
+  buckets: new Map(),
+  quotas: new Map(),
+};
+globalForLimiter.llmRateLimiter = state;
+
+function getConfig() {
+  return {
+    perMinute: Math.max(1, numberFromEnv('LLM_RATE_LIMIT_PER_MINUTE', 20)),
+    burst: Math.max(1, numberFromEnv('LLM_RATE_LIMIT_BURST', 1)),
+    maxWaitMs: numberFromEnv('LLM_QUEUE_MAX_WAIT_MS', 60000),
+    interviewQuota: numberFromEnv('LLM_INTERVIEW_QUOTA', 60),
+    organizationQuota: numberFromEnv('LLM_ORGANIZATION_QUOTA', 1000),
+    quotaWindowMs: numberFromEnv('LLM_QUOTA_WINDOW_MS', 60 * 60 * 1000),
+  };
+}
+
+function getBucket(provider: string): Bucket {
+  let bucket = state.buckets.get(provider);
+  if (!bucket) {
+    bucket = {
+      tokens: getConfig().burst,
+      lastRefill: Date.now(),
+      blockedUntil: 0,
+      queues: new Map(),
+      rotation: [],
+      timer: null,
+    };
+    state.buckets.set(provider, bucket);
+  }
+  return bucket;
+}
+
+function refill(bucket: Bucket) {
+  const { perMinute, burst } = getConfig();
+  const now = Date.now();
+  bucket.tokens = Math.min(burst, bucket.tokens + ((now - bucket.lastRefill) * perMinute) / 60000);
+  bucket.lastRefill = now;
+}
+
+function queuedCount(bucket: Bucket): number {
+  let total = 0;
+  bucket.queues.forEach(queue => {
+    total += queue.length;
+  });
+  return total;
+}
+
+// Milliseconds until the bucket can serve `position` more calls
+function estimateWait(bucket: Bucket, position: number): number {
+  const { perMinute } = getConfig();
+  const interval = 60000 / perMinute;
+  const blocked = Math.max(0, bucket.blockedUntil - Date.now());
+  const missingTokens = Math.max(0, position - bucket.tokens);
+  return blocked + Math.ceil(missingTokens * interval);
+}
+
+function schedule(provider: string, bucket: Bucket) {
+  if (bucket.timer || queuedCount(bucket) === 0) {
+    return;
+  }
+
+  bucket.timer = setTimeout(() => {
+    bucket.timer = null;
+    drain(provider, bucket);
+  }, Math.max(estimateWait(bucket, 1), 10));
+}
+
+function drain(provider: string, bucket: Bucket) {
+  refill(bucket);
+
+  while (bucket.rotation.length > 0 && bucket.tokens >= 1 && Date.now() >= bucket.blockedUntil) {
+    const interviewKey = bucket.rotation.shift()!;
+    const queue = bucket.queues.get(interviewKey)!;
+    const waiter = queue.shift()!;
+
+    if (queue.length > 0) {
+      bucket.rotation.push(interviewKey);
+    } else {
+      bucket.queues.delete(interviewKey);
+    }
+
+    bucket.tokens -= 1;
+    waiter.resolve();
+  }
+
+  schedule(provider, bucket);
+}
+
+function consumeQuota(key: string, limit: number, windowMs: number): number | null {
+  if (limit <= 0) {
+    return null;
+  }
+
+  const now = Date.now();
+  let window = state.quotas.get(key);
+  if (!window || window.resetAt <= now) {
+    window = { count: 0, resetAt: now + windowMs };
+    state.quotas.set(key, window);
+  }
+
+  if (window.count >= limit) {
+    return window.resetAt - now;
+  }
+
+  window.count += 1;
+  return null;
+}
+
+function refundQuota(key: string) {
+  const window = state.quotas.get(key);
+  if (window && window.count > 0) {
+    window.count -= 1;
+  }
+}
+
+/**
+ * Counts one logical request against the interview's and organisation's
+ * quotas, whatever retries and fallbacks it takes. Returns the quota keys
+ * for refundQuotas; throws a RateLimitError when a quota is spent.
+ */
+export function consumeQuotas(metadata?: CompletionMetadata): string[] {
+  const { interviewQuota, organizationQuota, quotaWindowMs } = getConfig();
+  const consumed: string[] = [];
+
+  if (metadata?.organizationId) {
+    const key = `organization:${metadata.organizationId}`;
+    const retryAfterMs = consumeQuota(key, organizationQuota, quotaWindowMs);
+    if (retryAfterMs !== null) {
+      throw new RateLimitError(
+        'ORGANIZATION_QUOTA_EXCEEDED',
+        'Your organisation has used its interview quota for now.',
+        retryAfterMs
+      );
+    }
+    consumed.push(key);
+  }
+
+  if (metadata?.interviewId) {
+    const key = `interview:${metadata.interviewId}`;
+    const retryAfterMs = consumeQuota(key, interviewQuota, quotaWindowMs);
+    if (retryAfterMs !== null) {
+      consumed.forEach(refundQuota);
+      throw new RateLimitError(
+        'INTERVIEW_QUOTA_EXCEEDED',
+        'This interview has used its question quota for now.',
+        retryAfterMs
+      );
+    }
+    consumed.push(key);
+  }
+
+  return consumed;
+}
+
+/** Gives back quota taken for a request that never reached a provider. */
+export function refundQuotas(keys: string[]) {
+  keys.forEach(refundQuota);
+}
+
+/**
+ * Waits for an upstream slot on the given provider; every attempt, retries
+ * included, takes one. Rejects with a RateLimitError (carrying the queue
+ * position and a retry hint) when the expected wait exceeds
+ * LLM_QUEUE_MAX_WAIT_MS.
+ */
+export async function acquireSlot(provider: string, metadata?: CompletionMetadata, signal?: AbortSignal): Promise<void> {
+  const bucket = getBucket(provider);
+  refill(bucket);
+
+  const interviewKey = metadata?.interviewId || ANONYMOUS_INTERVIEW;
+  const ownQueue = bucket.queues.get(interviewKey);
+
+  // Round robin serves one call per waiting interview in turn, so every other
+  // interview gets at most as many turns as we have calls ahead of us
+  const rounds = (ownQueue?.length ?? 0) + 1;
+  let queuePosition = rounds;
+  bucket.queues.forEach((queue, key) => {
+    if (key !== interviewKey) {
+      queuePosition += Math.min(queue.length, rounds);
+    }
+  });
+  const expectedWaitMs = estimateWait(bucket, queuePosition);
+
+  if (expectedWaitMs > getConfig().maxWaitMs) {
+    throw new RateLimitError(
+      'RATE_LIMITED',
+      `The interviewer is busy. You are number ${queuePosition} in the queue.`,
+      expectedWaitMs,
+      queuePosition
+    );
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      const queue = bucket.queues.get(interviewKey);
+      const index = queue ? queue.indexOf(waiter) : -1;
+      if (queue && index !== -1) {
+        queue.splice(index, 1);
+        if (queue.length === 0) {
+          bucket.queues.delete(interviewKey);
+          bucket.rotation = bucket.rotation.filter(key => key !== interviewKey);
+        }
+      }
+      reject(signal?.reason ?? new Error('Aborted'));
+    };
+
+    const waiter: Waiter = {
+      resolve: () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      },
+      reject,
+    };
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const queue = bucket.queues.get(interviewKey);
+    if (queue) {
+      queue.push(waiter);
+    } else {
+      bucket.queues.set(interviewKey, [waiter]);
+      bucket.rotation.push(interviewKey);
+    }
+    drain(provider, bucket);
+  });
+}
+
+/**
+ * Pauses a provider's bucket after it answered 429, honouring Retry-After.
+ */
+export function pauseProvider(provider: string, retryAfterMs: number) {
+  const bucket = getBucket(provider);
+  bucket.blockedUntil = Math.max(bucket.blockedUntil, Date.now() + retryAfterMs);
+  bucket.tokens = 0;
+  bucket.lastRefill = Date.now();
+  console.warn('Upstream rate limit hit, pausing provider:', { provider, retryAfterMs });
+}
@@ -0,0 +1,145 @@
+import { numberFromEnv } from './config';
+import { LLMError } from './errors';
+
+// Retry, backoff and circuit-breaker primitives for upstream LLM calls.
+//
+// Environment variables:
+// - LLM_MAX_RETRIES: retries per provider for transient failures (default 2)
+// - LLM_RETRY_BASE_MS / LLM_RETRY_MAX_MS: backoff bounds (default 500 / 8000)
+// - LLM_CIRCUIT_FAILURE_THRESHOLD: consecutive failures that open a circuit (default 5)
+// - LLM_CIRCUIT_COOLDOWN_MS: how long an open circuit rejects calls (default 30000)
+
+type CircuitState = 'closed' | 'open' | 'half-open';
+
+interface Circuit {
+  state: CircuitState;
+  failures: number;
+  openedAt: number;
+}
+
+const globalForCircuits = globalThis as unknown as { llmCircuits?: Map<string, Circuit> };
+const circuits: Map<string, Circuit> = globalForCircuits.llmCircuits ?? new Map();
+globalForCircuits.llmCircuits = circuits;
+
+export function getRetryConfig() {
+  return {
+    maxRetries: numberFromEnv('LLM_MAX_RETRIES', 2),
+    baseDelayMs: numberFromEnv('LLM_RETRY_BASE_MS', 500),
+    maxDelayMs: numberFromEnv('LLM_RETRY_MAX_MS', 8000),
+  };
+}
+
+// Exponential backoff with full jitter
+export function backoffDelay(attempt: number): number {
+  const { baseDelayMs, maxDelayMs } = getRetryConfig();
+  return Math.round(Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Returns a signal that aborts when the parent aborts (with LLM_ABORTED) or
+ * after `timeoutMs` (with LLM_TIMEOUT). Call `dispose` once the work is done.
+ */
+export function createDeadline(timeoutMs: number, parent?: AbortSignal, label = 'LLM call') {
+  const controller = new AbortController();
+
+  const onParentAbort = () => {
+    controller.abort(new LLMError('LLM_ABORTED', `${label} was cancelled by the client`));
+  };
+  const timer = setTimeout(() => {
+    controller.abort(new LLMError('LLM_TIMEOUT', `${label} timed out after ${timeoutMs}ms`));
+  }, timeoutMs);
+
+  if (parent?.aborted) {
+    onParentAbort();
+  } else {
+    parent?.addEventListener('abort', onParentAbort, { once: true });
+  }
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onParentAbort);
+    },
+  };
+}
+
+function getCircuit(key: string): Circuit {
+  let circuit = circuits.get(key);
+  if (!circuit) {
+    circuit = { state: 'closed', failures: 0, openedAt: 0 };
+    circuits.set(key, circuit);
+  }
+  return circuit;
+}
+
+/**
+ * Whether calls to `key` may proceed. An open circuit lets a single trial
+ * call through (half-open) once the cooldown has passed; other calls are
+ * refused until recordSuccess or recordFailure settles it.
+ */
+export function isCircuitClosed(key: string): boolean {
+  const circuit = getCircuit(key);
+  if (circuit.state === 'closed') {
+    return true;
+  }
+  if (circuit.state === 'half-open') {
+    return false;
+  }
+
+  if (Date.now() - circuit.openedAt >= numberFromEnv('LLM_CIRCUIT_COOLDOWN_MS', 30000)) {
+    circuit.state = 'half-open';
+    return true;
+  }
+
+  return false;
+}
+
+export function recordSuccess(key: string) {
+  const circuit = getCircuit(key);
+  circuit.state = 'closed';
+  circuit.failures = 0;
+}
+
+/**
+ * Ends a trial call that settled neither way (e.g. it was aborted or never
+ * got a rate-limit slot), so the next call can be the trial instead.
+ */
+export function releaseTrialCall(key: string) {
+  const circuit = getCircuit(key);
+  if (circuit.state === 'half-open') {
+    circuit.state = 'open';
+  }
+}
+
+export function recordFailure(key: string) {
+  const circuit = getCircuit(key);
+  circuit.failures += 1;
+
+  if (circuit.state === 'half-open' || circuit.failures >= numberFromEnv('LLM_CIRCUIT_FAILURE_THRESHOLD', 5)) {
+    if (circuit.state !== 'open') {
+      console.warn('Opening LLM circuit breaker:', { key, failures: circuit.failures });
+    }
+    circuit.state = 'open';
+    circuit.openedAt = Date.now();
+  }
+}
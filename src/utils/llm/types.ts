@@ -0,0 +1,67 @@
+export type LLMTask = 'question' | 'grading';
+
+export type ProviderName = 'groq' | 'openai' | 'local' | 'mock';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Extra information about a call that providers may use (the mock provider
+// relies on it to script sensible answers without parsing the prompt).
+export interface CompletionMetadata {
+  interviewId?: string;
+  organizationId?: string;
+  // The question generated, or whose answer is graded
+  questionNumber?: number;
+  technology?: string;
+  questionType?: string;
+  // Coding questions: the editor language the answer is written in
+  language?: string;
+  expectedTopics?: string[];
+  rubricCriteria?: string[];
+}
+
+export interface CompletionRequest {
+  task: LLMTask;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  metadata?: CompletionMetadata;
+  // Cancels the call, e.g. when the candidate's browser disconnects
+  signal?: AbortSignal;
+  // Overall deadline across retries and fallbacks (default LLM_DEADLINE_MS)
+  timeoutMs?: number;
+  // Models to try instead of the task's configured chain
+  providers?: ProviderConfig[];
+  // When set, the completion is streamed and each text delta reported here
+  onToken?: (text: string) => void;
+}
+
+export interface CompletionUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  provider: string;
+  model: string;
+  usage?: CompletionUsage;
+}
+
+export interface LLMProvider {
+  name: ProviderName;
+  complete(request: CompletionRequest, model: string, signal?: AbortSignal): Promise<CompletionResult>;
+  // Like complete, but reports the completion text as it is generated
+  stream(request: CompletionRequest, model: string, onToken: (text: string) => void, signal?: AbortSignal): Promise<CompletionResult>;
+}
+
+export interface ProviderConfig {
+  provider: ProviderName;
+  model: string;
+  baseUrl?: string;
+  apiKey?: string;
+}
@@ -0,0 +1,290 @@
+import { numberFromEnv } from './config';
+import { LLMError } from './errors';
+import { CompletionRequest, CompletionResult, LLMTask } from './types';
+
+// Token usage and cost of every LLM call, attributed to the interview and
+// question it served. Like the rate limiter this lives in the server process
+// (on globalThis across dev-mode reloads), so reports cover calls since the
+// last restart within the retention period.
+//
+// Environment variables:
+// - LLM_PRICES: JSON price table merged over the defaults, in USD per million
+//   tokens keyed by "provider:model" or "provider", e.g.
+//   {"groq:llama-3.3-70b-versatile": {"input": 0.59, "output": 0.79}}
+// - LLM_INTERVIEW_BUDGET_USD / LLM_INTERVIEW_TOKEN_BUDGET: stop generating
+//   questions for an interview once it has used this much (default 0, off)
+// - LLM_USAGE_RETENTION_MS: how long usage is kept (default 7 days)
+
+export interface ModelPrice {
+  // USD per million tokens
+  input: number;
+  output: number;
+}
+
+export interface UsageRecord {
+  interviewId?: string;
+  organizationId?: string;
+  questionNumber?: number;
+  task: LLMTask;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  costUsd: number;
+  // The provider reported no usage, so tokens were estimated from the text
+  estimated: boolean;
+  at: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  latencyMs: number;
+}
+
+export interface InterviewUsage {
+  interviewId: string;
+  organizationId?: string;
+  totals: UsageTotals;
+  byTask: { [task: string]: UsageTotals };
+  byQuestion: { questionNumber: number; totals: UsageTotals }[];
+  byModel: { [model: string]: UsageTotals };
+  budget: { costUsd?: number; tokens?: number; exceeded: boolean };
+}
+
+export interface UsageReport {
+  since: string;
+  interviews: number;
+  totals: UsageTotals;
+  averagePerInterview: UsageTotals | null;
+  byTask: { [task: string]: UsageTotals };
+  byModel: { [model: string]: UsageTotals };
+  byOrganization: { [organizationId: string]: UsageTotals };
+}
+
+const DEFAULT_PRICES: { [key: string]: ModelPrice } = {
+  'groq:llama-3.2-90b-vision-preview': { input: 0.9, output: 0.9 },
+  'groq:llama-3.3-70b-versatile': { input: 0.59, output: 0.79 },
+  'groq:llama-3.1-8b-instant': { input: 0.05, output: 0.08 },
+  'openai:gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'openai:gpt-4o': { input: 2.5, output: 10 },
+  local: { input: 0, output: 0 },
+  mock: { input: 0, output: 0 },
+};
+
+const ANONYMOUS_INTERVIEW = 'anonymous';
+const DEFAULT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+// Rough characters per token, for providers that don't report usage
+const CHARS_PER_TOKEN = 4;
+
+const globalForUsage = globalThis as unknown as {
+  llmUsage?: Map<string, UsageRecord[]>;
+  llmUnpricedModels?: Set<string>;
+};
+const records: Map<string, UsageRecord[]> = globalForUsage.llmUsage ?? new Map();
+const unpricedModels: Set<string> = globalForUsage.llmUnpricedModels ?? new Set();
+globalForUsage.llmUsage = records;
+globalForUsage.llmUnpricedModels = unpricedModels;
+
+function getPriceTable(): { [key: string]: ModelPrice } {
+  if (!process.env.LLM_PRICES) {
+    return DEFAULT_PRICES;
+  }
+
+  try {
+    return { ...DEFAULT_PRICES, ...JSON.parse(process.env.LLM_PRICES) };
+  } catch (error) {
+    console.error('LLM_PRICES is not valid JSON, using the default prices:', error);
+    return DEFAULT_PRICES;
+  }
+}
+
+export function getModelPrice(provider: string, model: string): ModelPrice | null {
+  const prices = getPriceTable();
+  return prices[`${provider}:${model}`] ?? prices[provider] ?? null;
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0, latencyMs: 0 };
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord): UsageTotals {
+  totals.calls += 1;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  totals.totalTokens += record.promptTokens + record.completionTokens;
+  // Rounded so sums of tiny per-call costs don't pick up float noise
+  totals.costUsd = Math.round((totals.costUsd + record.costUsd) * 1e9) / 1e9;
+  totals.latencyMs += record.latencyMs;
+  return totals;
+}
+
+function sumBy(list: UsageRecord[], key: (record: UsageRecord) => string): { [key: string]: UsageTotals } {
+  const groups: { [key: string]: UsageTotals } = {};
+  for (const record of list) {
+    const group = key(record);
+    groups[group] = addRecord(groups[group] ?? emptyTotals(), record);
+  }
+  return groups;
+}
+
+// Records are appended in time order, so expired ones are at the front of
+// each list; a list that never goes quiet (e.g. calls without an interview)
+// is trimmed rather than kept whole
+function sweepExpired() {
+  const cutoff = Date.now() - numberFromEnv('LLM_USAGE_RETENTION_MS', DEFAULT_RETENTION_MS, 1);
+  records.forEach((list, interviewId) => {
+    const firstKept = list.findIndex(record => record.at >= cutoff);
+    if (firstKept === -1) {
+      records.delete(interviewId);
+    } else if (firstKept > 0) {
+      list.splice(0, firstKept);
+    }
+  });
+}
+
+/** Records a completed call. Calls served by a single request's retries count once. */
+export function recordUsage(request: CompletionRequest, result: CompletionResult, latencyMs: number): UsageRecord {
+  const estimated = !result.usage;
+  const promptTokens = result.usage?.promptTokens
+    ?? Math.ceil(request.messages.reduce((sum, message) => sum + message.content.length, 0) / CHARS_PER_TOKEN);
+  const completionTokens = result.usage?.completionTokens ?? Math.ceil(result.content.length / CHARS_PER_TOKEN);
+
+  const price = getModelPrice(result.provider, result.model);
+  if (!price && !unpricedModels.has(`${result.provider}:${result.model}`)) {
+    unpricedModels.add(`${result.provider}:${result.model}`);
+    console.warn('No price configured for model, counting its cost as 0:', { provider: result.provider, model: result.model });
+  }
+
+  const record: UsageRecord = {
+    interviewId: request.metadata?.interviewId,
+    organizationId: request.metadata?.organizationId,
+    questionNumber: request.metadata?.questionNumber,
+    task: request.task,
+    provider: result.provider,
+    model: result.model,
+    promptTokens,
+    completionTokens,
+    latencyMs,
+    costUsd: price ? (promptTokens * price.input + completionTokens * price.output) / 1e6 : 0,
+    estimated,
+    at: Date.now(),
+  };
+
+  sweepExpired();
+  const key = record.interviewId ?? ANONYMOUS_INTERVIEW;
+  const list = records.get(key);
+  if (list) {
+    list.push(record);
+  } else {
+    records.set(key, [record]);
+  }
+
+  console.log('LLM usage:', {
+    task: record.task,
+    model: `${record.provider}:${record.model}`,
+    interviewId: record.interviewId,
+    questionNumber: record.questionNumber,
+    promptTokens,
+    completionTokens,
+    latencyMs,
+    costUsd: Number(record.costUsd.toFixed(6)),
+  });
+  return record;
+}
+
+function getBudget() {
+  return {
+    costUsd: numberFromEnv('LLM_INTERVIEW_BUDGET_USD', 0) || undefined,
+    tokens: numberFromEnv('LLM_INTERVIEW_TOKEN_BUDGET', 0) || undefined,
+  };
+}
+
+function isOverBudget(totals: UsageTotals): boolean {
+  const budget = getBudget();
+  return (budget.costUsd !== undefined && totals.costUsd >= budget.costUsd) ||
+    (budget.tokens !== undefined && totals.totalTokens >= budget.tokens);
+}
+
+/**
+ * Refuses to generate more questions for an interview that has used up its
+ * budget. Grading is always allowed, so answers already given still get a
+ * score; the call that crosses the limit is allowed to finish.
+ */
+export function checkBudget(request: CompletionRequest) {
+  const interviewId = request.metadata?.interviewId;
+  if (request.task !== 'question' || !interviewId) {
+    return;
+  }
+
+  const list = records.get(interviewId) ?? [];
+  const totals = list.reduce(addRecord, emptyTotals());
+  if (isOverBudget(totals)) {
+    throw new LLMError(
+      'LLM_BUDGET_EXCEEDED',
+      `Interview ${interviewId} has used its LLM budget (${totals.totalTokens} tokens, $${totals.costUsd.toFixed(4)})`
+    );
+  }
+}
+
+export function getInterviewUsage(interviewId: string): InterviewUsage | null {
+  const list = records.get(interviewId);
+  if (!list) {
+    return null;
+  }
+
+  const totals = list.reduce(addRecord, emptyTotals());
+  const byQuestion = sumBy(list.filter(record => record.questionNumber !== undefined), record => String(record.questionNumber));
+
+  return {
+    interviewId,
+    organizationId: list.find(record => record.organizationId)?.organizationId,
+    totals,
+    byTask: sumBy(list, record => record.task),
+    byQuestion: Object.entries(byQuestion)
+      .map(([questionNumber, questionTotals]) => ({ questionNumber: Number(questionNumber), totals: questionTotals }))
+      .sort((a, b) => a.questionNumber - b.questionNumber),
+    byModel: sumBy(list, record => `${record.provider}:${record.model}`),
+    budget: { ...getBudget(), exceeded: isOverBudget(totals) },
+  };
+}
+
+/** Aggregates usage across interviews, optionally for one organisation and from a point in time. */
+export function getUsageReport(filter: { organizationId?: string; since?: number } = {}): UsageReport {
+  sweepExpired();
+
+  const since = filter.since ?? 0;
+  const list: UsageRecord[] = [];
+  records.forEach(interviewRecords => {
+    list.push(...interviewRecords.filter(record =>
+      record.at >= since && (!filter.organizationId || record.organizationId === filter.organizationId)
+    ));
+  });
+
+  const totals = list.reduce(addRecord, emptyTotals());
+  const interviews = new Set(list.filter(record => record.interviewId).map(record => record.interviewId)).size;
+  const tracked = list.filter(record => record.interviewId).reduce(addRecord, emptyTotals());
+
+  return {
+    since: new Date(since).toISOString(),
+    interviews,
+    totals,
+    averagePerInterview: interviews > 0
+      ? {
+          calls: tracked.calls / interviews,
+          promptTokens: tracked.promptTokens / interviews,
+          completionTokens: tracked.completionTokens / interviews,
+          totalTokens: tracked.totalTokens / interviews,
+          costUsd: tracked.costUsd / interviews,
+          latencyMs: tracked.latencyMs / interviews,
+        }
+      : null,
+    byTask: sumBy(list, record => record.task),
+    byModel: sumBy(list, record => `${record.provider}:${record.model}`),
+    byOrganization: sumBy(list.filter(record => record.organizationId), record => record.organizationId!),
+  };
+}
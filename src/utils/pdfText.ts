@@ -0,0 +1,335 @@
+// Text from a PDF, extracted in the browser so a resume is never uploaded as
+// a file: only the text the interviewer submits leaves their machine. It
+// handles the text PDFs that word processors produce (Flate-compressed
+// content streams, object streams and ToUnicode font maps). Scanned PDFs have
+// no text layer, and encrypted ones are refused.
+
+export class PdfTextError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PdfTextError';
+  }
+}
+
+interface PdfObject {
+  dict: string;
+  stream?: Uint8Array;
+}
+
+// Character codes of a font to the text they stand for
+interface FontMap {
+  codeBytes: number;
+  chars: Map<number, string>;
+}
+
+const REF = /(\d+)\s+\d+\s+R/;
+const REFS = /(\d+)\s+\d+\s+R/g;
+const MAX_PAGES = 50;
+
+function latin1(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 8192) {
+    text += String.fromCharCode(...Array.from(bytes.subarray(i, i + 8192)));
+  }
+  return text;
+}
+
+async function inflate(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([new Uint8Array(bytes)]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function numberEntry(dict: string, key: string): number | null {
+  const match = dict.match(new RegExp(`/${key}\\s+(\\d+)\\b(?!\\s+\\d+\\s+R)`));
+  return match ? Number(match[1]) : null;
+}
+
+function refEntry(dict: string, key: string): number | null {
+  const match = dict.match(new RegExp(`/${key}\\s+${REF.source}`));
+  return match ? Number(match[1]) : null;
+}
+
+// Splits the file into numbered objects, including those packed into object streams
+async function readObjects(bytes: Uint8Array): Promise<Map<number, PdfObject>> {
+  const text = latin1(bytes);
+  const objects = new Map<number, PdfObject>();
+  const header = /(\d+)\s+\d+\s+obj\b/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = header.exec(text))) {
+    const start = header.lastIndex;
+    const end = text.indexOf('endobj', start);
+    const streamAt = text.indexOf('stream', start);
+    if (end === -1) break;
+
+    if (streamAt !== -1 && streamAt < end) {
+      const dict = text.slice(start, streamAt);
+      let dataStart = streamAt + 'stream'.length;
+      if (text[dataStart] === '\r') dataStart++;
+      if (text[dataStart] === '\n') dataStart++;
+      const dataEnd = text.indexOf('endstream', dataStart);
+      const length = numberEntry(dict, 'Length');
+      const stop = length !== null && dataStart + length <= dataEnd
+        ? dataStart + length
+        : text.slice(dataStart, dataEnd).replace(/\r?\n$|\r$/, '').length + dataStart;
+      objects.set(Number(match[1]), { dict, stream: bytes.subarray(dataStart, stop) });
+      header.lastIndex = dataEnd === -1 ? end : dataEnd;
+    } else {
+      objects.set(Number(match[1]), { dict: text.slice(start, end) });
+      header.lastIndex = end;
+    }
+  }
+
+  for (const object of Array.from(objects.values())) {
+    if (!/\/Type\s*\/ObjStm/.test(object.dict)) continue;
+    const content = latin1(await decodeStream(object));
+    const first = numberEntry(object.dict, 'First') ?? 0;
+    const numbers = content.slice(0, first).trim().split(/\s+/).map(Number);
+    for (let i = 0; i < numbers.length; i += 2) {
+      const from = first + numbers[i + 1];
+      const to = i + 3 < numbers.length ? first + numbers[i + 3] : content.length;
+      if (!objects.has(numbers[i])) {
+        objects.set(numbers[i], { dict: content.slice(from, to) });
+      }
+    }
+  }
+  return objects;
+}
+
+async function decodeStream(object: PdfObject): Promise<Uint8Array> {
+  const filter = object.dict.match(/\/Filter\s*\[?\s*\/(\w+)/)?.[1];
+  if (!object.stream) return new Uint8Array();
+  if (!filter) return object.stream;
+  if (filter !== 'FlateDecode') throw new PdfTextError(`Unsupported stream filter ${filter}`);
+  return inflate(object.stream);
+}
+
+function utf16(hex: string): string {
+  let text = '';
+  for (let i = 0; i + 4 <= hex.length; i += 4) {
+    text += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+  }
+  return text;
+}
+
+function parseCMap(cmap: string): FontMap {
+  const chars = new Map<number, string>();
+  let codeBytes = 1;
+
+  for (const block of Array.from(cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g))) {
+    for (const [, src, dst] of Array.from(block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g))) {
+      codeBytes = Math.max(codeBytes, src.length / 2);
+      chars.set(parseInt(src, 16), utf16(dst));
+    }
+  }
+  for (const block of Array.from(cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g))) {
+    for (const [, lo, hi, dst, list] of Array.from(block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(?:<([0-9a-fA-F]*)>|\[([^\]]*)\])/g))) {
+      codeBytes = Math.max(codeBytes, lo.length / 2);
+      const targets = list ? Array.from(list.matchAll(/<([0-9a-fA-F]*)>/g), m => m[1]) : null;
+      for (let code = parseInt(lo, 16), i = 0; code <= parseInt(hi, 16) && i < 65536; code++, i++) {
+        if (targets) {
+          if (i < targets.length) chars.set(code, utf16(targets[i]));
+        } else {
+          // Ranges increment the last character of the destination
+          const base = utf16(dst!);
+          chars.set(code, base.slice(0, -1) + String.fromCharCode(base.charCodeAt(base.length - 1) + i));
+        }
+      }
+    }
+  }
+  return { codeBytes, chars };
+}
+
+function decodeText(bytes: string, font?: FontMap): string {
+  if (!font) return bytes;
+  let text = '';
+  for (let i = 0; i < bytes.length; i += font.codeBytes) {
+    let code = 0;
+    for (let j = 0; j < font.codeBytes; j++) code = code * 256 + (bytes.charCodeAt(i + j) || 0);
+    text += font.chars.get(code) ?? (font.codeBytes === 1 ? bytes[i] : '');
+  }
+  return text;
+}
+
+// Runs a content stream's text operators, tracking the font and line breaks
+function contentText(content: string, fonts: Map<string, FontMap>): string {
+  let text = '';
+  let font: FontMap | undefined;
+  let operands: (string | number | (string | number)[])[] = [];
+  let array: (string | number)[] | null = null;
+  let lastY: number | null = null;
+  const newline = () => { if (text && !text.endsWith('\n')) text += '\n'; };
+  const show = (bytes: string) => { text += decodeText(bytes, font); };
+  const push = (value: string | number) => { if (array) array.push(value); else operands.push(value); };
+
+  for (let i = 0; i < content.length;) {
+    const c = content[i];
+    if (/\s/.test(c)) { i++; continue; }
+    if (c === '%') { while (i < content.length && content[i] !== '\n' && content[i] !== '\r') i++; continue; }
+
+    if (c === '(') {
+      let depth = 1;
+      let value = '';
+      i++;
+      while (i < content.length && depth > 0) {
+        const d = content[i++];
+        if (d === '\\') {
+          const e = content[i++];
+          const octal = /[0-7]/.test(e) ? e + (content.slice(i, i + 2).match(/^[0-7]{0,2}/)?.[0] ?? '') : null;
+          if (octal) { value += String.fromCharCode(parseInt(octal, 8) & 255); i += octal.length - 1; }
+          else if (e === '\r' || e === '\n') { if (e === '\r' && content[i] === '\n') i++; }
+          else value += ({ n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' } as { [key: string]: string })[e] ?? e;
+        } else {
+          if (d === '(') depth++;
+          if (d === ')') depth--;
+          if (depth > 0) value += d;
+        }
+      }
+      push(value);
+      continue;
+    }
+    if (c === '<' && content[i + 1] === '<') { i += 2; continue; }
+    if (c === '>' && content[i + 1] === '>') { i += 2; continue; }
+    if (c === '<') {
+      const end = content.indexOf('>', i);
+      const hex = content.slice(i + 1, end).replace(/\s/g, '');
+      let value = '';
+      for (let j = 0; j < hex.length; j += 2) value += String.fromCharCode(parseInt(hex.slice(j, j + 2).padEnd(2, '0'), 16));
+      push(value);
+      i = end + 1;
+      continue;
+    }
+    if (c === '[') { array = []; i++; continue; }
+    if (c === ']') { if (array) operands.push(array); array = null; i++; continue; }
+
+    const token = content.slice(i).match(/^[^\s()<>[\]{}/%]+|^\/[^\s()<>[\]{}/%]*/)?.[0] ?? c;
+    i += token.length;
+    if (token.startsWith('/') || /^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+      push(token.startsWith('/') ? token : Number(token));
+      continue;
+    }
+
+    switch (token) {
+      case 'Tf': font = fonts.get(String(operands[0]).slice(1)); break;
+      case 'Tj': show(String(operands[operands.length - 1])); break;
+      case "'": case '"': newline(); show(String(operands[operands.length - 1])); break;
+      case 'TJ':
+        for (const part of (operands[0] as (string | number)[]) ?? []) {
+          if (typeof part === 'string') show(part);
+          else if (part < -200 && !text.endsWith(' ')) text += ' ';
+        }
+        break;
+      case 'Td': case 'TD':
+        if (Number(operands[1]) !== 0) newline();
+        else if (Number(operands[0]) > 0 && !/\s$/.test(text)) text += ' ';
+        break;
+      case 'T*': newline(); break;
+      case 'Tm':
+        if (lastY !== null && Number(operands[5]) !== lastY) newline();
+        lastY = Number(operands[5]);
+        break;
+      case 'ET': if (!/\s$/.test(text)) text += ' '; break;
+      case 'BI': {
+        const end = content.indexOf('EI', i);
+        i = end === -1 ? content.length : end + 2;
+        break;
+      }
+    }
+    operands = [];
+  }
+  return text;
+}
+
+// Page objects in reading order, following the page tree from the catalog
+function pageOrder(objects: Map<number, PdfObject>, text: string): number[] {
+  const rootId = Number(text.match(new RegExp(`/Root\\s+${REF.source}`))?.[1]);
+  const pages: number[] = [];
+  const visit = (id: number | null, depth: number) => {
+    const object = id === null ? undefined : objects.get(id);
+    if (!object || depth > 20 || pages.length >= MAX_PAGES) return;
+    if (/\/Type\s*\/Page(?!s)/.test(object.dict)) {
+      pages.push(id!);
+      return;
+    }
+    const kids = object.dict.match(/\/Kids\s*\[([^\]]*)\]/)?.[1] ?? '';
+    Array.from(kids.matchAll(REFS), match => visit(Number(match[1]), depth + 1));
+  };
+
+  const root = objects.get(rootId);
+  if (root) visit(refEntry(root.dict, 'Pages'), 0);
+  if (pages.length > 0) return pages;
+  return Array.from(objects.entries())
+    .filter(([, object]) => /\/Type\s*\/Page(?!s)/.test(object.dict))
+    .map(([id]) => id)
+    .sort((a, b) => a - b)
+    .slice(0, MAX_PAGES);
+}
+
+/** Extracts the text of a PDF, page by page. Throws PdfTextError when there is none to get. */
+export async function extractPdfText(data: ArrayBuffer): Promise<string> {
+  const bytes = new Uint8Array(data);
+  const text = latin1(bytes.subarray(0, 1024));
+  if (!text.startsWith('%PDF-')) {
+    throw new PdfTextError('This file is not a PDF');
+  }
+
+  const objects = await readObjects(bytes);
+  const raw = latin1(bytes);
+  if (/\/Encrypt\s+\d+\s+\d+\s+R/.test(raw)) {
+    throw new PdfTextError('This PDF is encrypted; copy its text instead');
+  }
+
+  const fontMaps = new Map<number, FontMap | undefined>();
+  const fontMap = async (id: number): Promise<FontMap | undefined> => {
+    if (!fontMaps.has(id)) {
+      const dict = objects.get(id)?.dict ?? '';
+      const toUnicode = refEntry(dict, 'ToUnicode');
+      const cmap = toUnicode === null ? undefined : objects.get(toUnicode);
+      // Two-byte fonts without a map are glyph ids, which would come out as noise
+      const unmapped = /\/Subtype\s*\/Type0/.test(dict) ? { codeBytes: 2, chars: new Map<number, string>() } : undefined;
+      fontMaps.set(id, cmap ? parseCMap(latin1(await decodeStream(cmap).catch(() => new Uint8Array()))) : unmapped);
+    }
+    return fontMaps.get(id);
+  };
+
+  const pageTexts: string[] = [];
+  for (const pageId of pageOrder(objects, raw)) {
+    // Resources may be inherited from a parent node of the page tree
+    let resources = '';
+    for (let id: number | null = pageId, depth = 0; id !== null && depth < 20; depth++) {
+      const dict: string = objects.get(id)?.dict ?? '';
+      const resourcesRef = refEntry(dict, 'Resources');
+      resources = resourcesRef !== null ? objects.get(resourcesRef)?.dict ?? '' : dict.match(/\/Resources\s*<<([\s\S]*)>>/)?.[1] ?? '';
+      if (resources) break;
+      id = refEntry(dict, 'Parent');
+    }
+    const fontsRef = refEntry(resources, 'Font');
+    const fontDict = fontsRef !== null ? objects.get(fontsRef)?.dict ?? '' : resources.match(/\/Font\s*<<([\s\S]*?)>>/)?.[1] ?? '';
+    const fonts = new Map<string, FontMap>();
+    for (const [, name, id] of Array.from(fontDict.matchAll(/\/([^\s/<>[\]()]+)\s+(\d+)\s+\d+\s+R/g))) {
+      const map = await fontMap(Number(id));
+      if (map) fonts.set(name, map);
+    }
+
+    const page = objects.get(pageId)!;
+    const contents = page.dict.match(/\/Contents\s*\[([^\]]*)\]/)?.[1] ?? page.dict.match(new RegExp(`/Contents\\s+${REF.source}`))?.[0] ?? '';
+    let content = '';
+    for (const [, id] of Array.from(contents.matchAll(REFS))) {
+      const stream = objects.get(Number(id));
+      if (stream) content += latin1(await decodeStream(stream).catch(() => new Uint8Array())) + '\n';
+    }
+    pageTexts.push(contentText(content, fonts));
+  }
+
+  const result = pageTexts
+    .join('\n\n')
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  if (!result) {
+    throw new PdfTextError('No text found in this PDF; it may be a scanned image');
+  }
+  return result;
+}
@@ -0,0 +1,188 @@
+import { createHash } from 'crypto';
+import { SchemaViolation } from '../schema';
+import { BUILTIN_PROMPTS } from './builtin';
+import { loadPromptFiles } from './loader';
+import { PromptName, PromptOverride, PromptOverrides, PromptTemplate, PromptVariables, RenderedPrompt } from './types';
+
+export * from './types';
+export { getPromptsDir, reloadPromptFiles } from './loader';
+
+// Registry of the named, versioned prompts sent to the model. Built-in
+// versions live in builtin.ts, more can be dropped into PROMPTS_DIR, and
+// interview templates can pin a version or supply their own text. Whatever a
+// prompt produces records its name@version.
+
+export const PROMPT_VARIABLES: { [name in PromptName]: string[] } = {
+  'question.mcq': ['technology', 'difficulty', 'difficultyLevel', 'questionNumber'],
+  'question.subjective': ['technology', 'difficulty', 'difficultyLevel', 'questionNumber'],
+  'question.coding': ['technology', 'difficulty', 'difficultyLevel', 'questionNumber'],
+  'question.avoid': ['questions'],
+  'question.rejected': ['questions'],
+  'question.topic': ['topic'],
+  'question.version': ['technology', 'version'],
+  'question.internal': ['technology', 'description'],
+  'question.tests': ['language'],
+  'question.starter': ['language', 'languages'],
+  'question.followup': ['technology', 'difficulty', 'difficultyLevel', 'question', 'response', 'coveredTopics', 'missingTopics', 'thread'],
+  'interview.plan': ['jobDescription', 'resume', 'technologies', 'numQuestions'],
+  'grading.rubric': ['question', 'response', 'criteria', 'items', 'criteriaFormat', 'itemsFormat'],
+  'grading.followup': ['parentQuestion', 'parentResponse'],
+  'grading.language': ['language'],
+  'grading.static': ['findings'],
+};
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+export class PromptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptError';
+  }
+}
+
+export function isPromptName(name: string): name is PromptName {
+  return Object.prototype.hasOwnProperty.call(PROMPT_VARIABLES, name);
+}
+
+function unknownVariables(name: PromptName, text: string): string[] {
+  const known = PROMPT_VARIABLES[name];
+  const found = Array.from(text.matchAll(PLACEHOLDER), match => match[1]);
+  return Array.from(new Set(found.filter(variable => !known.includes(variable))));
+}
+
+/** Problems with a prompt's name or placeholders; empty when it's usable. */
+export function checkPromptTemplate(template: PromptTemplate): string[] {
+  if (!isPromptName(template.name)) {
+    return [`unknown prompt "${template.name}"`];
+  }
+
+  const unknown = unknownVariables(template.name, `${template.system ?? ''}\n${template.body}`);
+  return unknown.map(variable => `unknown variable {{${variable}}} (expected one of ${PROMPT_VARIABLES[template.name as PromptName].join(', ')})`);
+}
+
+function compareVersions(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+/** Every usable prompt version, built-in and from PROMPTS_DIR, oldest first. */
+export function listPrompts(): PromptTemplate[] {
+  const registry = new Map<string, PromptTemplate>();
+
+  for (const template of BUILTIN_PROMPTS) {
+    registry.set(`${template.name}@${template.version}`, template);
+  }
+
+  // Files can add versions or replace a built-in one
+  for (const template of loadPromptFiles(checkPromptTemplate)) {
+    registry.set(`${template.name}@${template.version}`, template);
+  }
+
+  return Array.from(registry.values()).sort((a, b) =>
+    a.name === b.name ? compareVersions(a.version, b.version) : a.name.localeCompare(b.name)
+  );
+}
+
+export function getPrompt(name: PromptName, version: string): PromptTemplate | null {
+  return listPrompts().find(template => template.name === name && template.version === version) ?? null;
+}
+
+/**
+ * Versions pinned with PROMPT_VERSIONS, e.g. "question.coding=2,grading.rubric=1".
+ * Prompts that aren't pinned use their latest version.
+ */
+function getPinnedVersions(): { [name: string]: string } {
+  const pinned: { [name: string]: string } = {};
+  for (const entry of (process.env.PROMPT_VERSIONS ?? '').split(',')) {
+    const [name, version] = entry.split('=').map(part => part.trim());
+    if (name && version) {
+      pinned[name] = version;
+    }
+  }
+  return pinned;
+}
+
+// Inline text is versioned by its content, so cached results and reports
+// never mix it up with a registered version
+function customVersion(system: string | undefined, body: string): string {
+  return `custom-${createHash('sha256').update(`${system ?? ''}\n${body}`).digest('hex').slice(0, 8)}`;
+}
+
+function resolveTemplate(name: PromptName, override?: PromptOverride): PromptTemplate {
+  if (override?.body) {
+    // A template may name its text, but not after a registered version
+    if (override.version && getPrompt(name, override.version)) {
+      throw new PromptError(`Prompt ${name}@${override.version} is registered; name the custom text something else`);
+    }
+    const version = override.version ?? customVersion(override.system, override.body);
+    return { name, version, system: override.system, body: override.body };
+  }
+
+  const versions = listPrompts().filter(template => template.name === name);
+  const pinned = override?.version ?? getPinnedVersions()[name];
+  const template = pinned ? versions.find(candidate => candidate.version === pinned) : versions[versions.length - 1];
+  if (!template) {
+    throw new PromptError(pinned ? `Prompt ${name}@${pinned} is not registered` : `No prompt registered for ${name}`);
+  }
+
+  if (override?.system) {
+    return { ...template, version: customVersion(override.system, template.body), system: override.system };
+  }
+  return template;
+}
+
+function fill(text: string, variables: { [key: string]: unknown }): string {
+  // One pass, so placeholders inside variable values are left alone
+  return text.replace(PLACEHOLDER, (placeholder, variable: string) =>
+    variables[variable] === undefined ? placeholder : String(variables[variable])
+  );
+}
+
+/**
+ * Renders the active version of a prompt, or the one an interview template's
+ * overrides select. Throws PromptError when a pinned version doesn't exist.
+ */
+export function renderPrompt<N extends PromptName>(
+  name: N,
+  variables: PromptVariables[N],
+  overrides?: PromptOverrides
+): RenderedPrompt {
+  const template = resolveTemplate(name, overrides?.[name]);
+  const values = variables as unknown as { [key: string]: unknown };
+
+  return {
+    system: template.system ? fill(template.system, values) : undefined,
+    prompt: fill(template.body, values),
+    version: `${name}@${template.version}`,
+  };
+}
+
+/** Checks an interview template's prompt overrides before they are saved. */
+export function validatePromptOverrides(overrides: PromptOverrides, basePath: string): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+
+  for (const [name, override] of Object.entries(overrides)) {
+    const path = `${basePath}.${name}`;
+    if (!isPromptName(name)) {
+      violations.push({ path, message: `is not a known prompt (expected one of ${Object.keys(PROMPT_VARIABLES).join(', ')})` });
+      continue;
+    }
+
+    if (!override.version && !override.body && !override.system) {
+      violations.push({ path, message: 'needs a version, a body or a system prompt' });
+      continue;
+    }
+
+    // Without a body, version pins a registered prompt rather than naming the text
+    if (!override.body && override.version && !getPrompt(name, override.version)) {
+      violations.push({ path: `${path}.version`, message: `"${override.version}" is not a registered version` });
+    }
+    if (override.body && override.version && getPrompt(name, override.version)) {
+      violations.push({ path: `${path}.version`, message: `"${override.version}" is a registered version; name the custom text something else` });
+    }
+
+    checkPromptTemplate({ name, version: override.version ?? 'custom', system: override.system, body: override.body ?? '' })
+      .forEach(message => violations.push({ path, message }));
+  }
+
+  return violations;
+}
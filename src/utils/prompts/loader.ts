@@ -0,0 +1,103 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { PromptTemplate } from './types';
+
+// Prompt versions kept as files in PROMPTS_DIR (default ./prompts), one
+// Markdown file per version with YAML frontmatter:
+//
+//   ---
+//   name: question.coding
+//   version: "2"
+//   description: Asks for a smaller function
+//   system: You are a technical interviewer...
+//   ---
+//   You are a technical interviewer specializing in {{technology}}...
+//
+// The directory is read once per process; a file that fails to parse or
+// check is logged and skipped rather than taking question generation down
+// with it.
+
+const FRONTMATTER = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/;
+
+const globalForPrompts = globalThis as unknown as {
+  promptFiles?: PromptTemplate[];
+};
+
+export function getPromptsDir(): string {
+  return path.resolve(process.env.PROMPTS_DIR || path.join(process.cwd(), 'prompts'));
+}
+
+export function parsePromptFile(text: string): PromptTemplate {
+  const match = FRONTMATTER.exec(text);
+  if (!match) {
+    throw new Error('Missing YAML frontmatter');
+  }
+
+  const meta = YAML.parse(match[1]) ?? {};
+  for (const field of ['name', 'version']) {
+    if (typeof meta[field] !== 'string' && typeof meta[field] !== 'number') {
+      throw new Error(`Frontmatter needs a "${field}"`);
+    }
+  }
+
+  const body = match[2].trim();
+  if (!body) {
+    throw new Error('Prompt body is empty');
+  }
+
+  return {
+    name: String(meta.name),
+    version: String(meta.version),
+    description: typeof meta.description === 'string' ? meta.description : undefined,
+    system: typeof meta.system === 'string' ? meta.system.trim() : undefined,
+    body,
+  };
+}
+
+/** Reads PROMPTS_DIR, keeping the templates for which `check` finds no problems. */
+export function loadPromptFiles(check: (template: PromptTemplate) => string[]): PromptTemplate[] {
+  if (globalForPrompts.promptFiles) {
+    return globalForPrompts.promptFiles;
+  }
+
+  const dir = getPromptsDir();
+  let names: string[] = [];
+  try {
+    names = fs.readdirSync(dir).filter(name => name.endsWith('.md')).sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('Failed to read prompts directory:', dir, error);
+    }
+  }
+
+  const templates: PromptTemplate[] = [];
+  for (const name of names) {
+    let problems: string[];
+    try {
+      const template = parsePromptFile(fs.readFileSync(path.join(dir, name), 'utf8'));
+      problems = check(template);
+      if (problems.length === 0) {
+        templates.push(template);
+      }
+    } catch (error) {
+      problems = [error instanceof Error ? error.message : String(error)];
+    }
+
+    if (problems.length > 0) {
+      console.error('Skipping prompt file:', { file: path.join(dir, name), problems });
+    }
+  }
+
+  if (templates.length > 0) {
+    console.log('Loaded prompt files:', templates.map(template => `${template.name}@${template.version}`));
+  }
+
+  globalForPrompts.promptFiles = templates;
+  return templates;
+}
+
+/** Forgets the loaded files so the next lookup reads PROMPTS_DIR again. */
+export function reloadPromptFiles(): void {
+  globalForPrompts.promptFiles = undefined;
+}
@@ -0,0 +1,137 @@
+export interface QuestionPromptVariables {
+  technology: string;
+  difficulty: string;
+  // 1 (easy) to 3 (hard), as the model should report it
+  difficultyLevel: number;
+  questionNumber: number;
+}
+
+export interface QuestionTopicVariables {
+  topic: string;
+}
+
+export interface TechnologyVersionVariables {
+  technology: string;
+  version: string;
+}
+
+export interface InternalTechnologyVariables {
+  technology: string;
+  // From the technology catalog entry
+  description: string;
+}
+
+export interface CodingTestsVariables {
+  // The language the answer is run in, e.g. "python"
+  language: string;
+}
+
+export interface CodingStarterVariables {
+  // The question's editor language, e.g. "javascript"
+  language: string;
+  // Every language the answer may be written in, comma separated
+  languages: string;
+}
+
+export interface QuestionListVariables {
+  // One question per line, already formatted as a list
+  questions: string;
+}
+
+export interface FollowUpPromptVariables {
+  technology: string;
+  difficulty: string;
+  difficultyLevel: number;
+  question: string;
+  // The candidate's answer, already fenced (see fenceUntrusted)
+  response: string;
+  coveredTopics: string;
+  missingTopics: string;
+  // Follow-ups already asked about this question, with their answers
+  thread: string;
+}
+
+export interface InterviewPlanVariables {
+  // Both already fenced (see fenceUntrusted)
+  jobDescription: string;
+  resume: string;
+  // Catalog names, comma separated
+  technologies: string;
+  numQuestions: number;
+}
+
+export interface GradingPromptVariables {
+  question: string;
+  // The candidate's answer, already fenced (see fenceUntrusted)
+  response: string;
+  criteria: string;
+  items: string;
+  // Example JSON lines for the criteria and items objects
+  criteriaFormat: string;
+  itemsFormat: string;
+}
+
+export interface FollowUpGradingVariables {
+  parentQuestion: string;
+  // Already fenced, like the response being graded
+  parentResponse: string;
+}
+
+export interface AnswerLanguageVariables {
+  // The editor language the candidate answered in, e.g. "python"
+  language: string;
+}
+
+export interface StaticAnalysisVariables {
+  // One finding per line, already formatted (see describeStaticAnalysis)
+  findings: string;
+}
+
+// The variables each named prompt is rendered with
+export interface PromptVariables {
+  'question.mcq': QuestionPromptVariables;
+  'question.subjective': QuestionPromptVariables;
+  'question.coding': QuestionPromptVariables;
+  'question.avoid': QuestionListVariables;
+  'question.rejected': QuestionListVariables;
+  'question.topic': QuestionTopicVariables;
+  'question.version': TechnologyVersionVariables;
+  'question.internal': InternalTechnologyVariables;
+  'question.tests': CodingTestsVariables;
+  'question.starter': CodingStarterVariables;
+  'question.followup': FollowUpPromptVariables;
+  'interview.plan': InterviewPlanVariables;
+  'grading.rubric': GradingPromptVariables;
+  'grading.followup': FollowUpGradingVariables;
+  'grading.language': AnswerLanguageVariables;
+  'grading.static': StaticAnalysisVariables;
+}
+
+export type PromptName = keyof PromptVariables;
+
+export interface PromptTemplate {
+  name: string;
+  version: string;
+  description?: string;
+  // System message sent with the prompt; fragments appended to another
+  // prompt have none
+  system?: string;
+  // Text with {{variable}} placeholders
+  body: string;
+}
+
+// Per interview template: pin a registered version, or supply the text inline
+export interface PromptOverride {
+  version?: string;
+  system?: string;
+  body?: string;
+}
+
+export type PromptOverrides = { [name: string]: PromptOverride };
+
+export interface RenderedPrompt {
+  system?: string;
+  prompt: string;
+  // name@version, recorded on whatever the prompt produced
+  version: string;
+}
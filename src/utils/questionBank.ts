@@ -0,0 +1,296 @@
+import { randomUUID } from 'crypto';
+import { readDocument, updateDocument } from './fileStore';
+import { normalizeQuestionType, Question, QuestionType, validateQuestionResponse } from './interviewSchemas';
+import { assertValid, Schema, SchemaValidationError, SchemaViolation } from './schema';
+
+// A curated, file-backed bank of interview questions. Entries keep the
+// generated Question shape untouched under `question` and add the tags used
+// to pick them for an interview.
+
+const BANK_DOCUMENT = 'question-bank';
+
+export const BANK_DIFFICULTIES = ['easy', 'medium', 'hard'];
+const QUESTION_TYPES = ['mcq', 'coding', 'subjective'];
+const STATUSES = ['approved', 'pending', 'rejected'];
+const SOURCES = ['curated', 'generated'];
+
+export type BankDifficulty = 'easy' | 'medium' | 'hard';
+// Generated questions wait as 'pending' until someone reviews them
+export type BankQuestionStatus = 'approved' | 'pending' | 'rejected';
+export type BankQuestionSource = 'curated' | 'generated';
+// off: always generate; prefer: draw from the bank, generate when it runs out
+export type BankMode = 'off' | 'prefer';
+
+export interface BankQuestion {
+  id: string;
+  technology: string;
+  difficulty: BankDifficulty;
+  questionType: QuestionType;
+  topics: string[];
+  status: BankQuestionStatus;
+  source: BankQuestionSource;
+  createdAt: string;
+  updatedAt: string;
+  question: Question;
+}
+
+export interface BankFilter {
+  technology?: string;
+  difficulty?: string;
+  questionType?: string;
+  topic?: string;
+  status?: string;
+}
+
+export interface BankEntryError {
+  index: number;
+  violations: SchemaViolation[];
+}
+
+interface BankDocument {
+  questions: BankQuestion[];
+}
+
+const EMPTY_BANK: BankDocument = { questions: [] };
+
+const nonEmptyString: Schema = { type: 'string', minLength: 1 };
+
+// The tags around a question; the question itself is validated per type
+const entrySchema: Schema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', minLength: 1, optional: true },
+    technology: nonEmptyString,
+    difficulty: { type: 'string', enum: BANK_DIFFICULTIES },
+    questionType: { type: 'string', enum: QUESTION_TYPES },
+    topics: { type: 'array', items: nonEmptyString, optional: true },
+    status: { type: 'string', enum: STATUSES, optional: true },
+    source: { type: 'string', enum: SOURCES, optional: true },
+    createdAt: { type: 'string', optional: true },
+    question: { type: 'object', properties: {} },
+  },
+};
+
+// An entry as entrySchema accepts it, tags lower-cased
+interface BankEntryInput {
+  id?: string;
+  technology: string;
+  difficulty: BankDifficulty;
+  questionType: string;
+  topics?: string[];
+  status?: BankQuestionStatus;
+  source?: BankQuestionSource;
+  createdAt?: string;
+  question: { [key: string]: unknown };
+}
+
+export function getBankMode(): BankMode {
+  return process.env.QUESTION_BANK_MODE?.toLowerCase() === 'prefer' ? 'prefer' : 'off';
+}
+
+export function shouldSaveGeneratedQuestions(): boolean {
+  return process.env.QUESTION_BANK_SAVE_GENERATED === 'true';
+}
+
+function lowerCase(value: unknown): unknown {
+  return typeof value === 'string' ? value.trim().toLowerCase() : value;
+}
+
+/**
+ * Validates an imported or submitted entry and fills in defaults. Tags are
+ * case-insensitive; the question's numeric difficulty defaults from the tag.
+ */
+export function normalizeBankEntry(
+  input: unknown,
+  defaults: { status?: BankQuestionStatus; source?: BankQuestionSource } = {}
+): BankQuestion {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new SchemaValidationError([{ path: '$', message: 'must be an object' }]);
+  }
+
+  const raw = input as { [key: string]: unknown };
+  const entry = assertValid<BankEntryInput>(entrySchema, {
+    ...raw,
+    difficulty: lowerCase(raw.difficulty),
+    questionType: lowerCase(raw.questionType),
+    status: lowerCase(raw.status),
+    source: lowerCase(raw.source),
+  });
+
+  const difficulty = entry.difficulty;
+  const questionType = normalizeQuestionType(entry.questionType);
+  let question: Question;
+  try {
+    question = validateQuestionResponse(
+      { difficulty: BANK_DIFFICULTIES.indexOf(difficulty) + 1, ...entry.question },
+      questionType
+    );
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      // Report paths relative to the entry
+      throw new SchemaValidationError(error.violations.map(v => ({ ...v, path: v.path.replace(/^\$/, '$.question') })));
+    }
+    throw error;
+  }
+
+  if (questionType === 'coding') {
+    question.modelAnswer.isCode = true;
+  }
+
+  const now = new Date().toISOString();
+  return {
+    id: entry.id || randomUUID(),
+    technology: entry.technology.trim(),
+    difficulty,
+    questionType,
+    topics: entry.topics ?? question.expectedTopics,
+    status: entry.status ?? defaults.status ?? 'approved',
+    source: entry.source ?? defaults.source ?? 'curated',
+    createdAt: entry.createdAt ?? now,
+    updatedAt: now,
+    question,
+  };
+}
+
+function matches(entry: BankQuestion, filter: BankFilter): boolean {
+  const same = (a: string, b?: string) => !b || a.toLowerCase() === b.trim().toLowerCase();
+  return (
+    same(entry.technology, filter.technology) &&
+    same(entry.difficulty, filter.difficulty) &&
+    same(entry.questionType, filter.questionType) &&
+    same(entry.status, filter.status) &&
+    (!filter.topic || entry.topics.some(topic => same(topic, filter.topic)))
+  );
+}
+
+export async function listBankQuestions(filter: BankFilter = {}): Promise<BankQuestion[]> {
+  const bank = await readDocument(BANK_DOCUMENT, EMPTY_BANK);
+  return bank.questions.filter(entry => matches(entry, filter));
+}
+
+export async function getBankQuestion(id: string): Promise<BankQuestion | null> {
+  const bank = await readDocument(BANK_DOCUMENT, EMPTY_BANK);
+  return bank.questions.find(entry => entry.id === id) ?? null;
+}
+
+/**
+ * Adds entries to the bank. Entries with an existing id replace it (so an
+ * export can be edited and imported again); new entries whose question text
+ * is already in the bank for the same technology are skipped.
+ */
+export async function saveBankQuestions(
+  inputs: unknown[],
+  defaults: { status?: BankQuestionStatus; source?: BankQuestionSource } = {}
+): Promise<{ saved: BankQuestion[]; skipped: number; errors: BankEntryError[] }> {
+  const errors: BankEntryError[] = [];
+  const entries: BankQuestion[] = [];
+
+  inputs.forEach((input, index) => {
+    try {
+      entries.push(normalizeBankEntry(input, defaults));
+    } catch (error) {
+      if (!(error instanceof SchemaValidationError)) {
+        throw error;
+      }
+      errors.push({ index, violations: error.violations });
+    }
+  });
+
+  if (entries.length === 0) {
+    return { saved: [], skipped: 0, errors };
+  }
+
+  return updateDocument(BANK_DOCUMENT, EMPTY_BANK, bank => {
+    const questions = [...bank.questions];
+    const saved: BankQuestion[] = [];
+    let skipped = 0;
+
+    for (const entry of entries) {
+      const existing = questions.findIndex(q => q.id === entry.id);
+      if (existing >= 0) {
+        questions[existing] = { ...entry, createdAt: questions[existing].createdAt };
+        saved.push(questions[existing]);
+        continue;
+      }
+
+      const text = entry.question.question.trim().toLowerCase();
+      const duplicate = questions.some(q =>
+        q.technology.toLowerCase() === entry.technology.toLowerCase() &&
+        q.question.question.trim().toLowerCase() === text
+      );
+      if (duplicate) {
+        skipped += 1;
+        continue;
+      }
+
+      questions.push(entry);
+      saved.push(entry);
+    }
+
+    return { value: { questions }, result: { saved, skipped, errors } };
+  });
+}
+
+/**
+ * Applies a partial update (e.g. approving a generated question) and
+ * validates the result. Returns null when the id is unknown.
+ */
+export async function updateBankQuestion(id: string, patch: { [key: string]: unknown }): Promise<BankQuestion | null> {
+  const existing = await getBankQuestion(id);
+  if (!existing) {
+    return null;
+  }
+
+  const updated = normalizeBankEntry({ ...existing, ...patch, id });
+  return updateDocument(BANK_DOCUMENT, EMPTY_BANK, bank => {
+    const index = bank.questions.findIndex(q => q.id === id);
+    if (index < 0) {
+      return { value: bank, result: null };
+    }
+
+    const questions = [...bank.questions];
+    questions[index] = { ...updated, createdAt: bank.questions[index].createdAt };
+    return { value: { questions }, result: questions[index] };
+  });
+}
+
+export async function deleteBankQuestion(id: string): Promise<boolean> {
+  return updateDocument(BANK_DOCUMENT, EMPTY_BANK, bank => {
+    const questions = bank.questions.filter(q => q.id !== id);
+    return { value: { questions }, result: questions.length !== bank.questions.length };
+  });
+}
+
+/**
+ * Picks a random approved question for the slot, skipping questions whose
+ * text is in `exclude`. Returns null when the bank has nothing left.
+ */
+export async function drawBankQuestion(
+  slot: { technology: string; difficulty: string; questionType: string; topic?: string },
+  exclude: string[] = []
+): Promise<Question | null> {
+  const excluded = new Set(exclude.map(text => text.trim().toLowerCase()));
+  const candidates = (await listBankQuestions({
+    technology: slot.technology,
+    difficulty: slot.difficulty,
+    questionType: normalizeQuestionType(slot.questionType),
+    topic: slot.topic,
+    status: 'approved',
+  })).filter(entry => !excluded.has(entry.question.question.trim().toLowerCase()));
+
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  return { ...candidates[Math.floor(Math.random() * candidates.length)].question };
+}
+
+export function parseBankFilter(searchParams: URLSearchParams): BankFilter {
+  return {
+    technology: searchParams.get('technology') ?? undefined,
+    difficulty: searchParams.get('difficulty') ?? undefined,
+    questionType: searchParams.get('type') ?? undefined,
+    topic: searchParams.get('topic') ?? undefined,
+    status: searchParams.get('status') ?? undefined,
+  };
+}
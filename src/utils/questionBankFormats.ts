@@ -0,0 +1,238 @@
+import YAML from 'yaml';
+import { BankQuestion } from './questionBank';
+
+// Import/export formats for the question bank. JSON and YAML hold
+// `{ questions: [...] }` with the stored entry shape; Markdown is meant for
+// reviewing and editing by hand:
+//
+//   ## Question 1
+//
+//   - id: 7f3c...
+//   - technology: React
+//   - difficulty: medium
+//   - type: coding
+//   - topics: hooks, state
+//   - status: approved
+//
+//   ### Question
+//   ...
+//   ### Expected topics
+//   - ...
+//   ### Model answer      (a fenced block for code)
+//   ### Options           (MCQ only: "- A: ...")
+//   ### Correct option    (MCQ only)
+//   ### Explanation       (MCQ only)
+
+export type BankFormat = 'json' | 'yaml' | 'markdown';
+
+export const BANK_FORMAT_CONTENT_TYPES: { [key in BankFormat]: string } = {
+  json: 'application/json',
+  yaml: 'application/yaml',
+  markdown: 'text/markdown',
+};
+
+export const BANK_FORMAT_EXTENSIONS: { [key in BankFormat]: string } = {
+  json: 'json',
+  yaml: 'yaml',
+  markdown: 'md',
+};
+
+export class BankFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BankFormatError';
+  }
+}
+
+/**
+ * Resolves a format from an explicit name (json, yaml/yml, markdown/md) or,
+ * failing that, a Content-Type header. Returns null when neither matches.
+ */
+export function parseBankFormat(name?: string | null, contentType?: string | null): BankFormat | null {
+  const value = (name || contentType || '').toLowerCase();
+  if (value.includes('json')) return 'json';
+  if (value.includes('yaml') || value.includes('yml')) return 'yaml';
+  if (value.includes('markdown') || value === 'md') return 'markdown';
+  return null;
+}
+
+function fence(content: string, language = ''): string {
+  // Use a fence longer than any run of backticks inside the code
+  const longestRun = Math.max(2, ...(content.match(/`+/g) ?? []).map(run => run.length));
+  const marker = '`'.repeat(longestRun + 1);
+  return `${marker}${language}\n${content}\n${marker}`;
+}
+
+function toMarkdown(entries: BankQuestion[]): string {
+  const sections = entries.map((entry, index) => {
+    const { question } = entry;
+    const lines = [
+      `## Question ${index + 1}`,
+      '',
+      `- id: ${entry.id}`,
+      `- technology: ${entry.technology}`,
+      `- difficulty: ${entry.difficulty}`,
+      `- type: ${entry.questionType}`,
+      `- topics: ${entry.topics.join(', ')}`,
+      `- status: ${entry.status}`,
+      `- source: ${entry.source}`,
+      '',
+      '### Question',
+      '',
+      question.question,
+      '',
+      '### Expected topics',
+      '',
+      ...question.expectedTopics.map(topic => `- ${topic}`),
+    ];
+
+    if (entry.questionType === 'mcq') {
+      lines.push(
+        '',
+        '### Options',
+        '',
+        ...Object.entries(question.modelAnswer.options ?? {}).map(([letter, text]) => `- ${letter}: ${text}`),
+        '',
+        '### Correct option',
+        '',
+        question.modelAnswer.correctOption ?? '',
+        '',
+        '### Explanation',
+        '',
+        question.modelAnswer.explanation ?? ''
+      );
+    } else {
+      lines.push(
+        '',
+        '### Model answer',
+        '',
+        question.modelAnswer.isCode
+          ? fence(question.modelAnswer.content, question.modelAnswer.language)
+          : question.modelAnswer.content
+      );
+    }
+
+    return lines.join('\n');
+  });
+
+  return `# Question bank\n\n${sections.join('\n\n')}\n`;
+}
+
+// Splits Markdown into sections at headings of the given level, ignoring
+// headings inside fenced code blocks
+function splitSections(lines: string[], level: number): { heading: string; lines: string[] }[] {
+  const prefix = `${'#'.repeat(level)} `;
+  const sections: { heading: string; lines: string[] }[] = [];
+  let openFence: string | null = null;
+
+  for (const line of lines) {
+    const fenceMatch = line.match(/^(`{3,})/);
+    if (fenceMatch) {
+      if (!openFence) {
+        openFence = fenceMatch[1];
+      } else if (line.trim() === openFence) {
+        openFence = null;
+      }
+    }
+
+    if (!openFence && line.startsWith(prefix)) {
+      sections.push({ heading: line.slice(prefix.length).trim(), lines: [] });
+    } else if (sections.length > 0) {
+      sections[sections.length - 1].lines.push(line);
+    }
+  }
+
+  return sections;
+}
+
+function listItems(lines: string[]): string[] {
+  return lines
+    .map(line => line.match(/^\s*[-*]\s+(.*)$/)?.[1]?.trim())
+    .filter((item): item is string => !!item);
+}
+
+function fromMarkdown(text: string): unknown[] {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+
+  return splitSections(lines, 2).map(section => {
+    const firstSubsection = section.lines.findIndex(line => line.startsWith('### '));
+    const metadataLines = firstSubsection >= 0 ? section.lines.slice(0, firstSubsection) : section.lines;
+    const metadata: { [key: string]: string } = {};
+    for (const item of listItems(metadataLines)) {
+      const [key, ...rest] = item.split(':');
+      metadata[key.trim().toLowerCase()] = rest.join(':').trim();
+    }
+
+    const body: { [key: string]: string } = {};
+    for (const subsection of splitSections(section.lines, 3)) {
+      body[subsection.heading.toLowerCase()] = subsection.lines.join('\n').trim();
+    }
+
+    const questionType = metadata.type?.toLowerCase();
+    const code = body['model answer']?.match(/^(`{3,})([\w+#-]*)\n([\s\S]*?)\n\1$/);
+    let modelAnswer: { [key: string]: unknown };
+    if (questionType === 'mcq') {
+      const options: { [key: string]: string } = {};
+      for (const item of listItems((body.options ?? '').split('\n'))) {
+        const match = item.match(/^([A-Z])[:.)]\s*(.*)$/);
+        if (match) {
+          options[match[1]] = match[2];
+        }
+      }
+      modelAnswer = { options, correctOption: body['correct option'], explanation: body.explanation };
+    } else if (code) {
+      modelAnswer = { isCode: true, language: code[2] || undefined, content: code[3] };
+    } else {
+      modelAnswer = { isCode: questionType === 'coding', content: body['model answer'] };
+    }
+
+    return {
+      id: metadata.id || undefined,
+      technology: metadata.technology,
+      difficulty: metadata.difficulty,
+      questionType,
+      topics: metadata.topics ? metadata.topics.split(',').map(topic => topic.trim()).filter(Boolean) : undefined,
+      status: metadata.status || undefined,
+      source: metadata.source || undefined,
+      question: {
+        question: body.question,
+        expectedTopics: listItems((body['expected topics'] ?? '').split('\n')),
+        modelAnswer,
+      },
+    };
+  });
+}
+
+export function serializeBankQuestions(entries: BankQuestion[], format: BankFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify({ questions: entries }, null, 2);
+    case 'yaml':
+      return YAML.stringify({ questions: entries });
+    case 'markdown':
+      return toMarkdown(entries);
+  }
+}
+
+/**
+ * Parses an exported file back into raw entries. The entries still need
+ * validating (saveBankQuestions does that).
+ */
+export function parseBankQuestions(text: string, format: BankFormat): unknown[] {
+  if (format === 'markdown') {
+    return fromMarkdown(text);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = format === 'json' ? JSON.parse(text) : YAML.parse(text);
+  } catch (error) {
+    throw new BankFormatError(`Could not parse ${format.toUpperCase()}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const questions = Array.isArray(parsed) ? parsed : (parsed as { questions?: unknown } | null)?.questions;
+  if (!Array.isArray(questions)) {
+    throw new BankFormatError('Expected a list of questions or an object with a "questions" list');
+  }
+  return questions;
+}
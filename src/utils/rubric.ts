@@ -0,0 +1,175 @@
+import { Analysis, RubricVerdict } from './interviewSchemas';
+import { Schema } from './schema';
+
+// Rubric-based grading. The model scores each criterion and gives a verdict
+// per rubric item; the overall score is computed here from the weights so it
+// always agrees with the breakdown.
+
+export interface RubricCriterion {
+  id: string;
+  name: string;
+  description: string;
+  weight: number;
+}
+
+export interface RubricItem {
+  topic: string;
+  points: number;
+}
+
+export interface Rubric {
+  criteria: RubricCriterion[];
+  // Points for each of the question's expected topics
+  topicPoints: number;
+  // Checked on every answer in addition to the expected topics
+  items?: RubricItem[];
+  // Weight of the rubric items as a whole, relative to the criteria weights
+  itemsWeight: number;
+}
+
+// The model's answer, keyed by criterion id and by rubric item number
+export interface RubricGrading {
+  criteria: { [id: string]: { score: number; feedback?: string } };
+  items: { [number: string]: { verdict: RubricVerdict; comment?: string } };
+  feedback: string;
+  improvement?: string;
+}
+
+export const VERDICTS: RubricVerdict[] = ['pass', 'partial', 'fail'];
+
+const VERDICT_SHARE: { [key in RubricVerdict]: number } = {
+  pass: 1,
+  partial: 0.5,
+  fail: 0,
+};
+
+export const DEFAULT_RUBRIC: Rubric = {
+  criteria: [
+    { id: 'accuracy', name: 'Accuracy', description: 'Is the answer technically correct?', weight: 3 },
+    { id: 'completeness', name: 'Completeness', description: 'Does it cover what the question asks for?', weight: 2 },
+    { id: 'depth', name: 'Technical depth', description: 'Does it show understanding beyond the basics?', weight: 2 },
+    { id: 'clarity', name: 'Clarity', description: 'Is it clearly structured and explained?', weight: 1 },
+  ],
+  topicPoints: 1,
+  itemsWeight: 2,
+};
+
+const nonEmptyString: Schema = { type: 'string', minLength: 1 };
+
+// For rubrics supplied by interview templates
+export const rubricSchema: Schema = {
+  type: 'object',
+  properties: {
+    criteria: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          id: nonEmptyString,
+          name: nonEmptyString,
+          description: nonEmptyString,
+          weight: { type: 'number', min: 0 },
+        },
+      },
+    },
+    topicPoints: { type: 'number', min: 0 },
+    items: {
+      type: 'array',
+      optional: true,
+      items: {
+        type: 'object',
+        properties: {
+          topic: nonEmptyString,
+          points: { type: 'number', min: 0 },
+        },
+      },
+    },
+    itemsWeight: { type: 'number', min: 0 },
+  },
+};
+
+/** The items an answer is graded against: expected topics first, then the rubric's own. */
+export function buildRubricItems(rubric: Rubric, expectedTopics: string[]): RubricItem[] {
+  return [
+    ...expectedTopics.map(topic => ({ topic, points: rubric.topicPoints })),
+    ...(rubric.items ?? []),
+  ];
+}
+
+export function gradingSchema(rubric: Rubric, items: RubricItem[]): Schema {
+  return {
+    type: 'object',
+    properties: {
+      criteria: {
+        type: 'object',
+        properties: Object.fromEntries(rubric.criteria.map(criterion => [criterion.id, {
+          type: 'object',
+          properties: {
+            score: { type: 'number', min: 0, max: 10 },
+            feedback: { type: 'string', optional: true },
+          },
+        } as Schema])),
+      },
+      items: {
+        type: 'object',
+        properties: Object.fromEntries(items.map((item, index) => [String(index + 1), {
+          type: 'object',
+          properties: {
+            verdict: { type: 'string', enum: VERDICTS },
+            comment: { type: 'string', optional: true },
+          },
+        } as Schema])),
+      },
+      feedback: nonEmptyString,
+      improvement: { type: 'string', optional: true },
+    },
+  };
+}
+
+/**
+ * Turns a validated grading into an Analysis. The score is the weighted mean
+ * of the criterion scores and the rubric items' share of points, out of 10.
+ */
+export function scoreRubricGrading(rubric: Rubric, items: RubricItem[], grading: RubricGrading): Analysis {
+  const criteria = rubric.criteria.map(criterion => ({
+    id: criterion.id,
+    name: criterion.name,
+    weight: criterion.weight,
+    score: grading.criteria[criterion.id].score,
+    feedback: grading.criteria[criterion.id].feedback,
+  }));
+
+  const rubricItems = items.map((item, index) => {
+    const { verdict, comment } = grading.items[String(index + 1)];
+    return {
+      topic: item.topic,
+      points: item.points * VERDICT_SHARE[verdict],
+      maxPoints: item.points,
+      verdict,
+      comment,
+    };
+  });
+
+  let weightedTotal = criteria.reduce((sum, criterion) => sum + criterion.weight * criterion.score, 0);
+  let totalWeight = criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+
+  const maxPoints = rubricItems.reduce((sum, item) => sum + item.maxPoints, 0);
+  if (maxPoints > 0) {
+    const itemsScore = (rubricItems.reduce((sum, item) => sum + item.points, 0) / maxPoints) * 10;
+    weightedTotal += rubric.itemsWeight * itemsScore;
+    totalWeight += rubric.itemsWeight;
+  }
+
+  const score = totalWeight > 0 ? weightedTotal / totalWeight : 0;
+
+  return {
+    score: Math.round(score * 10) / 10,
+    feedback: grading.feedback,
+    coveredTopics: rubricItems.filter(item => item.verdict === 'pass').map(item => item.topic),
+    missingTopics: rubricItems.filter(item => item.verdict !== 'pass').map(item => item.topic),
+    improvement: grading.improvement,
+    criteria,
+    rubricItems,
+  };
+}
@@ -0,0 +1,176 @@
+// Minimal declarative schemas for validating LLM payloads at runtime.
+// Each validation returns every violation with a JSON path so the list can be
+// shown to the model verbatim when asking it to repair its output.
+
+export type Schema =
+  | { type: 'string'; minLength?: number; enum?: string[]; optional?: boolean }
+  | { type: 'number'; min?: number; max?: number; integer?: boolean; optional?: boolean }
+  | { type: 'boolean'; const?: boolean; optional?: boolean }
+  | { type: 'array'; items: Schema; minItems?: number; maxItems?: number; optional?: boolean }
+  | { type: 'object'; properties: { [key: string]: Schema }; optional?: boolean }
+  | { type: 'record'; values: Schema; optional?: boolean }
+  // Any JSON value, e.g. test case arguments
+  | { type: 'any'; optional?: boolean };
+
+export interface SchemaViolation {
+  path: string;
+  message: string;
+}
+
+export class SchemaValidationError extends Error {
+  violations: SchemaViolation[];
+
+  constructor(violations: SchemaViolation[]) {
+    super(`Invalid response: ${formatViolations(violations)}`);
+    this.name = 'SchemaValidationError';
+    this.violations = violations;
+  }
+}
+
+export function formatViolations(violations: SchemaViolation[]): string {
+  return violations.map(v => `${v.path}: ${v.message}`).join('; ');
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+export function validate(schema: Schema, value: unknown, path = '$'): SchemaViolation[] {
+  if (value === undefined) {
+    return schema.optional ? [] : [{ path, message: 'is required' }];
+  }
+
+  switch (schema.type) {
+    case 'string': {
+      if (typeof value !== 'string') {
+        return [{ path, message: `must be a string (got ${typeOf(value)})` }];
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [{ path, message: `must be one of ${schema.enum.join(', ')} (got "${value}")` }];
+      }
+      if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+        return [{ path, message: schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters` }];
+      }
+      return [];
+    }
+
+    case 'number': {
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        return [{ path, message: `must be a number (got ${typeOf(value)})` }];
+      }
+      if (schema.integer && !Number.isInteger(value)) {
+        return [{ path, message: 'must be an integer' }];
+      }
+      if (schema.min !== undefined && value < schema.min) {
+        return [{ path, message: `must be at least ${schema.min} (got ${value})` }];
+      }
+      if (schema.max !== undefined && value > schema.max) {
+        return [{ path, message: `must be at most ${schema.max} (got ${value})` }];
+      }
+      return [];
+    }
+
+    case 'boolean': {
+      if (typeof value !== 'boolean') {
+        return [{ path, message: `must be a boolean (got ${typeOf(value)})` }];
+      }
+      if (schema.const !== undefined && value !== schema.const) {
+        return [{ path, message: `must be ${schema.const}` }];
+      }
+      return [];
+    }
+
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return [{ path, message: `must be an array (got ${typeOf(value)})` }];
+      }
+      const violations: SchemaViolation[] = [];
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        violations.push({ path, message: `must contain at least ${schema.minItems} item(s)` });
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        violations.push({ path, message: `must contain at most ${schema.maxItems} item(s)` });
+      }
+      value.forEach((item, index) => {
+        violations.push(...validate(schema.items, item, `${path}[${index}]`));
+      });
+      return violations;
+    }
+
+    case 'object': {
+      if (typeOf(value) !== 'object') {
+        return [{ path, message: `must be an object (got ${typeOf(value)})` }];
+      }
+      const record = value as { [key: string]: unknown };
+      return Object.entries(schema.properties).flatMap(([key, propertySchema]) =>
+        validate(propertySchema, record[key], `${path}.${key}`)
+      );
+    }
+
+    case 'record': {
+      if (typeOf(value) !== 'object') {
+        return [{ path, message: `must be an object (got ${typeOf(value)})` }];
+      }
+      return Object.entries(value as { [key: string]: unknown }).flatMap(([key, item]) =>
+        validate(schema.values, item, `${path}.${key}`)
+      );
+    }
+
+    case 'any':
+      return [];
+  }
+}
+
+export function assertValid<T>(schema: Schema, value: unknown): T {
+  const violations = validate(schema, value);
+  if (violations.length > 0) {
+    throw new SchemaValidationError(violations);
+  }
+  return value as T;
+}
+
+/**
+ * Pulls the first complete JSON object out of a model response, tolerating
+ * markdown fences and surrounding prose. Braces inside strings are ignored, so
+ * code answers containing `{` or `}` are extracted intact.
+ */
+export function extractJsonObject(text: string): string | null {
+  const start = text.indexOf('{');
+  if (start === -1) {
+    return null;
+  }
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) {
+        return text.slice(start, i + 1);
+      }
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,107 @@
+// Local text similarity for spotting near-duplicate questions without an
+// extra LLM call. Questions are compared as TF-IDF vectors over word
+// unigrams and (half-weighted) two-word shingles, ignoring the phrasing most
+// questions share, so reworded copies of the same question still score high
+// while questions that only share the technology name don't.
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how',
+  'i', 'if', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'their', 'this',
+  'to', 'using', 'what', 'when', 'which', 'why', 'will', 'with', 'would', 'you', 'your',
+  // Phrasing shared by most interview questions
+  'following', 'statement', 'correct', 'true', 'false', 'write', 'implement', 'function',
+  'explain', 'describe', 'design', 'given', 'return', 'work', 'approach', 'example', 'about',
+]);
+
+function stem(token: string): string {
+  return token
+    .replace(/(ing|ed|ly)$/, '')
+    .replace(/(ies)$/, 'y')
+    .replace(/([^s])s$/, '$1');
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9#+]+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+    // Crude suffix folding so "arrays" matches "array"
+    .map(token => (token.length > 4 ? stem(token) : token));
+}
+
+function terms(text: string): Map<string, number> {
+  const tokens = tokenize(text);
+  const counts = new Map<string, number>();
+  const add = (term: string, weight = 1) => counts.set(term, (counts.get(term) ?? 0) + weight);
+
+  tokens.forEach(token => add(token));
+  for (let i = 0; i < tokens.length - 1; i++) {
+    add(`${tokens[i]} ${tokens[i + 1]}`, 0.5);
+  }
+
+  return counts;
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  a.forEach((weight, term) => {
+    normA += weight * weight;
+    dot += weight * (b.get(term) ?? 0);
+  });
+  b.forEach(weight => {
+    normB += weight * weight;
+  });
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+export interface SimilarityMatch {
+  index: number;
+  similarity: number;
+}
+
+/**
+ * Finds the document most similar to `text`. IDF weights are computed over
+ * `text` and `documents` together. Returns null when there is nothing to
+ * compare against.
+ */
+export function findMostSimilar(text: string, documents: string[]): SimilarityMatch | null {
+  if (documents.length === 0) {
+    return null;
+  }
+
+  const termCounts = [text, ...documents].map(terms);
+  const documentFrequency = new Map<string, number>();
+  termCounts.forEach(counts => {
+    counts.forEach((count, term) => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1));
+  });
+
+  // Smoothed IDF: terms shared by every document still count, just less
+  const total = termCounts.length;
+  const vectors = termCounts.map(counts => {
+    const vector = new Map<string, number>();
+    counts.forEach((count, term) => {
+      vector.set(term, count * (Math.log((1 + total) / (1 + documentFrequency.get(term)!)) + 1));
+    });
+    return vector;
+  });
+
+  let best: SimilarityMatch | null = null;
+  for (let i = 1; i < vectors.length; i++) {
+    const similarity = cosine(vectors[0], vectors[i]);
+    if (!best || similarity > best.similarity) {
+      best = { index: i - 1, similarity };
+    }
+  }
+
+  return best;
+}
+
+/** The words two texts have in common, after stop words and suffix folding. */
+export function sharedTerms(a: string, b: string): string[] {
+  const other = new Set(tokenize(b));
+  return Array.from(new Set(tokenize(a).filter(token => other.has(token))));
+}
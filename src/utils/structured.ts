@@ -0,0 +1,121 @@
+import { ChatMessage, complete, CompletionMetadata, LLMTask, ProviderConfig } from './llm';
+import { extractJsonObject, formatViolations, Schema, SchemaViolation, validate } from './schema';
+
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+const DEFAULT_MAX_TOKENS = 1000;
+
+export class StructuredOutputError extends Error {
+  code = 'INVALID_STRUCTURED_OUTPUT';
+  violations: SchemaViolation[];
+  attempts: number;
+  rawOutput: string;
+
+  constructor(violations: SchemaViolation[], attempts: number, rawOutput: string) {
+    super(`Model output did not match the expected format after ${attempts} attempt(s): ${formatViolations(violations)}`);
+    this.name = 'StructuredOutputError';
+    this.violations = violations;
+    this.attempts = attempts;
+    this.rawOutput = rawOutput;
+  }
+}
+
+export interface StructuredRequest {
+  task: LLMTask;
+  systemPrompt?: string;
+  prompt: string;
+  schema: Schema;
+  metadata?: CompletionMetadata;
+  signal?: AbortSignal;
+  temperature?: number;
+  // Default 1000
+  maxTokens?: number;
+  maxRepairAttempts?: number;
+  // Overrides the task's configured models
+  providers?: ProviderConfig[];
+  // Streams the first attempt's raw output; repairs are not streamed
+  onToken?: (text: string) => void;
+  onRepair?: (attempt: number, violations: SchemaViolation[]) => void;
+}
+
+function getMaxRepairAttempts(): number {
+  const configured = Number(process.env.LLM_MAX_REPAIR_ATTEMPTS);
+  return Number.isInteger(configured) && configured >= 0 ? configured : DEFAULT_MAX_REPAIR_ATTEMPTS;
+}
+
+export function parseStructuredOutput(content: string, schema: Schema): { value?: unknown; violations: SchemaViolation[] } {
+  const json = extractJsonObject(content);
+  if (!json) {
+    return { violations: [{ path: '$', message: 'no JSON object found in the response' }] };
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    return {
+      violations: [{ path: '$', message: `is not valid JSON (${error instanceof Error ? error.message : String(error)})` }],
+    };
+  }
+
+  return { value, violations: validate(schema, value) };
+}
+
+function buildRepairPrompt(violations: SchemaViolation[]): string {
+  return `Your previous response did not match the required JSON format. Fix these problems:
+${violations.map(v => `- ${v.path}: ${v.message}`).join('\n')}
+
+Return ONLY the corrected JSON object, with the same content where it was valid. No additional text.`;
+}
+
+/**
+ * Requests a JSON payload and validates it against a schema. When the output
+ * is invalid the model is shown the exact violations and asked to repair it,
+ * up to LLM_MAX_REPAIR_ATTEMPTS times (default 2).
+ */
+export async function completeStructured<T>(request: StructuredRequest): Promise<T> {
+  const maxRepairAttempts = request.maxRepairAttempts ?? getMaxRepairAttempts();
+  const messages: ChatMessage[] = [
+    ...(request.systemPrompt ? [{ role: 'system' as const, content: request.systemPrompt }] : []),
+    { role: 'user', content: request.prompt },
+  ];
+
+  let lastViolations: SchemaViolation[] = [];
+  let lastContent = '';
+
+  for (let attempt = 0; attempt <= maxRepairAttempts; attempt++) {
+    const result = await complete({
+      task: request.task,
+      messages,
+      temperature: request.temperature ?? 0.7,
+      maxTokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      topP: 0.95,
+      metadata: request.metadata,
+      signal: request.signal,
+      providers: request.providers,
+      onToken: attempt === 0 ? request.onToken : undefined,
+    });
+
+    lastContent = result.content;
+    const { value, violations } = parseStructuredOutput(result.content, request.schema);
+    if (violations.length === 0) {
+      return value as T;
+    }
+
+    console.warn('Structured output failed validation:', {
+      task: request.task,
+      attempt: attempt + 1,
+      violations,
+    });
+
+    lastViolations = violations;
+    if (attempt < maxRepairAttempts) {
+      request.onRepair?.(attempt + 1, violations);
+    }
+    messages.push(
+      { role: 'assistant', content: result.content },
+      { role: 'user', content: buildRepairPrompt(violations) }
+    );
+  }
+
+  throw new StructuredOutputError(lastViolations, maxRepairAttempts + 1, lastContent);
+}
@@ -0,0 +1,111 @@
+import { readDocument, updateDocument } from './fileStore';
+import { SchemaValidationError, validate } from './schema';
+import {
+  BUILTIN_TECHNOLOGIES,
+  findTechnology,
+  resolveTechnology,
+  ResolvedTechnology,
+  technologyEntrySchema,
+  TechnologyEntry,
+  technologyKey,
+} from './technologyCatalog';
+
+// The technology catalog as served: the built-in entries plus internal
+// technologies (in-house frameworks and the like) added by admins, stored
+// alongside the question bank.
+
+const CUSTOM_TECHNOLOGIES_DOCUMENT = 'technologies';
+
+interface CustomTechnologiesDocument {
+  technologies: TechnologyEntry[];
+}
+
+const EMPTY_CUSTOM_TECHNOLOGIES: CustomTechnologiesDocument = { technologies: [] };
+
+function catalogOf(document: CustomTechnologiesDocument): TechnologyEntry[] {
+  return [...BUILTIN_TECHNOLOGIES, ...document.technologies];
+}
+
+export async function getTechnologyCatalog(): Promise<TechnologyEntry[]> {
+  return catalogOf(await readDocument(CUSTOM_TECHNOLOGIES_DOCUMENT, EMPTY_CUSTOM_TECHNOLOGIES));
+}
+
+/** Looks a technology up in the full catalog; null for free-text technologies. */
+export async function lookupTechnology(value: string): Promise<ResolvedTechnology | null> {
+  return resolveTechnology(await getTechnologyCatalog(), value);
+}
+
+/**
+ * Validates a submitted internal technology. Its id, name and aliases must
+ * not refer to another entry. Throws SchemaValidationError listing every
+ * problem.
+ */
+function normalizeCustomTechnology(input: unknown, catalog: TechnologyEntry[], existing?: TechnologyEntry): TechnologyEntry {
+  const violations = validate(technologyEntrySchema, input);
+  if (violations.length > 0) {
+    throw new SchemaValidationError(violations);
+  }
+
+  const entry = input as Partial<TechnologyEntry>;
+  const id = existing?.id ?? technologyKey(entry.id ?? entry.name!);
+  if (!id) {
+    violations.push({ path: entry.id ? '$.id' : '$.name', message: 'must contain letters or digits' });
+  }
+
+  const others = catalog.filter(other => other.id !== existing?.id);
+  const names: [string, string][] = [
+    [entry.id ? '$.id' : '$.name', id],
+    ['$.name', entry.name!],
+    ...(entry.aliases ?? []).map((alias, index): [string, string] => [`$.aliases[${index}]`, alias]),
+  ];
+  for (const [path, name] of names) {
+    const taken = findTechnology(others, name);
+    if (taken) {
+      violations.push({ path, message: `"${name}" already refers to ${taken.name}` });
+    }
+  }
+
+  if (violations.length > 0) {
+    throw new SchemaValidationError(violations);
+  }
+
+  return {
+    id,
+    name: entry.name!.trim(),
+    category: entry.category?.trim() || 'Internal',
+    aliases: entry.aliases?.map(alias => alias.trim()),
+    versions: entry.versions?.map(version => version.trim()),
+    monacoLanguage: entry.monacoLanguage?.trim() || 'plaintext',
+    description: entry.description!.trim(),
+    custom: true,
+  };
+}
+
+// Entries are checked against the catalog inside the update, so concurrent
+// requests can't both claim the same name
+export async function createCustomTechnology(input: unknown): Promise<TechnologyEntry> {
+  return updateDocument(CUSTOM_TECHNOLOGIES_DOCUMENT, EMPTY_CUSTOM_TECHNOLOGIES, document => {
+    const entry = normalizeCustomTechnology(input, catalogOf(document));
+    return { value: { technologies: [...document.technologies, entry] }, result: entry };
+  });
+}
+
+/** Replaces an internal technology. Returns null when the id isn't one; built-in entries can't be changed. */
+export async function replaceCustomTechnology(id: string, input: unknown): Promise<TechnologyEntry | null> {
+  return updateDocument<CustomTechnologiesDocument, TechnologyEntry | null>(CUSTOM_TECHNOLOGIES_DOCUMENT, EMPTY_CUSTOM_TECHNOLOGIES, document => {
+    const existing = document.technologies.find(entry => entry.id === id);
+    if (!existing) {
+      return { value: document, result: null };
+    }
+
+    const entry = normalizeCustomTechnology(input, catalogOf(document), existing);
+    return { value: { technologies: document.technologies.map(t => (t.id === id ? entry : t)) }, result: entry };
+  });
+}
+
+export async function deleteCustomTechnology(id: string): Promise<boolean> {
+  return updateDocument(CUSTOM_TECHNOLOGIES_DOCUMENT, EMPTY_CUSTOM_TECHNOLOGIES, document => {
+    const technologies = document.technologies.filter(technology => technology.id !== id);
+    return { value: { technologies }, result: technologies.length !== document.technologies.length };
+  });
+}
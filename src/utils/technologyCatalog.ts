@@ -0,0 +1,232 @@
+import { Schema } from './schema';
+
+// The technologies interviews can be about. Each entry has a canonical id,
+// the names it's also known by, a category for the picker, the versions an
+// interview can target and the Monaco language its coding questions are
+// answered in. Built-in entries live here; admins add internal ones through
+// /api/technologies (see technologies.ts). No server dependencies, so the
+// pages can use it.
+
+export interface TechnologyEntry {
+  id: string;
+  name: string;
+  category: string;
+  // Other spellings, matched case-insensitively
+  aliases?: string[];
+  // Versions offered in the picker, oldest first
+  versions?: string[];
+  // Monaco language id for the code editor
+  monacoLanguage: string;
+  // What the technology is, for the model; needed for internal ones it can't know
+  description?: string;
+  // Added by an admin rather than shipped with the app
+  custom?: boolean;
+}
+
+// A technology as an interview names it, e.g. "React 19"
+export interface ResolvedTechnology {
+  entry: TechnologyEntry;
+  version?: string;
+}
+
+export const TECHNOLOGY_CATEGORIES = [
+  'Programming Languages',
+  'Web Development',
+  'Mobile Development',
+  'Database',
+  'Cloud & DevOps',
+  'Data Science & AI',
+  'Testing',
+  'Other',
+  'Internal',
+];
+
+export const DEFAULT_MONACO_LANGUAGE = 'javascript';
+
+function entries(category: string, list: Omit<TechnologyEntry, 'category'>[]): TechnologyEntry[] {
+  return list.map(entry => ({ ...entry, category }));
+}
+
+export const BUILTIN_TECHNOLOGIES: TechnologyEntry[] = [
+  ...entries('Programming Languages', [
+    { id: 'javascript', name: 'JavaScript', aliases: ['js', 'ecmascript'], versions: ['ES2022', 'ES2024'], monacoLanguage: 'javascript' },
+    { id: 'python', name: 'Python', aliases: ['py', 'python3'], versions: ['3.10', '3.11', '3.12', '3.13'], monacoLanguage: 'python' },
+    { id: 'java', name: 'Java', versions: ['17', '21'], monacoLanguage: 'java' },
+    { id: 'cpp', name: 'C++', aliases: ['cpp', 'c plus plus'], versions: ['17', '20', '23'], monacoLanguage: 'cpp' },
+    { id: 'csharp', name: 'C#', aliases: ['csharp', 'c sharp'], versions: ['12', '13'], monacoLanguage: 'csharp' },
+    { id: 'ruby', name: 'Ruby', versions: ['3.3'], monacoLanguage: 'ruby' },
+    { id: 'php', name: 'PHP', versions: ['8.2', '8.3'], monacoLanguage: 'php' },
+    { id: 'swift', name: 'Swift', versions: ['5.10', '6'], monacoLanguage: 'swift' },
+    { id: 'go', name: 'Go', aliases: ['golang'], versions: ['1.22', '1.23'], monacoLanguage: 'go' },
+    { id: 'rust', name: 'Rust', versions: ['2021'], monacoLanguage: 'rust' },
+    { id: 'typescript', name: 'TypeScript', aliases: ['ts'], versions: ['5'], monacoLanguage: 'typescript' },
+    { id: 'kotlin', name: 'Kotlin', versions: ['2.0'], monacoLanguage: 'kotlin' },
+    { id: 'scala', name: 'Scala', versions: ['2.13', '3'], monacoLanguage: 'scala' },
+    { id: 'r', name: 'R', monacoLanguage: 'r' },
+    { id: 'matlab', name: 'MATLAB', monacoLanguage: 'plaintext' },
+    { id: 'perl', name: 'Perl', monacoLanguage: 'perl' },
+    { id: 'haskell', name: 'Haskell', monacoLanguage: 'plaintext' },
+    { id: 'lua', name: 'Lua', monacoLanguage: 'lua' },
+  ]),
+  ...entries('Web Development', [
+    { id: 'react', name: 'React', aliases: ['react.js', 'reactjs'], versions: ['18', '19'], monacoLanguage: 'javascript' },
+    { id: 'angular', name: 'Angular', versions: ['17', '18', '19'], monacoLanguage: 'typescript' },
+    { id: 'vue', name: 'Vue.js', aliases: ['vue', 'vuejs'], versions: ['2', '3'], monacoLanguage: 'javascript' },
+    { id: 'nodejs', name: 'Node.js', aliases: ['node', 'nodejs'], versions: ['18', '20', '22'], monacoLanguage: 'javascript' },
+    { id: 'express', name: 'Express.js', aliases: ['express', 'expressjs'], versions: ['4', '5'], monacoLanguage: 'javascript' },
+    { id: 'django', name: 'Django', versions: ['4.2', '5.1'], monacoLanguage: 'python' },
+    { id: 'flask', name: 'Flask', versions: ['3'], monacoLanguage: 'python' },
+    { id: 'springboot', name: 'Spring Boot', aliases: ['spring'], versions: ['3'], monacoLanguage: 'java' },
+    { id: 'laravel', name: 'Laravel', versions: ['10', '11'], monacoLanguage: 'php' },
+    { id: 'aspnet', name: 'ASP.NET', aliases: ['.net', 'dotnet', 'asp.net core'], versions: ['8', '9'], monacoLanguage: 'csharp' },
+    { id: 'rails', name: 'Ruby on Rails', aliases: ['rails', 'ror'], versions: ['7'], monacoLanguage: 'ruby' },
+    { id: 'nextjs', name: 'Next.js', aliases: ['next', 'nextjs'], versions: ['14', '15'], monacoLanguage: 'typescript' },
+    { id: 'nuxt', name: 'Nuxt.js', aliases: ['nuxt'], versions: ['3'], monacoLanguage: 'javascript' },
+    { id: 'svelte', name: 'Svelte', versions: ['4', '5'], monacoLanguage: 'javascript' },
+    { id: 'graphql', name: 'GraphQL', monacoLanguage: 'graphql' },
+    { id: 'rest', name: 'REST API', aliases: ['rest'], monacoLanguage: 'javascript' },
+    { id: 'html', name: 'HTML', aliases: ['html5'], monacoLanguage: 'html' },
+    { id: 'css', name: 'CSS', aliases: ['css3'], monacoLanguage: 'css' },
+    { id: 'sass', name: 'Sass', aliases: ['scss'], monacoLanguage: 'scss' },
+    { id: 'jquery', name: 'jQuery', monacoLanguage: 'javascript' },
+  ]),
+  ...entries('Mobile Development', [
+    { id: 'reactnative', name: 'React Native', versions: ['0.74', '0.76'], monacoLanguage: 'javascript' },
+    { id: 'flutter', name: 'Flutter', versions: ['3'], monacoLanguage: 'dart' },
+    { id: 'ios', name: 'iOS', monacoLanguage: 'swift' },
+    { id: 'android', name: 'Android', monacoLanguage: 'kotlin' },
+    { id: 'xamarin', name: 'Xamarin', monacoLanguage: 'csharp' },
+    { id: 'ionic', name: 'Ionic', monacoLanguage: 'typescript' },
+  ]),
+  ...entries('Database', [
+    { id: 'sql', name: 'SQL', monacoLanguage: 'sql' },
+    { id: 'mysql', name: 'MySQL', versions: ['8'], monacoLanguage: 'mysql' },
+    { id: 'postgresql', name: 'PostgreSQL', aliases: ['postgres', 'psql'], versions: ['15', '16', '17'], monacoLanguage: 'pgsql' },
+    { id: 'mongodb', name: 'MongoDB', aliases: ['mongo'], versions: ['7'], monacoLanguage: 'javascript' },
+    { id: 'redis', name: 'Redis', versions: ['7'], monacoLanguage: 'redis' },
+    { id: 'oracle', name: 'Oracle', aliases: ['oracle db'], monacoLanguage: 'sql' },
+    { id: 'sqlite', name: 'SQLite', monacoLanguage: 'sql' },
+    { id: 'mssql', name: 'Microsoft SQL Server', aliases: ['sql server', 'mssql', 't-sql'], monacoLanguage: 'sql' },
+    { id: 'firebase', name: 'Firebase', monacoLanguage: 'javascript' },
+    { id: 'cassandra', name: 'Cassandra', monacoLanguage: 'sql' },
+    { id: 'dynamodb', name: 'DynamoDB', monacoLanguage: 'javascript' },
+  ]),
+  ...entries('Cloud & DevOps', [
+    { id: 'aws', name: 'AWS', aliases: ['amazon web services'], monacoLanguage: 'python' },
+    { id: 'azure', name: 'Azure', aliases: ['microsoft azure'], monacoLanguage: 'csharp' },
+    { id: 'gcp', name: 'Google Cloud', aliases: ['gcp', 'google cloud platform'], monacoLanguage: 'python' },
+    { id: 'docker', name: 'Docker', monacoLanguage: 'dockerfile' },
+    { id: 'kubernetes', name: 'Kubernetes', aliases: ['k8s'], monacoLanguage: 'yaml' },
+    { id: 'jenkins', name: 'Jenkins', monacoLanguage: 'plaintext' },
+    { id: 'gitlabci', name: 'GitLab CI/CD', aliases: ['gitlab ci'], monacoLanguage: 'yaml' },
+    { id: 'terraform', name: 'Terraform', versions: ['1.9'], monacoLanguage: 'hcl' },
+    { id: 'ansible', name: 'Ansible', monacoLanguage: 'yaml' },
+    { id: 'linux', name: 'Linux', aliases: ['bash', 'shell'], monacoLanguage: 'shell' },
+    { id: 'nginx', name: 'Nginx', monacoLanguage: 'plaintext' },
+  ]),
+  ...entries('Data Science & AI', [
+    { id: 'machinelearning', name: 'Machine Learning', aliases: ['ml'], monacoLanguage: 'python' },
+    { id: 'deeplearning', name: 'Deep Learning', aliases: ['dl'], monacoLanguage: 'python' },
+    { id: 'tensorflow', name: 'TensorFlow', versions: ['2'], monacoLanguage: 'python' },
+    { id: 'pytorch', name: 'PyTorch', versions: ['2'], monacoLanguage: 'python' },
+    { id: 'pandas', name: 'Pandas', versions: ['2'], monacoLanguage: 'python' },
+    { id: 'numpy', name: 'NumPy', versions: ['1.26', '2'], monacoLanguage: 'python' },
+    { id: 'scikitlearn', name: 'scikit-learn', aliases: ['sklearn'], monacoLanguage: 'python' },
+    { id: 'dataanalysis', name: 'Data Analysis', monacoLanguage: 'python' },
+    { id: 'nlp', name: 'Natural Language Processing', aliases: ['nlp'], monacoLanguage: 'python' },
+    { id: 'computervision', name: 'Computer Vision', aliases: ['cv'], monacoLanguage: 'python' },
+    { id: 'bigdata', name: 'Big Data', monacoLanguage: 'python' },
+    { id: 'spark', name: 'Apache Spark', aliases: ['spark', 'pyspark'], versions: ['3'], monacoLanguage: 'python' },
+  ]),
+  ...entries('Testing', [
+    { id: 'jest', name: 'Jest', monacoLanguage: 'javascript' },
+    { id: 'mocha', name: 'Mocha', monacoLanguage: 'javascript' },
+    { id: 'selenium', name: 'Selenium', monacoLanguage: 'java' },
+    { id: 'junit', name: 'JUnit', versions: ['4', '5'], monacoLanguage: 'java' },
+    { id: 'pytest', name: 'pytest', monacoLanguage: 'python' },
+    { id: 'cypress', name: 'Cypress', monacoLanguage: 'javascript' },
+  ]),
+  ...entries('Other', [
+    { id: 'blockchain', name: 'Blockchain', aliases: ['solidity'], monacoLanguage: 'sol' },
+    { id: 'webassembly', name: 'WebAssembly', aliases: ['wasm'], monacoLanguage: 'rust' },
+    { id: 'unity', name: 'Unity', monacoLanguage: 'csharp' },
+    { id: 'unrealengine', name: 'Unreal Engine', aliases: ['unreal'], monacoLanguage: 'cpp' },
+    { id: 'electron', name: 'Electron', monacoLanguage: 'javascript' },
+  ]),
+];
+
+const VERSION = /^v?\d+(\.\d+)*$|^ES\d{4}$/i;
+
+export const technologyEntrySchema: Schema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', minLength: 1, optional: true },
+    name: { type: 'string', minLength: 1 },
+    category: { type: 'string', minLength: 1, optional: true },
+    aliases: { type: 'array', items: { type: 'string', minLength: 1 }, optional: true },
+    versions: { type: 'array', items: { type: 'string', minLength: 1 }, optional: true },
+    monacoLanguage: { type: 'string', minLength: 1, optional: true },
+    description: { type: 'string', minLength: 1 },
+  },
+};
+
+/**
+ * The key names are matched by: lower case with punctuation dropped, except
+ * where it matters ("C++" is cpp, "C#" is csharp, ".NET" is dotnet).
+ */
+export function technologyKey(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/c\+\+/g, 'cpp')
+    .replace(/c#/g, 'csharp')
+    .replace(/^\.net\b/, 'dotnet')
+    .replace(/[^a-z0-9]/g, '');
+}
+
+/** The entry a name or alias refers to. */
+export function findTechnology(catalog: TechnologyEntry[], name: string | null | undefined): TechnologyEntry | null {
+  if (!name) {
+    return null;
+  }
+  const key = technologyKey(name);
+  return catalog.find(entry =>
+    entry.id === key || technologyKey(entry.name) === key || entry.aliases?.some(alias => technologyKey(alias) === key)
+  ) ?? null;
+}
+
+/**
+ * Reads a technology as an interview names it: "React", "react.js 19",
+ * "Python 3.12" or "nodejs@22". Returns null for technologies the catalog
+ * doesn't know, which interviews still accept as free text.
+ */
+export function resolveTechnology(catalog: TechnologyEntry[], value: string | null | undefined): ResolvedTechnology | null {
+  const text = value?.trim();
+  if (!text) {
+    return null;
+  }
+
+  const entry = findTechnology(catalog, text);
+  if (entry) {
+    return { entry };
+  }
+
+  const match = text.match(/^(.+?)(?:\s+|@)(\S+)$/);
+  if (match && VERSION.test(match[2])) {
+    const versioned = findTechnology(catalog, match[1]);
+    if (versioned) {
+      return { entry: versioned, version: match[2].replace(/^v/i, '') };
+    }
+  }
+  return null;
+}
+
+/** How an interview names a technology, e.g. "React 19". */
+export function technologyLabel(entry: TechnologyEntry, version?: string): string {
+  return version ? `${entry.name} ${version}` : entry.name;
+}
+
+/** The editor language for a technology, falling back to JavaScript. */
+export function getMonacoLanguage(catalog: TechnologyEntry[], technology: string | null | undefined): string {
+  return resolveTechnology(catalog, technology)?.entry.monacoLanguage ?? DEFAULT_MONACO_LANGUAGE;
+}
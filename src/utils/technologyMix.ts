@@ -0,0 +1,89 @@
+import { Schema, SchemaViolation, validate } from './schema';
+
+// Roles span stacks ("Full-stack: React + Node.js + PostgreSQL"), so a role
+// template names several technologies with weights and the interview's
+// questions are shared out between them. Like blueprints, mixes travel in
+// the interview URL and this module has no server dependencies.
+
+export interface TechnologyWeight {
+  name: string;
+  // Relative share of the questions, 1-10
+  weight: number;
+}
+
+export const MAX_TECHNOLOGIES = 8;
+
+export const technologyMixSchema: Schema = {
+  type: 'array',
+  minItems: 1,
+  maxItems: MAX_TECHNOLOGIES,
+  items: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', minLength: 1 },
+      weight: { type: 'number', min: 1, max: 10 },
+    },
+  },
+};
+
+/** Problems with a technology mix, as JSON paths and messages; empty when it's usable. */
+export function checkTechnologyMix(input: unknown, basePath = '$'): SchemaViolation[] {
+  const violations = validate(technologyMixSchema, input, basePath);
+  if (violations.length > 0) {
+    return violations;
+  }
+
+  const names = (input as TechnologyWeight[]).map(technology => technology.name.trim().toLowerCase());
+  names.forEach((name, index) => {
+    if (names.indexOf(name) !== index) {
+      violations.push({ path: `${basePath}[${index}].name`, message: `duplicates "${name}"` });
+    }
+  });
+  return violations;
+}
+
+/**
+ * The technology each question is about, in order. Shares follow the weights
+ * and technologies are interleaved rather than asked in blocks (smooth
+ * weighted round robin).
+ */
+export function distributeTechnologies(mix: TechnologyWeight[], count: number): string[] {
+  const totalWeight = mix.reduce((sum, technology) => sum + technology.weight, 0);
+  const current = mix.map(() => 0);
+  const assigned: string[] = [];
+
+  for (let n = 0; n < count; n++) {
+    mix.forEach((technology, index) => {
+      current[index] += technology.weight;
+    });
+    const next = current.indexOf(Math.max(...current));
+    current[next] -= totalWeight;
+    assigned.push(mix[next].name);
+  }
+  return assigned;
+}
+
+/** e.g. "React + Node.js + PostgreSQL" */
+export function describeTechnologyMix(mix: TechnologyWeight[]): string {
+  return mix.map(technology => technology.name).join(' + ');
+}
+
+/** Reads a technology mix from the interview URL. Returns null when it's missing or unusable. */
+export function parseTechnologyMix(value: string | null | undefined): TechnologyWeight[] | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    const mix = JSON.parse(value);
+    const violations = checkTechnologyMix(mix);
+    if (violations.length > 0) {
+      console.error('Ignoring invalid technology mix:', violations);
+      return null;
+    }
+    return mix;
+  } catch (error) {
+    console.error('Ignoring technology mix that is not valid JSON:', error);
+    return null;
+  }
+}
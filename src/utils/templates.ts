@@ -0,0 +1,148 @@
+import { randomUUID } from 'crypto';
+import { Blueprint, blueprintSchema, checkBlueprint } from './blueprint';
+import { readDocument, updateDocument } from './fileStore';
+import { PromptOverrides, validatePromptOverrides } from './prompts';
+import { Rubric, rubricSchema } from './rubric';
+import { Schema, SchemaValidationError, validate } from './schema';
+import { checkTechnologyMix, TechnologyWeight, technologyMixSchema } from './technologyMix';
+
+// Interview templates: reusable settings for interviewing for a particular
+// role, stored alongside the question bank. Role templates also say what the
+// interview covers, so they can be launched from the home page.
+
+const TEMPLATES_DOCUMENT = 'interview-templates';
+
+export interface InterviewTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  // The role's stack, with each technology's share of the questions
+  technologies?: TechnologyWeight[];
+  difficulty?: string;
+  numQuestions?: number;
+  blueprint?: Blueprint;
+  // Grading rubric; the default rubric is used when absent
+  rubric?: Rubric;
+  // Prompt versions or texts to use instead of the active ones, by prompt name
+  prompts?: PromptOverrides;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface TemplatesDocument {
+  templates: InterviewTemplate[];
+}
+
+const EMPTY_TEMPLATES: TemplatesDocument = { templates: [] };
+
+const templateSchema: Schema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 1 },
+    description: { type: 'string', optional: true },
+    technologies: { ...technologyMixSchema, optional: true },
+    difficulty: { type: 'string', enum: ['Easy', 'Medium', 'Hard'], optional: true },
+    numQuestions: { type: 'number', integer: true, min: 1, max: 20, optional: true },
+    blueprint: { ...blueprintSchema, optional: true },
+    rubric: { ...rubricSchema, optional: true },
+    prompts: {
+      type: 'record',
+      optional: true,
+      values: {
+        type: 'object',
+        properties: {
+          version: { type: 'string', minLength: 1, optional: true },
+          system: { type: 'string', minLength: 1, optional: true },
+          body: { type: 'string', minLength: 1, optional: true },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Validates a submitted template. Throws SchemaValidationError listing every
+ * problem.
+ */
+export function normalizeTemplate(input: unknown, existing?: InterviewTemplate): InterviewTemplate {
+  const violations = validate(templateSchema, input);
+  const template = input as Partial<InterviewTemplate>;
+
+  const criterionIds = template.rubric?.criteria?.map(criterion => criterion.id) ?? [];
+  criterionIds.forEach((id, index) => {
+    if (criterionIds.indexOf(id) !== index) {
+      violations.push({ path: `$.rubric.criteria[${index}].id`, message: `duplicates criterion "${id}"` });
+    }
+  });
+
+  if (violations.length === 0 && template.prompts) {
+    violations.push(...validatePromptOverrides(template.prompts, '$.prompts'));
+  }
+
+  if (violations.length === 0 && template.technologies) {
+    violations.push(...checkTechnologyMix(template.technologies, '$.technologies'));
+  }
+
+  if (violations.length === 0 && template.blueprint) {
+    violations.push(...checkBlueprint(template.blueprint, template.numQuestions, '$.blueprint'));
+  }
+
+  if (violations.length > 0) {
+    throw new SchemaValidationError(violations);
+  }
+
+  const now = new Date().toISOString();
+  return {
+    id: existing?.id ?? randomUUID(),
+    name: template.name!.trim(),
+    description: template.description,
+    technologies: template.technologies?.map(technology => ({ name: technology.name.trim(), weight: technology.weight })),
+    difficulty: template.difficulty,
+    numQuestions: template.numQuestions,
+    blueprint: template.blueprint,
+    rubric: template.rubric,
+    prompts: template.prompts,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+}
+
+export async function listTemplates(): Promise<InterviewTemplate[]> {
+  const { templates } = await readDocument(TEMPLATES_DOCUMENT, EMPTY_TEMPLATES);
+  return templates;
+}
+
+export async function getTemplate(id: string): Promise<InterviewTemplate | null> {
+  const templates = await listTemplates();
+  return templates.find(template => template.id === id) ?? null;
+}
+
+export async function createTemplate(input: unknown): Promise<InterviewTemplate> {
+  const template = normalizeTemplate(input);
+  return updateDocument(TEMPLATES_DOCUMENT, EMPTY_TEMPLATES, document => ({
+    value: { templates: [...document.templates, template] },
+    result: template,
+  }));
+}
+
+/** Replaces a template. Returns null when the id is unknown. */
+export async function replaceTemplate(id: string, input: unknown): Promise<InterviewTemplate | null> {
+  const existing = await getTemplate(id);
+  if (!existing) {
+    return null;
+  }
+
+  const template = normalizeTemplate(input, existing);
+  return updateDocument(TEMPLATES_DOCUMENT, EMPTY_TEMPLATES, document => ({
+    value: { templates: document.templates.map(t => (t.id === id ? template : t)) },
+    result: template,
+  }));
+}
+
+export async function deleteTemplate(id: string): Promise<boolean> {
+  return updateDocument(TEMPLATES_DOCUMENT, EMPTY_TEMPLATES, document => {
+    const templates = document.templates.filter(template => template.id !== id);
+    return { value: { templates }, result: templates.length !== document.templates.length };
+  });
+}
+